@@ -74,39 +74,32 @@ def generate_heatmap_image(img_array, heatmap, alpha=0.75):
 def home():
     return "Rice Doctor API is Running! Send POST requests to /predict"
 
-@app.route('/predict', methods=['POST'])
-def predict():
-    if 'image' not in request.files:
-        return jsonify({'error': 'No image provided'}), 400
-
-    file = request.files['image']
-    
+# --- SHARED PREDICTION HELPERS ---
+def load_image_array(file):
     # 1. Open Image
     img = Image.open(file.stream).convert('RGB')
-    
+
     # 2. SQUASHING METHOD (Option A)
     img = img.resize((224, 224))
-    
-    # 3. Convert to Array
-    img_array = tf.keras.utils.img_to_array(img)
-    
-    # 4. Prepare Batch
-    img_batch = np.expand_dims(img_array, axis=0) 
 
-    # --- 5. GET MODEL (Lazy Load) ---
-    # We call the function here. If it's the first time, it loads.
-    # If it's the second time, it's instant.
-    current_model = get_model()
+    # 3. Convert to Array
+    return tf.keras.utils.img_to_array(img)
 
-    # 6. Prediction
-    preds = current_model.predict(img_batch)
-    pred_idx = np.argmax(preds[0])
-    confidence = float(preds[0][pred_idx])
+def build_result(current_model, img_array, pred):
+    pred_idx = np.argmax(pred)
+    confidence = float(pred[pred_idx])
     label = LABELS[pred_idx]
 
+    # Ranked distribution over every class (highest first)
+    ranked_idx = np.argsort(pred)[::-1]
+    probabilities = [
+        {'label': LABELS[i], 'confidence': f"{float(pred[i]):.2%}"}
+        for i in ranked_idx
+    ]
+
     # 7. Generate Grad-CAM
     try:
-        # Pass 'current_model', not the global 'model'
+        img_batch = np.expand_dims(img_array, axis=0)
         heatmap = get_gradcam_heatmap(img_batch, current_model, LAST_CONV_LAYER_NAME, pred_idx)
         result_img = generate_heatmap_image(img_array, heatmap)
 
@@ -115,13 +108,65 @@ def predict():
         img_str = base64.b64encode(buffered.getvalue()).decode("utf-8")
     except Exception as e:
         print(f"⚠️ Grad-CAM failed: {e}")
-        img_str = "" 
+        img_str = ""
 
-    return jsonify({
+    return {
         'label': label,
         'confidence': f"{confidence:.2%}",
+        'probabilities': probabilities,
         'heatmap_image': img_str
-    })
+    }
+
+@app.route('/predict', methods=['POST'])
+def predict():
+    if 'image' not in request.files:
+        return jsonify({'error': 'No image provided'}), 400
+
+    img_array = load_image_array(request.files['image'])
+
+    # 4. Prepare Batch
+    img_batch = np.expand_dims(img_array, axis=0)
+
+    # --- 5. GET MODEL (Lazy Load) ---
+    # We call the function here. If it's the first time, it loads.
+    # If it's the second time, it's instant.
+    current_model = get_model()
+
+    # 6. Prediction
+    preds = current_model.predict(img_batch)
+    return jsonify(build_result(current_model, img_array, preds[0]))
+
+# --- BATCH ROUTE ---
+# Several photos from one field walk in a single request. Results come back
+# in upload order; a photo that cannot be read gets an 'error' entry instead
+# of failing the whole batch.
+MAX_BATCH_SIZE = 10
+
+@app.route('/predict/batch', methods=['POST'])
+def predict_batch():
+    files = request.files.getlist('images')
+    if not files:
+        return jsonify({'error': 'No images provided'}), 400
+    if len(files) > MAX_BATCH_SIZE:
+        return jsonify({'error': f'Send at most {MAX_BATCH_SIZE} images per batch'}), 400
+
+    results = [None] * len(files)
+    arrays = []
+    indices = []
+    for i, file in enumerate(files):
+        try:
+            arrays.append(load_image_array(file))
+            indices.append(i)
+        except Exception as e:
+            results[i] = {'error': f'Could not read image: {e}'}
+
+    if arrays:
+        current_model = get_model()
+        preds = current_model.predict(np.stack(arrays))
+        for i, img_array, pred in zip(indices, arrays, preds):
+            results[i] = build_result(current_model, img_array, pred)
+
+    return jsonify({'results': results})
 
 if __name__ == '__main__':
     app.run(host='0.0.0.0', port=5000, debug=True)
\ No newline at end of file
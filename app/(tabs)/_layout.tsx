@@ -4,24 +4,19 @@ import React from 'react';
 import { Platform } from 'react-native';
 
 import { HapticTab } from '@/components/haptic-tab';
-import { useColorScheme } from '@/hooks/use-color-scheme';
-
-// --- CUSTOM RICE DOCTOR THEME COLORS ---
-const COLORS = {
-  primary: '#2E7D32',    // Deep Green
-  inactive: '#9E9E9E',   // Grey
-  background: '#FFFFFF', // White
-};
+import { useThemeColors } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
 
 export default function TabLayout() {
-  const colorScheme = useColorScheme();
+  const colors = useThemeColors();
+  const { t } = useTranslation();
 
   return (
     <Tabs
       screenOptions={{
         // 1. Color Settings
-        tabBarActiveTintColor: COLORS.primary,
-        tabBarInactiveTintColor: COLORS.inactive,
+        tabBarActiveTintColor: colors.tabIconSelected,
+        tabBarInactiveTintColor: colors.tabIconDefault,
         
         // 2. Hide the top header (because our screens have their own green headers)
         headerShown: false,
@@ -31,7 +26,7 @@ export default function TabLayout() {
 
         // 4. Style the Bar (Taller and cleaner)
         tabBarStyle: {
-          backgroundColor: COLORS.background,
+          backgroundColor: colors.surface,
           borderTopWidth: 0, 
           elevation: 5, // Shadow for Android
           height: Platform.OS === 'ios' ? 85 : 65, 
@@ -48,7 +43,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Scanner',
+          title: t('tabs.scanner'),
           tabBarIcon: ({ color }) => (
             // Using MaterialIcons for the Camera
             <MaterialIcons size={28} name="camera-alt" color={color} />
@@ -60,13 +55,24 @@ export default function TabLayout() {
       <Tabs.Screen
         name="explore"
         options={{
-          title: 'History',
+          title: t('tabs.history'),
           tabBarIcon: ({ color }) => (
             // Using MaterialIcons for the History clock
             <MaterialIcons size={28} name="history" color={color} />
           ),
         }}
       />
+
+      {/* --- TAB 3: STATISTICS --- */}
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: t('tabs.stats'),
+          tabBarIcon: ({ color }) => (
+            <MaterialIcons size={28} name="insights" color={color} />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
-import React, { useCallback, useState } from 'react';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   FlatList,
   Image,
@@ -12,67 +13,263 @@ import {
   StatusBar,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View
 } from 'react-native';
 
-// --- TYPESCRIPT INTERFACES ---
-interface HistoryItem {
-  id: string;
-  label: string;
-  confidence: string;
-  imageUri: string;
-  date: string;
-  advice: string;
-}
-
-// --- THEME COLORS ---
-const COLORS = {
-  primary: '#2E7D32',
-  secondary: '#E8F5E9',
-  accent: '#F57C00',
-  text: '#1F2937',
-  white: '#FFFFFF',
-  danger: '#C62828',
-  gray: '#6B7280',
-  background: '#F8F9FA',
-  overlay: 'rgba(0,0,0,0.5)' // Dimmed background for modal
-};
+import { BAND_STYLES, ConfidenceBadge } from '@/components/confidence-badge';
+import { DiagnosisFeedback } from '@/components/diagnosis-feedback';
+import { ExportSheet } from '@/components/export-sheet';
+import { FieldPicker } from '@/components/field-picker';
+import { FollowUpPicker } from '@/components/follow-up-picker';
+import { HistoryFilterBar } from '@/components/history-filter-bar';
+import { PlantPhotoResults } from '@/components/plant-photo-results';
+import { ProbabilityBars } from '@/components/probability-bars';
+import { ReadAloudButton } from '@/components/read-aloud-button';
+import { ScanImage } from '@/components/scan-image';
+import { ScanQueueList } from '@/components/scan-queue-list';
+import { TreatmentLog } from '@/components/treatment-log';
+import { ThemeColors } from '@/constants/theme';
+import { useScanQueue } from '@/hooks/use-scan-queue';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { bandOf } from '@/services/confidence';
+import {
+  DiagnosisFeedback as Feedback,
+  HISTORY_PAGE_SIZE,
+  HistoryItem,
+  clearAllHistory,
+  deleteHistoryItem,
+  getAllHistory,
+  getHistoryItem,
+  getHistoryPage,
+  updateHistoryItem,
+} from '@/services/history';
+import {
+  HistoryFilters,
+  applyHistoryFilters,
+  isDefaultHistoryFilters,
+  loadHistoryFilters,
+  saveHistoryFilters,
+} from '@/services/history-filters';
+import { formatCoordinates } from '@/services/location';
+import { formatConfidence } from '@/services/prediction';
+import { cancelRemindersFor, clearReminders } from '@/services/reminders';
 
 export default function ExploreScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  // Pages loaded straight from storage (default newest-first view)
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Search / filter / sort. Null until the saved filters are loaded.
+  const [filters, setFilters] = useState<HistoryFilters | null>(null);
+  // Every entry, only loaded while a filter or non-default sort is active
+  const [allItems, setAllItems] = useState<HistoryItem[]>([]);
+  const [visibleCount, setVisibleCount] = useState(HISTORY_PAGE_SIZE);
   // 1. NEW STATE: Track which item is currently open
   const [selectedItem, setSelectedItem] = useState<HistoryItem | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  // The open scan's follow-up chain: what it re-checks and what re-checked it.
+  const [linkedScans, setLinkedScans] = useState<{ original: HistoryItem | null; followUps: HistoryItem[] }>({
+    original: null,
+    followUps: [],
+  });
+  const [exportVisible, setExportVisible] = useState(false);
+  const scanQueue = useScanQueue();
+  const { language, t, tn, diseaseName, diseaseAdvice, formatDate } = useTranslation();
+  const queuedScans = scanQueue.filter((item) => item.status !== 'done');
+  const finishedCount = scanQueue.length - queuedScans.length;
+
+  const filtering = filters !== null && !isDefaultHistoryFilters(filters);
+  const matches = useMemo(
+    () => (filtering && filters ? applyHistoryFilters(allItems, filters, language) : []),
+    [filtering, filters, allItems, language]
+  );
+  const listData = filtering ? matches.slice(0, visibleCount) : history;
+  const hasHistory = history.length > 0 || allItems.length > 0;
+
+  useEffect(() => {
+    loadHistoryFilters().then(setFilters);
+  }, []);
+
+  // Reloads from the first page (newest entries), or every entry when filtering.
+  const filtersReady = filters !== null;
+  const loadHistory = useCallback(async () => {
+    if (!filtersReady) return;
+    try {
+      if (filtering) {
+        setAllItems(await getAllHistory());
+        return;
+      }
+      const page = await getHistoryPage(0);
+      setHistory(page.items);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Failed to load history", error);
+    }
+  }, [filtersReady, filtering]);
 
   useFocusEffect(
     useCallback(() => {
       loadHistory();
-    }, [])
+    }, [loadHistory])
   );
 
-  const loadHistory = async () => {
+  // Queued scans write into history when they finish, so reload when one does.
+  useEffect(() => {
+    loadHistory();
+  }, [finishedCount, loadHistory]);
+
+  const loadMore = async () => {
+    if (filtering) {
+      if (visibleCount < matches.length) setVisibleCount((count) => count + HISTORY_PAGE_SIZE);
+      return;
+    }
+    if (!hasMore || loadingMore) return;
+    setLoadingMore(true);
     try {
-      const storedHistory = await AsyncStorage.getItem('leaf_history');
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
-      }
+      const page = await getHistoryPage(history.length);
+      setHistory((current) => [...current, ...page.items]);
+      setHasMore(page.hasMore);
     } catch (error) {
-      console.error("Failed to load history", error);
+      console.error("Failed to load more history", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const changeFilters = (next: HistoryFilters) => {
+    setFilters(next);
+    setVisibleCount(HISTORY_PAGE_SIZE);
+    saveHistoryFilters(next);
+  };
+
+  // Applies an edit or delete to whichever lists are loaded.
+  const replaceInLists = (id: string, next: HistoryItem | null) => {
+    const apply = (items: HistoryItem[]) =>
+      next ? items.map((item) => (item.id === id ? next : item)) : items.filter((item) => item.id !== id);
+    setHistory(apply);
+    setAllItems(apply);
+  };
+
+  const openItem = (item: HistoryItem) => {
+    setSelectedItem(item);
+    setNotesDraft(item.notes ?? '');
+  };
+
+  const openLinked = async (id: string) => {
+    const item = await getHistoryItem(id);
+    if (item) openItem(item);
+  };
+
+  // Uncertain results get the retake prompt instead of treatment advice, as on the scanner.
+  const adviceFor = (item: HistoryItem) =>
+    bandOf(item) === 'uncertain'
+      ? t('scanner.uncertainMessage', { disease: diseaseName(item.label), confidence: formatConfidence(item.confidence) })
+      : diseaseAdvice(item.label) ?? item.advice;
+
+  // What the speaker button reads: the same messages the scanner's result card reads.
+  const readAloudText = (item: HistoryItem) => {
+    const band = bandOf(item);
+    if (band === 'uncertain') return [t('scanner.uncertainTitle'), adviceFor(item)].join('\n');
+    return [
+      diseaseName(item.label),
+      t('speech.confidence', { band: t(`confidence.${band}`), confidence: formatConfidence(item.confidence) }),
+      band === 'tentative' ? t('scanner.tentativeNote') : null,
+      adviceFor(item),
+    ]
+      .filter(Boolean)
+      .join('\n');
+  };
+
+  const selectedOriginalId = selectedItem?.followUpOf;
+  const selectedFollowUpIds = selectedItem?.followUpIds?.join(',') ?? '';
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      const original = selectedOriginalId ? await getHistoryItem(selectedOriginalId) : null;
+      const followUps = await Promise.all(
+        selectedFollowUpIds ? selectedFollowUpIds.split(',').map(getHistoryItem) : []
+      );
+      if (active) {
+        setLinkedScans({ original, followUps: followUps.filter((item): item is HistoryItem => item !== null) });
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [selectedOriginalId, selectedFollowUpIds]);
+
+  const saveNotes = async () => {
+    if (!selectedItem) return;
+    const updated = await updateHistoryItem(selectedItem.id, { notes: notesDraft.trim() });
+    if (updated) {
+      setSelectedItem(updated);
+      replaceInLists(updated.id, updated);
+    }
+  };
+
+  const assignField = async (fieldId: string | null) => {
+    if (!selectedItem) return;
+    const updated = await updateHistoryItem(selectedItem.id, { fieldId: fieldId ?? undefined });
+    if (updated) {
+      setSelectedItem(updated);
+      replaceInLists(updated.id, updated);
+    }
+  };
+
+  const showUpdated = (updated: HistoryItem) => {
+    setSelectedItem(updated);
+    replaceInLists(updated.id, updated);
+  };
+
+  const answerFeedback = async (feedback: Feedback) => {
+    if (!selectedItem) return;
+    const updated = await updateHistoryItem(selectedItem.id, { feedback });
+    if (updated) {
+      setSelectedItem(updated);
+      replaceInLists(updated.id, updated);
     }
   };
 
   const clearHistory = async () => {
     Alert.alert(
-      "Clear History",
-      "Are you sure you want to delete all past records?",
+      t('history.clearTitle'),
+      t('history.clearMessage'),
       [
-        { text: "Cancel", style: "cancel" },
+        { text: t('common.cancel'), style: "cancel" },
         { 
-          text: "Delete", 
+          text: t('common.delete'), 
           style: "destructive", 
           onPress: async () => {
-            await AsyncStorage.removeItem('leaf_history');
+            await clearAllHistory();
+            await clearReminders();
             setHistory([]);
+            setAllItems([]);
+            setHasMore(false);
+          }
+        }
+      ]
+    );
+  };
+
+  const deleteEntry = (item: HistoryItem) => {
+    Alert.alert(
+      t('history.deleteTitle'),
+      t('history.deleteMessage', { label: diseaseName(item.label), date: formatDate(item.createdAt) }),
+      [
+        { text: t('common.cancel'), style: "cancel" },
+        {
+          text: t('common.delete'),
+          style: "destructive",
+          onPress: async () => {
+            await deleteHistoryItem(item.id);
+            await cancelRemindersFor([item.id]);
+            setSelectedItem(null);
+            replaceInLists(item.id, null);
           }
         }
       ]
@@ -83,25 +280,41 @@ export default function ExploreScreen() {
   const renderItem: ListRenderItem<HistoryItem> = ({ item }) => (
     <TouchableOpacity 
       style={styles.card} 
-      onPress={() => setSelectedItem(item)} // Open the modal on click
+      onPress={() => openItem(item)} // Open the modal on click
       activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={t('a11y.scan', {
+        disease: diseaseName(item.label),
+        confidence: formatConfidence(item.confidence),
+        date: formatDate(item.createdAt),
+      })}
     >
       {/* Left Side: Image Thumbnail */}
-      <Image source={{ uri: item.imageUri }} style={styles.thumbnail} />
+      <ScanImage uri={item.imageUri} style={styles.thumbnail} compact />
 
       {/* Right Side: Details */}
       <View style={styles.cardContent}>
         <View style={styles.headerRow}>
-          <Text style={styles.dateText}>{item.date}</Text>
-          <View style={styles.confidenceBadge}>
-            <Text style={styles.confidenceText}>{item.confidence}</Text>
-          </View>
+          <Text style={styles.dateText}>{formatDate(item.createdAt)}</Text>
+          <ConfidenceBadge confidence={item.confidence} band={bandOf(item)} />
         </View>
 
-        <Text style={styles.diseaseTitle}>{item.label}</Text>
+        <Text style={styles.diseaseTitle}>{diseaseName(item.label)}</Text>
+        {item.feedback && !item.feedback.correct && (
+          <Text style={styles.correctionTag}>
+            <MaterialIcons name="edit" size={12} color={colors.accent} />{' '}
+            {t('feedback.corrected', { label: diseaseName(item.feedback.trueLabel) })}
+          </Text>
+        )}
+        {item.photos && (
+          <Text style={styles.plantTag}>
+            <MaterialIcons name="local-florist" size={12} color={colors.primary} />{' '}
+            {t('plant.agreement', { agreement: item.agreement ?? 0, total: item.photos.length })}
+          </Text>
+        )}
         
         <Text style={styles.advicePreview} numberOfLines={2}>
-          {item.advice}
+          {adviceFor(item)}
         </Text>
       </View>
     </TouchableOpacity>
@@ -109,38 +322,94 @@ export default function ExploreScreen() {
 
   return (
     <View style={styles.container}>
-      <StatusBar barStyle="light-content" backgroundColor={COLORS.primary} />
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
       
       {/* Header Section */}
       <View style={styles.header}>
         <View style={styles.headerTextContainer}>
-            <MaterialIcons name="history" size={28} color={COLORS.white} />
-            <Text style={styles.headerTitle}>Disease History</Text>
+            <MaterialIcons name="history" size={28} color={colors.onPrimary} />
+            <Text style={styles.headerTitle}>{t('history.title')}</Text>
         </View>
         
-        {history.length > 0 && (
-          <TouchableOpacity onPress={clearHistory} style={styles.deleteButton}>
-            <MaterialIcons name="delete-outline" size={24} color={COLORS.white} />
-          </TouchableOpacity>
+        {hasHistory && (
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => router.push('/reminders')}
+              style={styles.headerButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.reminders')}
+            >
+              <Ionicons name="alarm-outline" size={24} color={colors.onPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => router.push('/locations')}
+              style={styles.headerButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.locations')}
+            >
+              <MaterialIcons name="place" size={24} color={colors.onPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setExportVisible(true)}
+              style={styles.headerButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.export')}
+            >
+              <MaterialIcons name="file-download" size={24} color={colors.onPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={clearHistory}
+              style={styles.headerButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.clearHistory')}
+            >
+              <MaterialIcons name="delete-outline" size={24} color={colors.onPrimary} />
+            </TouchableOpacity>
+          </View>
         )}
       </View>
 
+      {/* Search, Filter & Sort */}
+      {filters && (hasHistory || filtering) && (
+        <View style={styles.filterContainer}>
+          <HistoryFilterBar
+            filters={filters}
+            onChange={changeFilters}
+            resultCount={filtering ? matches.length : null}
+          />
+        </View>
+      )}
+
       {/* Main List Area */}
-      {history.length === 0 ? (
+      {!hasHistory && !filtering && queuedScans.length === 0 ? (
         <View style={styles.emptyContainer}>
-          <Ionicons name="leaf-outline" size={80} color="#ccc" />
-          <Text style={styles.emptyText}>No history yet.</Text>
-          <Text style={styles.emptySubtext}>
-            Scan a rice leaf in the Home screen to see results here.
-          </Text>
+          <Ionicons name="leaf-outline" size={80} color={colors.placeholder} />
+          <Text style={styles.emptyText}>{t('history.emptyTitle')}</Text>
+          <Text style={styles.emptySubtext}>{t('history.emptyMessage')}</Text>
         </View>
       ) : (
         <FlatList
-          data={history}
+          data={listData}
           keyExtractor={(item) => item.id}
           renderItem={renderItem}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
+          ListHeaderComponent={
+            queuedScans.length > 0 ? (
+              <View style={styles.queueSection}>
+                <Text style={styles.queueTitle}>{t('history.waiting', { count: queuedScans.length })}</Text>
+                <ScanQueueList items={queuedScans} />
+              </View>
+            ) : null
+          }
+          ListEmptyComponent={
+            filtering ? <Text style={styles.noMatchesText}>{t('history.noMatches')}</Text> : null
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator color={colors.primary} style={styles.listFooter} /> : null
+          }
         />
       )}
 
@@ -157,34 +426,153 @@ export default function ExploreScreen() {
             <TouchableOpacity 
               style={styles.closeButton} 
               onPress={() => setSelectedItem(null)}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.close')}
             >
-              <Ionicons name="close-circle" size={36} color={COLORS.gray} />
+              <Ionicons name="close-circle" size={36} color={colors.gray} />
             </TouchableOpacity>
 
             {selectedItem && (
               <ScrollView showsVerticalScrollIndicator={false}>
                 {/* Full Size Image */}
-                <Image source={{ uri: selectedItem.imageUri }} style={styles.modalImage} />
+                <ScanImage uri={selectedItem.imageUri} style={styles.modalImage} />
 
                 <View style={styles.modalContent}>
                   {/* Title & Date */}
-                  <Text style={styles.modalTitle}>{selectedItem.label}</Text>
-                  <Text style={styles.modalDate}>{selectedItem.date}</Text>
-
-                  {/* Confidence Badge */}
-                  <View style={styles.modalBadge}>
-                    <Text style={styles.modalBadgeText}>
-                      Confidence: {selectedItem.confidence}
+                  <Text style={styles.modalTitle}>{diseaseName(selectedItem.label)}</Text>
+                  <Text style={styles.modalDate}>{formatDate(selectedItem.createdAt)}</Text>
+                  {selectedItem.location && (
+                    <Text style={styles.modalDate}>
+                      <MaterialIcons name="place" size={13} color={colors.gray} /> {formatCoordinates(selectedItem.location)}
                     </Text>
+                  )}
+
+                  {/* Confidence Badge & Read Aloud */}
+                  <View style={styles.modalBadgeRow}>
+                    <View style={[styles.modalBadge, { backgroundColor: colors[BAND_STYLES[bandOf(selectedItem)].background] }]}>
+                      <Text style={[styles.modalBadgeText, { color: colors[BAND_STYLES[bandOf(selectedItem)].color] }]}>
+                        {t('history.confidence', { value: formatConfidence(selectedItem.confidence) })}
+                        {' · '}
+                        {t(`confidence.${bandOf(selectedItem)}`)}
+                      </Text>
+                    </View>
+                    <ReadAloudButton id={selectedItem.id} text={readAloudText(selectedItem)} />
                   </View>
 
+                  {/* Correction Feedback */}
+                  <DiagnosisFeedback
+                    key={selectedItem.id}
+                    label={selectedItem.label}
+                    feedback={selectedItem.feedback}
+                    onAnswer={answerFeedback}
+                  />
+
+                  {/* Follow-up Reminder & Linked Scans */}
+                  <FollowUpPicker key={selectedItem.id} scan={selectedItem} />
+                  {linkedScans.original && (
+                    <TouchableOpacity
+                      style={styles.linkedRow}
+                      onPress={() => openLinked(linkedScans.original!.id)}
+                      accessibilityRole="button"
+                    >
+                      <Ionicons name="arrow-undo-outline" size={18} color={colors.primary} />
+                      <Text style={styles.linkedText}>
+                        {t('followUp.linkedOriginal', {
+                          disease: diseaseName(linkedScans.original.label),
+                          date: formatDate(linkedScans.original.createdAt),
+                        })}
+                      </Text>
+                      <MaterialIcons name="chevron-right" size={20} color={colors.gray} />
+                    </TouchableOpacity>
+                  )}
+                  {linkedScans.followUps.length > 0 && (
+                    <View style={styles.linkedBox}>
+                      <Text style={styles.linkedTitle}>
+                        {tn('followUp.linkedFollowUps', linkedScans.followUps.length)}
+                      </Text>
+                      {linkedScans.followUps.map((item) => (
+                        <TouchableOpacity
+                          key={item.id}
+                          style={styles.linkedRow}
+                          onPress={() => openItem(item)}
+                          accessibilityRole="button"
+                        >
+                          <Ionicons name="arrow-redo-outline" size={18} color={colors.primary} />
+                          <Text style={styles.linkedText}>
+                            {diseaseName(item.label)} · {formatDate(item.createdAt)}
+                          </Text>
+                          <MaterialIcons name="chevron-right" size={20} color={colors.gray} />
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+
+                  {/* Plant Mode: Each Photo's Own Result */}
+                  {selectedItem.photos && (
+                    <PlantPhotoResults
+                      photos={selectedItem.photos}
+                      label={selectedItem.label}
+                      agreement={selectedItem.agreement ?? 0}
+                    />
+                  )}
+
+                  {/* Ranked Class Probabilities */}
+                  {selectedItem.probabilities && (
+                    <ProbabilityBars probabilities={selectedItem.probabilities} />
+                  )}
+
                   {/* Full Advice */}
                   <View style={styles.adviceBox}>
-                    <Text style={styles.adviceLabel}>Treatment & Advice:</Text>
-                    <Text style={styles.adviceFullText}>
-                      {selectedItem.advice}
-                    </Text>
+                    <Text style={styles.adviceLabel}>{t('history.advice')}</Text>
+                    <Text style={styles.adviceFullText}>{adviceFor(selectedItem)}</Text>
+                  </View>
+
+                  {/* Treatment Log: Before / After Timeline */}
+                  <View style={styles.treatmentBox}>
+                    <TreatmentLog key={selectedItem.id} item={selectedItem} onChange={showUpdated} onOpenScan={openItem} />
+                  </View>
+
+                  {/* Farmer's Notes */}
+                  <View style={styles.notesBox}>
+                    <Text style={styles.notesLabel}>{t('history.notes')}</Text>
+                    <TextInput
+                      style={styles.notesInput}
+                      placeholder={t('history.notesPlaceholder')}
+                      placeholderTextColor={colors.gray}
+                      value={notesDraft}
+                      onChangeText={setNotesDraft}
+                      multiline
+                    />
+                    {notesDraft.trim() !== (selectedItem.notes ?? '') && (
+                      <TouchableOpacity style={styles.notesSaveButton} onPress={saveNotes} accessibilityRole="button">
+                        <Text style={styles.notesSaveText}>{t('history.saveNotes')}</Text>
+                      </TouchableOpacity>
+                    )}
                   </View>
+
+                  {/* Field Assignment */}
+                  <View style={styles.fieldBox}>
+                    <FieldPicker selectedId={selectedItem.fieldId ?? null} onSelect={assignField} />
+                  </View>
+
+                  {/* Saved Grad-CAM Heatmap */}
+                  {selectedItem.heatmapUri && (
+                    <View style={styles.heatmapContainer}>
+                      <Text style={styles.heatmapLabel}>{t('common.heatmapTitle')}</Text>
+                      <Image source={{ uri: selectedItem.heatmapUri }} style={styles.modalImage} />
+                      <Text style={styles.heatmapCaption}>{t('common.heatmapCaption')}</Text>
+                    </View>
+                  )}
+
+                  {/* Delete This Entry */}
+                  <TouchableOpacity
+                    style={styles.deleteEntryButton}
+                    onPress={() => deleteEntry(selectedItem)}
+                    accessibilityRole="button"
+                  >
+                    <MaterialIcons name="delete-outline" size={20} color={colors.danger} />
+                    <Text style={styles.deleteEntryText}>{t('history.deleteEntry')}</Text>
+                  </TouchableOpacity>
                 </View>
               </ScrollView>
             )}
@@ -192,27 +580,29 @@ export default function ExploreScreen() {
         </View>
       </Modal>
 
+      <ExportSheet visible={exportVisible} onClose={() => setExportVisible(false)} />
+
     </View>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   header: {
     paddingTop: 50,
     paddingBottom: 20,
     paddingHorizontal: 20,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     borderBottomLeftRadius: 20,
     borderBottomRightRadius: 20,
     elevation: 4,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.2,
     shadowRadius: 3,
@@ -225,23 +615,49 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 22,
     fontWeight: 'bold',
-    color: COLORS.white,
+    color: colors.onPrimary,
   },
-  deleteButton: {
-      padding: 5
+  headerActions: {
+    flexDirection: 'row',
+    gap: 5,
+  },
+  headerButton: {
+    padding: 5,
   },
   listContent: {
     padding: 15,
   },
+  filterContainer: {
+    paddingHorizontal: 15,
+    paddingTop: 15,
+  },
+  noMatchesText: {
+    textAlign: 'center',
+    color: colors.gray,
+    marginTop: 40,
+    fontSize: 14,
+  },
+  listFooter: {
+    marginVertical: 15,
+  },
+  queueSection: {
+    marginBottom: 10,
+  },
+  queueTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray,
+    marginBottom: 10,
+  },
   // --- CARD STYLES ---
   card: {
-    backgroundColor: COLORS.white,
+    backgroundColor: colors.surface,
     borderRadius: 12,
     marginBottom: 15,
     flexDirection: 'row',
     padding: 10,
     elevation: 2,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 1 },
     shadowOpacity: 0.1,
     shadowRadius: 3,
@@ -250,9 +666,9 @@ const styles = StyleSheet.create({
     width: 80,
     height: 80,
     borderRadius: 8,
-    backgroundColor: '#eee',
+    backgroundColor: colors.imagePlaceholder,
     borderWidth: 1,
-    borderColor: '#f0f0f0'
+    borderColor: colors.divider
   },
   cardContent: {
     flex: 1,
@@ -267,28 +683,27 @@ const styles = StyleSheet.create({
   },
   dateText: {
     fontSize: 12,
-    color: COLORS.gray,
+    color: colors.gray,
   },
-  confidenceBadge: {
-    backgroundColor: COLORS.secondary,
-    paddingHorizontal: 8,
-    paddingVertical: 2,
-    borderRadius: 6,
+  correctionTag: {
+    fontSize: 11,
+    color: colors.accent,
+    marginTop: 2,
   },
-  confidenceText: {
-    fontSize: 10,
-    fontWeight: '700',
-    color: COLORS.primary,
+  plantTag: {
+    fontSize: 11,
+    color: colors.primary,
+    marginTop: 2,
   },
   diseaseTitle: {
     fontSize: 16,
     fontWeight: 'bold',
-    color: COLORS.danger,
+    color: colors.danger,
     marginBottom: 4,
   },
   advicePreview: {
     fontSize: 12,
-    color: COLORS.text,
+    color: colors.text,
     fontStyle: 'italic',
     lineHeight: 16
   },
@@ -301,12 +716,12 @@ const styles = StyleSheet.create({
   emptyText: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: COLORS.gray,
+    color: colors.gray,
     marginTop: 10,
   },
   emptySubtext: {
     fontSize: 14,
-    color: '#999',
+    color: colors.muted,
     marginTop: 5,
     textAlign: 'center',
     paddingHorizontal: 40
@@ -315,11 +730,11 @@ const styles = StyleSheet.create({
   // --- MODAL STYLES (NEW) ---
   modalOverlay: {
     flex: 1,
-    backgroundColor: COLORS.overlay,
+    backgroundColor: colors.overlay,
     justifyContent: 'flex-end',
   },
   modalContainer: {
-    backgroundColor: COLORS.white,
+    backgroundColor: colors.surface,
     height: '85%', // Takes up 85% of the screen
     borderTopLeftRadius: 25,
     borderTopRightRadius: 25,
@@ -345,43 +760,140 @@ const styles = StyleSheet.create({
   modalTitle: {
     fontSize: 28,
     fontWeight: 'bold',
-    color: COLORS.danger,
+    color: colors.danger,
     marginBottom: 5,
   },
   modalDate: {
     fontSize: 14,
-    color: COLORS.gray,
+    color: colors.gray,
     marginBottom: 15,
   },
+  modalBadgeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
   modalBadge: {
-    backgroundColor: COLORS.secondary,
-    alignSelf: 'flex-start',
+    backgroundColor: colors.secondary,
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 8,
-    marginBottom: 20,
   },
   modalBadgeText: {
-    color: COLORS.primary,
+    color: colors.primary,
     fontWeight: 'bold',
     fontSize: 14,
   },
+  linkedBox: {
+    marginBottom: 10,
+  },
+  linkedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray,
+    marginBottom: 4,
+  },
+  linkedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    marginBottom: 10,
+  },
+  linkedText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '600',
+  },
   adviceBox: {
-    backgroundColor: '#FFF3E0', // Light Orange
+    backgroundColor: colors.adviceBackground, // Light Orange
     padding: 15,
     borderRadius: 12,
     borderLeftWidth: 5,
-    borderLeftColor: COLORS.accent,
+    borderLeftColor: colors.accent,
   },
   adviceLabel: {
     fontSize: 16,
     fontWeight: 'bold',
-    color: COLORS.accent,
+    color: colors.accent,
     marginBottom: 10,
   },
   adviceFullText: {
     fontSize: 16,
-    color: '#333',
+    color: colors.text,
     lineHeight: 24,
+  },
+  treatmentBox: {
+    marginTop: 20,
+  },
+  notesBox: {
+    marginTop: 20,
+  },
+  notesLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  notesInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    padding: 10,
+    minHeight: 70,
+    fontSize: 15,
+    color: colors.text,
+    textAlignVertical: 'top',
+  },
+  notesSaveButton: {
+    alignSelf: 'flex-end',
+    backgroundColor: colors.primary,
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    borderRadius: 18,
+    marginTop: 8,
+  },
+  notesSaveText: {
+    color: colors.onPrimary,
+    fontWeight: 'bold',
+  },
+  fieldBox: {
+    marginTop: 20,
+  },
+  heatmapContainer: {
+    marginTop: 20,
+    paddingTop: 15,
+    borderTopWidth: 1,
+    borderTopColor: colors.imagePlaceholder,
+  },
+  heatmapLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 10,
+  },
+  heatmapCaption: {
+    marginTop: -12,
+    fontSize: 12,
+    color: colors.gray,
+    fontStyle: 'italic',
+  },
+  deleteEntryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 25,
+    paddingVertical: 12,
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: colors.danger,
+    gap: 6,
+  },
+  deleteEntryText: {
+    color: colors.danger,
+    fontWeight: 'bold',
+    fontSize: 15,
   }
 });
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
 import * as ImagePicker from 'expo-image-picker';
-import React, { useState } from 'react';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -15,42 +16,141 @@ import {
   View
 } from 'react-native';
 
-// --- THEME COLORS ---
-const COLORS = {
-  primary: '#2E7D32',    // Deep Rice Green
-  secondary: '#E8F5E9',  // Light Green Background
-  accent: '#F57C00',     // Orange for Advice
-  danger: '#C62828',     // Red for Disease Name
-  text: '#1F2937',       // Dark Grey for readability
-  white: '#FFFFFF',
-  shadow: '#000',
-};
-
-// --- ADVICE DATABASE ---
-const DISEASE_ADVICE: { [key: string]: string } = {
-  'Bacterial Leaf Blight': '⚠️ Treatment: Use copper-based sprays (e.g., Copper oxychloride). Avoid excessive Nitrogen fertilizer. Ensure good field drainage.',
-  'Brown Spot': '⚠️ Treatment: Improve soil fertility, specifically Potassium and Calcium. Treat seeds with fungicides before planting.',
-  'Leaf Blast': '⚠️ Treatment: Apply fungicides like Tricyclazole or Isoprothiolane. Maintain water level in the field and avoid late planting.',
-  'Leaf Scald': '⚠️ Treatment: Use clean, disease-free seeds. Avoid high Nitrogen application. Apply validamycin if severe.',
-  'Sheath Blight': '⚠️ Treatment: Apply fungicides like Azoxystrobin or Hexaconazole. Reduce plant density for better air circulation.',
-  'Healthy Rice Leaf': '✅ Good News: Your crop looks healthy! Continue monitoring water levels and nutrient management.',
-  'NOT_A_RICE_LEAF': '❓ Unknown: This does not look like a rice leaf. Please try again with a clearer photo close to the leaf.',
-};
+import { BAND_STYLES, ConfidenceBadge } from '@/components/confidence-badge';
+import { CropEditor } from '@/components/crop-editor';
+import { DiagnosisFeedback } from '@/components/diagnosis-feedback';
+import { FieldPicker } from '@/components/field-picker';
+import { FollowUpPicker } from '@/components/follow-up-picker';
+import { PlantPhotoResults } from '@/components/plant-photo-results';
+import { ProbabilityBars } from '@/components/probability-bars';
+import { ReadAloudButton } from '@/components/read-aloud-button';
+import { ScanQueueList } from '@/components/scan-queue-list';
+import { isDiseaseLabel } from '@/constants/labels';
+import { ThemeColors } from '@/constants/theme';
+import { useAppSettings } from '@/hooks/use-app-settings';
+import { useBatchScan } from '@/hooks/use-batch-scan';
+import { useScanQueue } from '@/hooks/use-scan-queue';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { startBatchScan } from '@/services/batch-scan';
+import { getConfidenceBand } from '@/services/confidence';
+import {
+  DiagnosisFeedback as Feedback,
+  HistoryItem,
+  addToHistory,
+  getHistoryItem,
+  updateHistoryItem,
+} from '@/services/history';
+import { PreparedImage, SourceImage, formatBytes } from '@/services/image-prep';
+import { GeoPoint, formatCoordinates, getDeviceLocation, readExifLocation } from '@/services/location';
+import { PhotoQuality, assessPhotoQuality } from '@/services/photo-quality';
+import { MAX_PLANT_PHOTOS, MIN_PLANT_PHOTOS, PlantScanResult, diagnosePlant } from '@/services/plant-scan';
+import { PredictionError, PredictionResult, formatConfidence, predictLeaf } from '@/services/prediction';
+import { completeFollowUps, getReminder } from '@/services/reminders';
+import { clearFinishedScans, enqueueScan } from '@/services/scan-queue';
+
+// Upper limit for one gallery pick; larger walks can be split into several batches.
+const MAX_BATCH_PHOTOS = 50;
 
 export default function App() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [resultImage, setResultImage] = useState<string | null>(null);
-  const [prediction, setPrediction] = useState<any>(null);
+  const [prediction, setPrediction] = useState<PredictionResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const [selectedFieldId, setSelectedFieldId] = useState<string | null>(null);
+  const [savedEntryId, setSavedEntryId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | undefined>(undefined);
+  const [photoLocation, setPhotoLocation] = useState<GeoPoint | null>(null);
+  const [editingPhoto, setEditingPhoto] = useState<SourceImage | null>(null);
+  const [uploadSize, setUploadSize] = useState<{ originalBytes: number; preparedBytes: number } | null>(null);
+  const [photoSource, setPhotoSource] = useState<'camera' | 'gallery'>('camera');
+  const [photoQuality, setPhotoQuality] = useState<PhotoQuality | null>(null);
+  // Plant mode: several photos of one plant, diagnosed together.
+  const [plantMode, setPlantMode] = useState(false);
+  const [plantPhotos, setPlantPhotos] = useState<string[]>([]);
+  const [plantProgress, setPlantProgress] = useState<{ done: number; total: number } | null>(null);
+  const [plantResult, setPlantResult] = useState<PlantScanResult | null>(null);
+  // The scan a tapped re-scan reminder asked to follow up on.
+  const [followUpOf, setFollowUpOf] = useState<HistoryItem | null>(null);
+  const { followUp } = useLocalSearchParams<{ followUp?: string }>();
+  const scanQueue = useScanQueue();
+  const batch = useBatchScan();
+  const appSettings = useAppSettings();
+  const { t, diseaseName, diseaseAdvice, formatDate } = useTranslation();
+  const geotagScans = appSettings?.geotagScans ?? false;
+  const band = prediction ? getConfidenceBand(prediction.confidence, appSettings?.confidenceThresholds) : 'confident';
+  const abortRef = useRef<AbortController | null>(null);
+  // Resolves once the photo's location is known, so a quick "Diagnose" tap still gets it.
+  const locationRef = useRef<Promise<GeoPoint | null>>(Promise.resolve(null));
+  // Same for the quality check, which decodes the photo in JS and takes a moment.
+  const qualityRef = useRef<Promise<PhotoQuality | null>>(Promise.resolve(null));
+  // Plant mode: one quality check per photo, keyed by the framed photo's URI.
+  const plantQualityRef = useRef(new Map<string, Promise<PhotoQuality | null>>());
+
+  // Don't leave an upload running after the screen goes away.
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-  // ⚠️ ENSURE THIS IP MATCHES YOUR COMPUTER'S CURRENT IP
-const API_URL = 'https://rice-doctor-backend.onrender.com/predict';
+  // Opened from a reminder: the next scan is saved as that scan's follow-up,
+  // filed under the same field.
+  useEffect(() => {
+    if (!followUp) return;
+    (async () => {
+      const reminder = await getReminder(followUp);
+      const original = reminder ? await getHistoryItem(reminder.historyId) : null;
+      if (original) {
+        setFollowUpOf(original);
+        setSelectedFieldId(original.fieldId ?? null);
+      }
+      // Consumed, so tapping the same reminder again opens it again.
+      router.setParams({ followUp: undefined });
+    })();
+  }, [followUp]);
+
+  // Saved follow-up: mark its reminder done and stop linking later scans.
+  const finishFollowUp = async (entry: HistoryItem | null | undefined) => {
+    if (!entry?.followUpOf) return;
+    setFollowUpOf(null);
+    await completeFollowUps(entry);
+  };
 
-  const handleImageResult = (result: ImagePicker.ImagePickerResult) => {
+  const cancelUpload = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleImageResult = (
+    result: ImagePicker.ImagePickerResult,
+    source: 'camera' | 'gallery',
+    locate: (asset: ImagePicker.ImagePickerAsset) => Promise<GeoPoint | null>
+  ) => {
     if (!result.canceled) {
-      setSelectedImage(result.assets[0].uri);
+      cancelUpload();
+      const { uri, width, height } = result.assets[0];
+      // The photo is only used once it has been framed in the crop editor.
+      setEditingPhoto({ uri, width, height });
+      setPhotoSource(source);
+      setSelectedImage(null);
+      setUploadSize(null);
+      setPhotoQuality(null);
+      qualityRef.current = Promise.resolve(null);
       setResultImage(null);
       setPrediction(null);
+      setSavedEntryId(null);
+      setFeedback(undefined);
+      setPhotoLocation(null);
+      if (plantResult) {
+        // A new photo after a plant result starts the next plant.
+        setPlantResult(null);
+        setPlantPhotos([]);
+        plantQualityRef.current.clear();
+      }
+
+      const location = geotagScans ? locate(result.assets[0]) : Promise.resolve(null);
+      locationRef.current = location;
+      location.then((point) => {
+        if (locationRef.current === location) setPhotoLocation(point);
+      });
     }
   };
 
@@ -58,16 +158,41 @@ const API_URL = 'https://rice-doctor-backend.onrender.com/predict';
     let result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ['images'],
       allowsEditing: false, // ✅ Recommended: Frontend Cropping
+      allowsMultipleSelection: !plantMode, // Plant photos are framed one at a time
+      selectionLimit: MAX_BATCH_PHOTOS,
       aspect: [1, 1],
       quality: 1,
+      exif: geotagScans,
     });
-    handleImageResult(result);
+    if (!result.canceled && result.assets.length > 1) {
+      startBatch(result.assets);
+      return;
+    }
+    // A gallery photo may be old, so only trust where it says it was taken.
+    handleImageResult(result, 'gallery', async (asset) => readExifLocation(asset.exif));
+  };
+
+  // Several photos from a field walk go through the batch screen instead.
+  const startBatch = (assets: ImagePicker.ImagePickerAsset[]) => {
+    if (batch?.running) {
+      Alert.alert(t('scanner.batchBusyTitle'), t('scanner.batchBusyMessage'));
+      return;
+    }
+    const photos = assets.map((asset) => ({
+      uri: asset.uri,
+      width: asset.width,
+      height: asset.height,
+      location: (geotagScans && readExifLocation(asset.exif)) || undefined,
+    }));
+    startBatchScan(photos, { fieldId: selectedFieldId ?? undefined })
+      .catch((error) => console.error("Batch diagnosis failed", error));
+    router.push('/batch');
   };
 
   const takePhoto = async () => {
     const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
     if (permissionResult.granted === false) {
-      Alert.alert("Permission Refused", "You need to allow camera access.");
+      Alert.alert(t('scanner.cameraDeniedTitle'), t('scanner.cameraDeniedMessage'));
       return;
     }
     const result = await ImagePicker.launchCameraAsync({
@@ -76,176 +201,693 @@ const API_URL = 'https://rice-doctor-backend.onrender.com/predict';
       aspect: [1, 1],
       quality: 1,
     });
-    handleImageResult(result);
+    handleImageResult(result, 'camera', () => getDeviceLocation());
+  };
+
+  const checkQuality = (prepared: PreparedImage) =>
+    assessPhotoQuality(prepared).catch((error) => {
+      // Without measurements the photo is simply sent unchecked.
+      console.warn("Photo quality check failed", error);
+      return null;
+    });
+
+  const applyPreparedPhoto = (prepared: PreparedImage) => {
+    setEditingPhoto(null);
+    if (plantMode) {
+      setPlantPhotos((current) => [...current, prepared.uri].slice(0, MAX_PLANT_PHOTOS));
+      plantQualityRef.current.set(prepared.uri, checkQuality(prepared));
+      return;
+    }
+    setSelectedImage(prepared.uri);
+    setUploadSize({ originalBytes: prepared.originalBytes, preparedBytes: prepared.preparedBytes });
+
+    const quality = checkQuality(prepared);
+    qualityRef.current = quality;
+    quality.then((result) => {
+      if (qualityRef.current === quality) setPhotoQuality(result);
+    });
+  };
+
+  const retake = () => {
+    if (photoSource === 'camera') {
+      takePhoto();
+    } else {
+      pickImage();
+    }
+  };
+
+  // Blurry or badly lit photos tend to come back as NOT_A_RICE_LEAF or a wrong
+  // disease, so the farmer gets a chance to retake them first.
+  const confirmQuality = (quality: PhotoQuality) => {
+    Alert.alert(
+      t('quality.title'),
+      t('quality.alertMessage', { issues: quality.issues.map((issue) => t(`quality.${issue}`)).join('\n') }),
+      [
+        { text: t('quality.retake'), onPress: retake },
+        {
+          text: t('quality.sendAnyway'),
+          onPress: () => {
+            const accepted = { ...quality, overridden: true };
+            qualityRef.current = Promise.resolve(accepted);
+            setPhotoQuality(accepted);
+            uploadImage();
+          }
+        }
+      ]
+    );
+  };
+
+  // Keeps the photo in the offline queue so it is diagnosed once the
+  // connection comes back, instead of losing the scan.
+  const queueForLater = async (imageUri: string, title: string, message: string) => {
+    await enqueueScan(imageUri, {
+      fieldId: selectedFieldId ?? undefined,
+      location: (await locationRef.current) ?? undefined,
+      quality: (await qualityRef.current) ?? undefined,
+      followUpOf: followUpOf?.id,
+    });
+    // The queue completes the follow-up once the scan is diagnosed.
+    setFollowUpOf(null);
+    setSelectedImage(null);
+    Alert.alert(title, message);
   };
 
   const uploadImage = async () => {
     if (!selectedImage) return;
 
+    const quality = await qualityRef.current;
+    if (quality && quality.issues.length > 0 && !quality.overridden) {
+      confirmQuality(quality);
+      return;
+    }
+
     setLoading(true);
-    const formData = new FormData();
-    
-    formData.append('image', {
-      uri: selectedImage,
-      name: 'rice_leaf.jpg',
-      type: 'image/jpeg',
-    } as any);
 
     try {
-      const response = await fetch(API_URL, {
-        method: 'POST',
-        body: formData,
-        headers: { 'Content-Type': 'multipart/form-data' },
-      });
+      const netState = await NetInfo.fetch();
+      if (netState.isConnected === false) {
+        await queueForLater(
+          selectedImage,
+          t('scanner.offlineTitle'),
+          t('scanner.offlineMessage')
+        );
+        return;
+      }
+
+      const controller = new AbortController();
+      abortRef.current = controller;
 
-      const data = await response.json();
+      const data = await predictLeaf({ imageUri: selectedImage }, { signal: controller.signal });
       setPrediction(data);
-      setResultImage(`data:image/jpeg;base64,${data.heatmap_image}`);
+      setResultImage(data.heatmapImage ? `data:image/jpeg;base64,${data.heatmapImage}` : null);
 
-      addToHistory(data, selectedImage); 
+      const entry = await addToHistory(data, selectedImage, {
+        fieldId: selectedFieldId ?? undefined,
+        location: (await locationRef.current) ?? undefined,
+        quality: quality ?? undefined,
+        followUpOf: followUpOf?.id,
+      });
+      setSavedEntryId(entry?.id ?? null);
+      setFeedback(undefined);
+      await finishFollowUp(entry);
 
     } catch (error) {
       console.error(error);
-      Alert.alert('Connection Error', 'Check your IP address and ensure the Python server is running.');
+      await handleUploadError(selectedImage, error);
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
-  const addToHistory = async (predictionData: any, imageUri: string) => {
+  const switchMode = (plant: boolean) => {
+    if (plant === plantMode) return;
+    cancelUpload();
+    setPlantMode(plant);
+    setPlantPhotos([]);
+    plantQualityRef.current.clear();
+    setPlantResult(null);
+    setSelectedImage(null);
+    setPrediction(null);
+    setResultImage(null);
+    setSavedEntryId(null);
+    setFeedback(undefined);
+  };
+
+  // Same check as a single photo, listing each plant photo with a problem.
+  // Retake drops those photos so the farmer can frame new ones.
+  const confirmPlantQuality = (flagged: { uri: string; number: number; quality: PhotoQuality }[]) => {
+    const issues = flagged.flatMap(({ number, quality }) =>
+      quality.issues.map((issue) => t('quality.plantPhotoIssue', { number, issue: t(`quality.${issue}`) }))
+    );
+    Alert.alert(
+      t('quality.title'),
+      t('quality.plantAlertMessage', { issues: issues.join('\n') }),
+      [
+        {
+          text: t('quality.retake'),
+          onPress: () => {
+            const retaken = new Set(flagged.map(({ uri }) => uri));
+            setPlantPhotos((current) => current.filter((uri) => !retaken.has(uri)));
+          }
+        },
+        {
+          text: t('quality.sendAnyway'),
+          onPress: () => {
+            flagged.forEach(({ uri, quality }) => {
+              plantQualityRef.current.set(uri, Promise.resolve({ ...quality, overridden: true }));
+            });
+            diagnosePlantPhotos();
+          }
+        }
+      ]
+    );
+  };
+
+  // Plant mode needs every photo diagnosed, so nothing goes to the offline
+  // queue: on failure the photos stay on screen for another try.
+  const diagnosePlantPhotos = async () => {
+    if (plantPhotos.length < MIN_PLANT_PHOTOS) return;
+
+    const photos = await Promise.all(
+      plantPhotos.map(async (imageUri) => ({
+        imageUri,
+        quality: (await plantQualityRef.current.get(imageUri)) ?? undefined,
+      }))
+    );
+    const flagged = photos.flatMap(({ imageUri, quality }, index) =>
+      quality && quality.issues.length > 0 && !quality.overridden
+        ? [{ uri: imageUri, number: index + 1, quality }]
+        : []
+    );
+    if (flagged.length > 0) {
+      confirmPlantQuality(flagged);
+      return;
+    }
+
+    const netState = await NetInfo.fetch();
+    if (netState.isConnected === false) {
+      Alert.alert(t('scanner.offlineTitle'), t('scanner.plantOfflineMessage'));
+      return;
+    }
+
+    setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const newEntry = {
-        id: Date.now().toString(), // Unique ID
-        label: predictionData.label,
-        confidence: predictionData.confidence,
-        imageUri: imageUri,
-        date: new Date().toLocaleString(),
-        advice: DISEASE_ADVICE[predictionData.label] || "Consult an expert."
-      };
-
-      const existingHistory = await AsyncStorage.getItem('leaf_history');
-      const historyArray = existingHistory ? JSON.parse(existingHistory) : [];
-
-      const updatedHistory = [newEntry, ...historyArray];
-
-      await AsyncStorage.setItem('leaf_history', JSON.stringify(updatedHistory.slice(0, 20)));
-      console.log("✅ Saved to history");
+      const result = await diagnosePlant(photos, {
+        fieldId: selectedFieldId ?? undefined,
+        location: (await locationRef.current) ?? undefined,
+        followUpOf: followUpOf?.id,
+        signal: controller.signal,
+        onProgress: (done, total) => setPlantProgress({ done, total }),
+      });
+      setPlantResult(result);
+      setPrediction({ ...result.consensus, heatmapImage: null });
+      setResultImage(result.entry?.heatmapUri ?? null);
+      setSavedEntryId(result.entry?.id ?? null);
+      setFeedback(undefined);
+      await finishFollowUp(result.entry);
     } catch (error) {
-      console.error("Failed to save history:", error);
+      console.error(error);
+      if (!(error instanceof PredictionError && error.kind === 'cancelled')) {
+        Alert.alert(
+          t('scanner.plantFailedTitle'),
+          t('scanner.plantFailedMessage', { message: error instanceof Error ? error.message : String(error) })
+        );
+      }
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+      setPlantProgress(null);
+    }
+  };
+
+  const answerFeedback = async (answer: Feedback) => {
+    setFeedback(answer);
+    if (savedEntryId) {
+      await updateHistoryItem(savedEntryId, { feedback: answer });
+    }
+  };
+
+  // Lets the farmer file the scan under a field after seeing the diagnosis.
+  const assignField = async (fieldId: string | null) => {
+    setSelectedFieldId(fieldId);
+    if (savedEntryId) {
+      await updateHistoryItem(savedEntryId, { fieldId: fieldId ?? undefined });
+    }
+  };
+
+  // What the speaker button reads: the same messages the result card shows.
+  const readAloudText = () => {
+    if (!prediction) return '';
+    const confidence = formatConfidence(prediction.confidence);
+    if (band === 'uncertain') {
+      return [
+        t('scanner.uncertainTitle'),
+        t('scanner.uncertainMessage', { disease: diseaseName(prediction.label), confidence }),
+      ].join('\n');
+    }
+    return [
+      diseaseName(prediction.label),
+      t('speech.confidence', { band: t(`confidence.${band}`), confidence }),
+      band === 'tentative' ? t('scanner.tentativeNote') : null,
+      diseaseAdvice(prediction.label) ?? t('scanner.noAdvice'),
+    ]
+      .filter(Boolean)
+      .join('\n');
+  };
+
+  const handleUploadError = async (imageUri: string, error: unknown) => {
+    if (!(error instanceof PredictionError)) {
+      Alert.alert(t('scanner.unknownErrorTitle'), t('scanner.unknownErrorMessage'));
+      return;
+    }
+
+    switch (error.kind) {
+      case 'cancelled':
+        return;
+      case 'network':
+        await queueForLater(
+          imageUri,
+          t('scanner.networkErrorTitle'),
+          t('scanner.networkErrorMessage')
+        );
+        return;
+      case 'timeout':
+        await queueForLater(
+          imageUri,
+          t('scanner.timeoutTitle'),
+          t('scanner.timeoutMessage')
+        );
+        return;
+      case 'server':
+        await queueForLater(
+          imageUri,
+          t('scanner.serverErrorTitle'),
+          t('scanner.serverErrorMessage')
+        );
+        return;
+      case 'bad_request':
+        Alert.alert(t('scanner.rejectedTitle'), t('scanner.rejectedMessage', { message: error.message }));
+        return;
+      case 'invalid_response':
+        Alert.alert(t('scanner.invalidResponseTitle'), t('scanner.invalidResponseMessage'));
+        return;
     }
   };
 
   return (
     <View style={styles.mainContainer}>
-      <StatusBar barStyle="light-content" backgroundColor={COLORS.primary} />
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
       
       {/* --- HEADER --- */}
       <View style={styles.headerContainer}>
-        <MaterialIcons name="grass" size={32} color={COLORS.white} />
-        <Text style={styles.headerTitle}>Rice Leaf Doctor</Text>
+        <MaterialIcons name="grass" size={32} color={colors.onPrimary} />
+        <Text style={styles.headerTitle}>{t('scanner.title')}</Text>
+        <TouchableOpacity
+          onPress={() => router.push('/library')}
+          style={styles.libraryButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.library')}
+        >
+          <Ionicons name="book-outline" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => router.push('/fields')}
+          style={styles.fieldsButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.fields')}
+        >
+          <MaterialIcons name="terrain" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => router.push('/settings')}
+          style={styles.settingsButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.settings')}
+        >
+          <Ionicons name="settings-outline" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
       </View>
 
       <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
         
         {/* --- WELCOME CARD --- */}
-        {!selectedImage && !prediction && (
+        {!selectedImage && !prediction && plantPhotos.length === 0 && (
           <View style={styles.welcomeCard}>
-            <Text style={styles.welcomeTitle}>Scan Your Crop</Text>
-            <Text style={styles.welcomeText}>
-              Take a photo of a rice leaf to detect diseases and get treatment advice instantly.
+            <Text style={styles.welcomeTitle}>{t('scanner.welcomeTitle')}</Text>
+            <Text style={styles.welcomeText}>{t('scanner.welcomeText')}</Text>
+          </View>
+        )}
+
+        {/* --- FOLLOW-UP BANNER --- */}
+        {followUpOf && (
+          <View style={styles.followUpBanner}>
+            <Ionicons name="alarm" size={22} color={colors.primary} />
+            <Text style={styles.followUpText}>
+              {t('followUp.banner', { disease: diseaseName(followUpOf.label), date: formatDate(followUpOf.createdAt) })}
             </Text>
+            <TouchableOpacity
+              onPress={() => setFollowUpOf(null)}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.notFollowUp')}
+            >
+              <Ionicons name="close" size={20} color={colors.gray} />
+            </TouchableOpacity>
           </View>
         )}
 
+        {/* --- BATCH PROGRESS --- */}
+        {batch && (
+          <TouchableOpacity
+            style={styles.batchCard}
+            onPress={() => router.push('/batch')}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name={batch.running ? 'hourglass-top' : 'grid-view'} size={24} color={colors.primary} />
+            <Text style={styles.batchText}>
+              {t(batch.running ? 'scanner.batchRunning' : 'scanner.batchFinished', {
+                done: batch.items.filter((item) => item.status !== 'pending' && item.status !== 'uploading').length,
+                total: batch.items.length,
+              })}
+            </Text>
+            <Text style={styles.batchLink}>{t('scanner.batchView')}</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* --- SCAN MODE --- */}
+        <View style={styles.modeRow}>
+          {[false, true].map((plant) => (
+            <TouchableOpacity
+              key={String(plant)}
+              onPress={() => switchMode(plant)}
+              style={[styles.modeButton, plantMode === plant && styles.modeButtonActive]}
+              disabled={loading}
+              accessibilityRole="button"
+              accessibilityState={{ selected: plantMode === plant, disabled: loading }}
+            >
+              <MaterialIcons
+                name={plant ? 'local-florist' : 'eco'}
+                size={18}
+                color={plantMode === plant ? colors.onPrimary : colors.primary}
+              />
+              <Text style={[styles.modeText, plantMode === plant && styles.modeTextActive]}>
+                {t(plant ? 'scanner.modePlant' : 'scanner.modeLeaf')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         {/* --- IMAGE SELECTION BUTTONS --- */}
         <View style={styles.actionRow}>
-          <TouchableOpacity style={styles.actionButton} onPress={pickImage}>
-            <Ionicons name="images" size={28} color={COLORS.primary} />
-            <Text style={styles.actionText}>Gallery</Text>
+          <TouchableOpacity style={styles.actionButton} onPress={pickImage} accessibilityRole="button">
+            <Ionicons name="images" size={28} color={colors.primary} />
+            <Text style={styles.actionText}>{t('scanner.gallery')}</Text>
           </TouchableOpacity>
 
-          <TouchableOpacity style={styles.actionButton} onPress={takePhoto}>
-            <Ionicons name="camera" size={28} color={COLORS.primary} />
-            <Text style={styles.actionText}>Camera</Text>
+          <TouchableOpacity style={styles.actionButton} onPress={takePhoto} accessibilityRole="button">
+            <Ionicons name="camera" size={28} color={colors.primary} />
+            <Text style={styles.actionText}>{t('scanner.camera')}</Text>
           </TouchableOpacity>
         </View>
 
         {/* --- SELECTED IMAGE PREVIEW --- */}
         {selectedImage && (
           <View style={styles.imageCard}>
-            <Text style={styles.sectionLabel}>Original Photo</Text>
+            <Text style={styles.sectionLabel}>{t('scanner.originalPhoto')}</Text>
             <Image source={{ uri: selectedImage }} style={styles.previewImage} />
+            {uploadSize && uploadSize.originalBytes > uploadSize.preparedBytes && (
+              <Text style={styles.uploadSizeText}>
+                <MaterialIcons name="compress" size={13} color={colors.gray} />{' '}
+                {t('scanner.bytesSaved', {
+                  prepared: formatBytes(uploadSize.preparedBytes),
+                  original: formatBytes(uploadSize.originalBytes),
+                  percent: Math.round((1 - uploadSize.preparedBytes / uploadSize.originalBytes) * 100),
+                })}
+              </Text>
+            )}
+            {photoLocation && (
+              <Text style={styles.locationText}>
+                <MaterialIcons name="place" size={13} color={colors.gray} /> {formatCoordinates(photoLocation)}
+              </Text>
+            )}
+
+            {photoQuality && photoQuality.issues.length > 0 && !prediction && (
+              <View style={styles.qualityBox}>
+                <View style={styles.qualityHeader}>
+                  <Ionicons name="warning-outline" size={18} color={colors.accent} />
+                  <Text style={styles.qualityTitle}>{t('quality.title')}</Text>
+                </View>
+                {photoQuality.issues.map((issue) => (
+                  <Text key={issue} style={styles.qualityText}>• {t(`quality.${issue}`)}</Text>
+                ))}
+              </View>
+            )}
+
+            {!prediction && (
+              <View style={styles.fieldPickerContainer}>
+                <FieldPicker selectedId={selectedFieldId} onSelect={setSelectedFieldId} />
+              </View>
+            )}
             
             {/* ANALYZE BUTTON (Only shows when image is selected) */}
             <TouchableOpacity 
               style={styles.analyzeButton} 
-              onPress={uploadImage}
+              onPress={() => uploadImage()}
               disabled={loading}
+              accessibilityRole="button"
+              accessibilityLabel={t('scanner.diagnose')}
+              accessibilityState={{ busy: loading, disabled: loading }}
+            >
+              {loading ? (
+                <ActivityIndicator color={colors.onPrimary} />
+              ) : (
+                <>
+                  <MaterialIcons name="search" size={24} color={colors.onPrimary} />
+                  <Text style={styles.analyzeButtonText}>{t('scanner.diagnose')}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+
+            {loading && (
+              <TouchableOpacity onPress={cancelUpload} style={styles.cancelButton} accessibilityRole="button">
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* --- PLANT MODE PHOTOS --- */}
+        {plantMode && !plantResult && (
+          <View style={styles.imageCard}>
+            <Text style={styles.sectionLabel}>
+              {t('scanner.plantCount', { count: plantPhotos.length, max: MAX_PLANT_PHOTOS })}
+            </Text>
+            <Text style={styles.plantHint}>
+              {t('scanner.plantHint', { min: MIN_PLANT_PHOTOS, max: MAX_PLANT_PHOTOS })}
+            </Text>
+            <View style={styles.plantGrid}>
+              {plantPhotos.map((uri, index) => (
+                <View key={`${uri}-${index}`}>
+                  <Image source={{ uri }} style={styles.plantPhoto} />
+                  {!loading && (
+                    <TouchableOpacity
+                      onPress={() => setPlantPhotos((current) => current.filter((_, i) => i !== index))}
+                      style={styles.plantRemoveButton}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('a11y.removePhoto', { number: index + 1 })}
+                    >
+                      <Ionicons name="close" size={14} color={colors.onPrimary} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            {plantPhotos.length > 0 && (
+              <View style={styles.fieldPickerContainer}>
+                <FieldPicker selectedId={selectedFieldId} onSelect={setSelectedFieldId} />
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.analyzeButton, plantPhotos.length < MIN_PLANT_PHOTOS && styles.analyzeButtonDisabled]}
+              onPress={diagnosePlantPhotos}
+              disabled={loading || plantPhotos.length < MIN_PLANT_PHOTOS}
+              accessibilityRole="button"
+              accessibilityLabel={t('scanner.plantDiagnose')}
+              accessibilityState={{ busy: loading, disabled: loading || plantPhotos.length < MIN_PLANT_PHOTOS }}
             >
               {loading ? (
-                <ActivityIndicator color={COLORS.white} />
+                <ActivityIndicator color={colors.onPrimary} />
               ) : (
                 <>
-                  <MaterialIcons name="search" size={24} color={COLORS.white} />
-                  <Text style={styles.analyzeButtonText}>Diagnose Disease</Text>
+                  <MaterialIcons name="search" size={24} color={colors.onPrimary} />
+                  <Text style={styles.analyzeButtonText}>{t('scanner.plantDiagnose')}</Text>
                 </>
               )}
             </TouchableOpacity>
+
+            {plantProgress && (
+              <Text style={styles.plantProgressText}>
+                {t('scanner.plantProgress', {
+                  done: Math.min(plantProgress.done + 1, plantProgress.total),
+                  total: plantProgress.total,
+                })}
+              </Text>
+            )}
+            {loading && (
+              <TouchableOpacity onPress={cancelUpload} style={styles.cancelButton} accessibilityRole="button">
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+            )}
           </View>
         )}
 
         {/* --- RESULTS SECTION --- */}
         {prediction && (
-          <View style={styles.resultCard}>
+          <View style={[styles.resultCard, { borderTopColor: colors[BAND_STYLES[band].color] }]}>
             <View style={styles.resultHeader}>
-              <Text style={styles.resultTitle}>Diagnosis Result</Text>
-              <View style={styles.confidenceBadge}>
-                <Text style={styles.confidenceText}>{prediction.confidence}</Text>
+              <Text style={styles.resultTitle}>{t('scanner.resultTitle')}</Text>
+              <View style={styles.resultActions}>
+                <ConfidenceBadge confidence={prediction.confidence} band={band} large />
+                <ReadAloudButton id={savedEntryId ?? 'scan-result'} text={readAloudText()} />
               </View>
             </View>
 
-            <Text style={styles.diseaseName}>{prediction.label}</Text>
+            {band === 'uncertain' ? (
+              <>
+                <Text style={[styles.diseaseName, { color: colors[BAND_STYLES.uncertain.color] }]}>
+                  {t('scanner.uncertainTitle')}
+                </Text>
+
+                {/* RETAKE PROMPT (no treatment advice for an unsure result) */}
+                <View style={styles.uncertainBox}>
+                  <Text style={styles.uncertainText}>
+                    {t('scanner.uncertainMessage', {
+                      disease: diseaseName(prediction.label),
+                      confidence: formatConfidence(prediction.confidence),
+                    })}
+                  </Text>
+                  <TouchableOpacity onPress={retake} style={styles.retakeButton} accessibilityRole="button">
+                    <Ionicons name="camera-reverse" size={20} color={colors.onPrimary} />
+                    <Text style={styles.retakeText}>{t('scanner.retake')}</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <>
+                <Text style={styles.diseaseName}>{diseaseName(prediction.label)}</Text>
+                {band === 'tentative' && (
+                  <Text style={styles.tentativeNote}>{t('scanner.tentativeNote')}</Text>
+                )}
+              </>
+            )}
+
+            {/* PLANT MODE: AGREEMENT AND EACH PHOTO */}
+            {plantResult && (
+              <PlantPhotoResults
+                photos={plantPhotos.map((imageUri, index) => ({
+                  imageUri,
+                  label: plantResult.predictions[index].label,
+                  confidence: plantResult.predictions[index].confidence,
+                }))}
+                label={plantResult.consensus.label}
+                agreement={plantResult.consensus.agreement}
+              />
+            )}
 
             {/* ADVICE BOX */}
-            <View style={styles.adviceBox}>
-              <Ionicons name="bulb" size={24} color={COLORS.accent} style={{marginBottom: 5}}/>
-              <Text style={styles.adviceText}>
-                {DISEASE_ADVICE[prediction.label] || "Please consult an agricultural expert."}
-              </Text>
-            </View>
+            {band !== 'uncertain' && (
+              <View style={styles.adviceBox}>
+                <Ionicons name="bulb" size={24} color={colors.accent} style={{marginBottom: 5}}/>
+                <Text style={styles.adviceText}>
+                  {diseaseAdvice(prediction.label) ?? t('scanner.noAdvice')}
+                </Text>
+                {isDiseaseLabel(prediction.label) && (
+                  <TouchableOpacity
+                    onPress={() => router.push({ pathname: '/library/[label]', params: { label: prediction.label } })}
+                    style={styles.learnMoreButton}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.learnMoreText}>{t('scanner.learnMore')}</Text>
+                    <MaterialIcons name="chevron-right" size={18} color={colors.accent} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {/* FIELD ASSIGNMENT */}
+            {savedEntryId && (
+              <View style={styles.fieldPickerContainer}>
+                <FieldPicker selectedId={selectedFieldId} onSelect={assignField} label={t('scanner.savedToField')} />
+              </View>
+            )}
+
+            {/* CORRECTION FEEDBACK */}
+            {savedEntryId && (
+              <DiagnosisFeedback label={prediction.label} feedback={feedback} onAnswer={answerFeedback} />
+            )}
+
+            {/* RE-SCAN REMINDER */}
+            {savedEntryId && (
+              <FollowUpPicker
+                scan={{ id: savedEntryId, label: prediction.label, fieldId: selectedFieldId ?? undefined }}
+              />
+            )}
+
+            {/* RANKED CLASS PROBABILITIES */}
+            <ProbabilityBars probabilities={prediction.probabilities} />
 
             {/* HEATMAP */}
             {resultImage && (
               <View style={styles.heatmapContainer}>
-                <Text style={styles.sectionLabel}>Heatmap Analysis</Text>
+                <Text style={styles.sectionLabel}>{t('common.heatmapTitle')}</Text>
                 <Image source={{ uri: resultImage }} style={styles.heatmapImage} />
-                <Text style={styles.heatmapCaption}>
-                  The colored areas indicate where the model detected the disease.
-                </Text>
+                <Text style={styles.heatmapCaption}>{t('common.heatmapCaption')}</Text>
               </View>
             )}
           </View>
         )}
         
+        {/* --- OFFLINE SCAN QUEUE --- */}
+        {scanQueue.length > 0 && (
+          <View style={styles.queueSection}>
+            <View style={styles.queueHeader}>
+              <Text style={styles.sectionLabel}>{t('scanner.queuedScans')}</Text>
+              {scanQueue.some((item) => item.status === 'done') && (
+                <TouchableOpacity onPress={clearFinishedScans} accessibilityRole="button">
+                  <Text style={styles.queueClearText}>{t('scanner.clearFinished')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <ScanQueueList items={scanQueue} />
+          </View>
+        )}
+
         {/* Spacer for bottom scrolling */}
         <View style={{height: 50}} />
       </ScrollView>
+
+      <CropEditor photo={editingPhoto} onCancel={() => setEditingPhoto(null)} onConfirm={applyPreparedPhoto} />
     </View>
   );
 }
 
 const { width } = Dimensions.get('window');
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   mainContainer: {
     flex: 1,
-    backgroundColor: '#F8F9FA', 
+    backgroundColor: colors.background,
   },
   headerContainer: {
     paddingTop: 50,
     paddingBottom: 20,
     paddingHorizontal: 20,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
     flexDirection: 'row',
     alignItems: 'center',
     borderBottomLeftRadius: 25,
@@ -255,16 +897,66 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: COLORS.white,
+    color: colors.onPrimary,
     marginLeft: 10,
   },
+  libraryButton: {
+    marginLeft: 'auto',
+    padding: 5,
+  },
+  fieldsButton: {
+    marginLeft: 5,
+    padding: 5,
+  },
+  settingsButton: {
+    marginLeft: 5,
+    padding: 5,
+  },
   scrollContent: {
     padding: 20,
     alignItems: 'center',
   },
   
+  batchCard: {
+    backgroundColor: colors.surface,
+    padding: 15,
+    borderRadius: 15,
+    width: '100%',
+    marginBottom: 20,
+    elevation: 2,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  batchText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginLeft: 10,
+  },
+  batchLink: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  followUpBanner: {
+    backgroundColor: colors.secondary,
+    padding: 15,
+    borderRadius: 15,
+    width: '100%',
+    marginBottom: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  followUpText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
   welcomeCard: {
-    backgroundColor: COLORS.white,
+    backgroundColor: colors.surface,
     padding: 20,
     borderRadius: 15,
     width: '100%',
@@ -275,16 +967,45 @@ const styles = StyleSheet.create({
   welcomeTitle: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
   },
   welcomeText: {
     fontSize: 14,
-    color: '#666',
+    color: colors.gray,
     textAlign: 'center',
     lineHeight: 20,
   },
 
+  modeRow: {
+    flexDirection: 'row',
+    width: '100%',
+    backgroundColor: colors.surface,
+    borderRadius: 25,
+    padding: 4,
+    marginBottom: 15,
+    elevation: 2,
+  },
+  modeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    borderRadius: 21,
+  },
+  modeButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  modeTextActive: {
+    color: colors.onPrimary,
+  },
   actionRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -292,14 +1013,14 @@ const styles = StyleSheet.create({
     marginBottom: 20,
   },
   actionButton: {
-    backgroundColor: COLORS.white,
+    backgroundColor: colors.surface,
     width: '48%',
     paddingVertical: 20,
     borderRadius: 15,
     alignItems: 'center',
     justifyContent: 'center',
     elevation: 3,
-    shadowColor: COLORS.shadow,
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -308,11 +1029,11 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontSize: 16,
     fontWeight: '600',
-    color: COLORS.primary,
+    color: colors.primary,
   },
 
   imageCard: {
-    backgroundColor: COLORS.white,
+    backgroundColor: colors.surface,
     borderRadius: 15,
     padding: 15,
     width: '100%',
@@ -323,7 +1044,7 @@ const styles = StyleSheet.create({
   sectionLabel: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#666',
+    color: colors.gray,
     alignSelf: 'flex-start',
     marginBottom: 10,
   },
@@ -331,11 +1052,91 @@ const styles = StyleSheet.create({
     width: width - 80, 
     height: width - 80,
     borderRadius: 10,
-    backgroundColor: '#eee',
+    backgroundColor: colors.imagePlaceholder,
     resizeMode: 'cover',
   },
+  locationText: {
+    marginTop: 8,
+    fontSize: 12,
+    color: colors.gray,
+  },
+  uploadSizeText: {
+    marginTop: 8,
+    fontSize: 12,
+    color: colors.gray,
+    textAlign: 'center',
+  },
+  qualityBox: {
+    width: '100%',
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: colors.adviceBackground,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.accent,
+  },
+  qualityHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  qualityTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.accent,
+  },
+  qualityText: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 2,
+    lineHeight: 18,
+  },
+  fieldPickerContainer: {
+    width: '100%',
+    marginTop: 15,
+    marginBottom: 5,
+  },
+  plantHint: {
+    fontSize: 13,
+    color: colors.gray,
+    textAlign: 'center',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  plantGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  plantPhoto: {
+    width: 80,
+    height: 80,
+    borderRadius: 10,
+    backgroundColor: colors.imagePlaceholder,
+  },
+  plantRemoveButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  plantProgressText: {
+    marginTop: 10,
+    fontSize: 13,
+    color: colors.gray,
+  },
+  analyzeButtonDisabled: {
+    opacity: 0.5,
+  },
   analyzeButton: {
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
@@ -347,20 +1148,30 @@ const styles = StyleSheet.create({
     elevation: 5,
   },
   analyzeButtonText: {
-    color: COLORS.white,
+    color: colors.onPrimary,
     fontSize: 18,
     fontWeight: 'bold',
     marginLeft: 10,
   },
+  cancelButton: {
+    marginTop: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 20,
+  },
+  cancelButtonText: {
+    color: colors.danger,
+    fontSize: 15,
+    fontWeight: '600',
+  },
 
   resultCard: {
-    backgroundColor: COLORS.white,
+    backgroundColor: colors.surface,
     borderRadius: 15,
     padding: 20,
     width: '100%',
     elevation: 4,
     borderTopWidth: 5,
-    borderTopColor: COLORS.primary,
+    borderTopColor: colors.primary,
   },
   resultHeader: {
     flexDirection: 'row',
@@ -368,50 +1179,87 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 10,
   },
+  resultActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   resultTitle: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#888',
+    color: colors.gray,
     textTransform: 'uppercase',
   },
-  confidenceBadge: {
-    backgroundColor: COLORS.secondary,
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  confidenceText: {
-    color: COLORS.primary,
-    fontWeight: 'bold',
-    fontSize: 12,
-  },
   diseaseName: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: COLORS.danger,
+    color: colors.danger,
+    marginBottom: 15,
+  },
+  tentativeNote: {
+    fontSize: 13,
+    color: colors[BAND_STYLES.tentative.color],
+    marginTop: -10,
     marginBottom: 15,
+    lineHeight: 18,
+  },
+  uncertainBox: {
+    backgroundColor: colors[BAND_STYLES.uncertain.background],
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  uncertainText: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+  },
+  retakeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 25,
+    backgroundColor: colors.primary,
+  },
+  retakeText: {
+    color: colors.onPrimary,
+    fontSize: 15,
+    fontWeight: 'bold',
   },
 
   adviceBox: {
-    backgroundColor: '#FFF3E0', 
+    backgroundColor: colors.adviceBackground, 
     padding: 15,
     borderRadius: 10,
     borderLeftWidth: 4,
-    borderLeftColor: COLORS.accent,
+    borderLeftColor: colors.accent,
     marginBottom: 20,
   },
   adviceText: {
     fontSize: 15,
-    color: '#5D4037', 
+    color: colors.adviceText, 
     lineHeight: 22,
   },
+  learnMoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  learnMoreText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.accent,
+  },
 
   heatmapContainer: {
     alignItems: 'center',
     marginTop: 10,
     paddingTop: 15,
     borderTopWidth: 1,
-    borderTopColor: '#eee',
+    borderTopColor: colors.imagePlaceholder,
   },
   heatmapImage: {
     width: width - 90,
@@ -422,7 +1270,22 @@ const styles = StyleSheet.create({
   heatmapCaption: {
     marginTop: 8,
     fontSize: 12,
-    color: '#888',
+    color: colors.gray,
     fontStyle: 'italic',
   },
+
+  queueSection: {
+    width: '100%',
+    marginTop: 20,
+  },
+  queueHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  queueClearText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
 });
\ No newline at end of file
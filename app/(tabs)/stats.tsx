@@ -0,0 +1,328 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ColumnChart, HorizontalBarChart, RatioBar } from '@/components/stats-charts';
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { HistoryItem, getAllHistory } from '@/services/history';
+import { STATS_WINDOWS, StatsWindow, computeHistoryStats } from '@/services/history-stats';
+import { formatConfidence } from '@/services/prediction';
+import { summarizeTreatments } from '@/services/treatments';
+
+export default function StatsScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { language, t, tn, diseaseName } = useTranslation();
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [timeWindow, setTimeWindow] = useState<StatsWindow>('30d');
+
+  useFocusEffect(
+    useCallback(() => {
+      getAllHistory()
+        .then(setHistory)
+        .catch((error) => console.error("Failed to load history", error));
+    }, [])
+  );
+
+  const stats = useMemo(
+    () => computeHistoryStats(history, timeWindow, language),
+    [history, timeWindow, language]
+  );
+  // Outcomes need the later scans, so this always covers all of history.
+  const treatmentSummary = useMemo(() => summarizeTreatments(history), [history]);
+
+  const frequencyRows = stats.byLabel.map((stat) => ({
+    key: stat.label,
+    label: diseaseName(stat.label),
+    value: stat.count,
+    display: String(stat.count),
+    color: stat.label === 'Healthy Rice Leaf' ? colors.primary : stat.label === 'NOT_A_RICE_LEAF' ? colors.gray : colors.danger,
+  }));
+
+  const confidenceRows = stats.byLabel
+    .filter((stat) => stat.averageConfidence !== null)
+    .map((stat) => ({
+      key: stat.label,
+      label: diseaseName(stat.label),
+      value: stat.averageConfidence!,
+      display: formatConfidence(stat.averageConfidence!),
+    }));
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <MaterialIcons name="insights" size={28} color={colors.onPrimary} />
+        <Text style={styles.headerTitle}>{t('stats.title')}</Text>
+      </View>
+
+      {/* Time Window */}
+      <View style={styles.windowRow}>
+        {STATS_WINDOWS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => setTimeWindow(option.value)}
+            style={[styles.windowChip, timeWindow === option.value && styles.windowChipActive]}
+          >
+            <Text style={[styles.windowText, timeWindow === option.value && styles.windowTextActive]}>
+              {t(option.label)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {stats.total === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="bar-chart-outline" size={80} color={colors.placeholder} />
+          <Text style={styles.emptyText}>{t('stats.empty')}</Text>
+          <Text style={styles.emptySubtext}>{t('stats.emptyHint')}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>{stats.total}</Text>
+              <Text style={styles.summaryLabel}>{t('stats.scans')}</Text>
+            </View>
+            <View style={styles.summaryCard}>
+              <Text style={[styles.summaryValue, { color: colors.danger }]}>{stats.diseased}</Text>
+              <Text style={styles.summaryLabel}>{t('stats.diseased')}</Text>
+            </View>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>{stats.healthy}</Text>
+              <Text style={styles.summaryLabel}>{t('stats.healthy')}</Text>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('stats.ratioTitle')}</Text>
+            <RatioBar
+              segments={[
+                { key: 'healthy', label: t('stats.healthy'), value: stats.healthy, color: colors.primary },
+                { key: 'diseased', label: t('stats.diseased'), value: stats.diseased, color: colors.danger },
+              ]}
+            />
+            {stats.notRice > 0 && (
+              <Text style={styles.cardNote}>{tn('stats.notRice', stats.notRice)}</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('stats.frequencyTitle')}</Text>
+            <HorizontalBarChart rows={frequencyRows} />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('stats.overTimeTitle')}</Text>
+            <ColumnChart columns={stats.overTime.map((bucket) => ({ key: bucket.key, label: bucket.label, value: bucket.count }))} />
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('stats.confidenceTitle')}</Text>
+            <HorizontalBarChart rows={confidenceRows} max={100} />
+          </View>
+
+          {treatmentSummary.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('stats.treatmentsTitle')}</Text>
+              {treatmentSummary.map((disease) => (
+                <View key={disease.label} style={styles.treatmentGroup}>
+                  <Text style={styles.treatmentDisease}>{diseaseName(disease.label)}</Text>
+                  {disease.treatments.map((result) => {
+                    const checked = result.applications - result.pending;
+                    return (
+                      <View key={result.product} style={styles.treatmentRow}>
+                        <View style={styles.treatmentDetails}>
+                          <Text style={styles.treatmentProduct}>{result.product}</Text>
+                          <Text style={styles.treatmentMeta}>
+                            {[
+                              result.activeIngredient,
+                              tn('stats.treatmentUses', result.applications),
+                              result.totalCost > 0 ? t('stats.treatmentCost', { cost: result.totalCost }) : null,
+                            ]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </Text>
+                        </View>
+                        <Text style={[styles.treatmentOutcome, result.cleared > 0 && { color: colors.primary }]}>
+                          {checked > 0
+                            ? t('stats.treatmentHealthy', { cleared: result.cleared, checked })
+                            : t('stats.treatmentNotRescanned')}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              ))}
+              <Text style={styles.cardNote}>
+                {t('stats.treatmentsNote', { healthy: diseaseName('Healthy Rice Leaf') })}
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 15,
+    paddingTop: 15,
+    gap: 6,
+  },
+  windowChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    elevation: 1,
+  },
+  windowChipActive: {
+    backgroundColor: colors.primary,
+  },
+  windowText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  windowTextActive: {
+    color: colors.onPrimary,
+  },
+  scrollContent: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 15,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingVertical: 15,
+    alignItems: 'center',
+    elevation: 2,
+  },
+  summaryValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  cardNote: {
+    marginTop: 8,
+    fontSize: 12,
+    color: colors.gray,
+    fontStyle: 'italic',
+  },
+  treatmentGroup: {
+    marginBottom: 12,
+  },
+  treatmentDisease: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.danger,
+    marginBottom: 4,
+  },
+  treatmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  treatmentDetails: {
+    flex: 1,
+  },
+  treatmentProduct: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  treatmentMeta: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 2,
+  },
+  treatmentOutcome: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: colors.gray,
+    marginLeft: 10,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: -50,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.gray,
+    marginTop: 10,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.muted,
+    marginTop: 5,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+});
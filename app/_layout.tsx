@@ -1,9 +1,23 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { Stack, router } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { listenForReminderTaps } from '@/services/reminders';
+import { startScanQueue } from '@/services/scan-queue';
+
+// Show re-scan reminders even when they fire while the app is open.
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -12,13 +26,32 @@ export const unstable_settings = {
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
+  // Retries offline scans in the background while the app is open.
+  useEffect(() => startScanQueue(), []);
+
+  // A tapped reminder opens the Scanner ready for the follow-up scan.
+  useEffect(
+    () => listenForReminderTaps((reminderId) => router.push({ pathname: '/', params: { followUp: reminderId } })),
+    []
+  );
+
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="settings" options={{ headerShown: false }} />
+        <Stack.Screen name="fields/index" options={{ headerShown: false }} />
+        <Stack.Screen name="fields/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="fields/edit" options={{ headerShown: false }} />
+        <Stack.Screen name="locations" options={{ headerShown: false }} />
+        <Stack.Screen name="batch" options={{ headerShown: false }} />
+        <Stack.Screen name="reminders" options={{ headerShown: false }} />
+        <Stack.Screen name="library/index" options={{ headerShown: false }} />
+        <Stack.Screen name="library/[label]" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
-      <StatusBar style="auto" />
+      {/* "auto" follows the phone, not a theme picked in Settings. */}
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
     </ThemeProvider>
   );
 }
@@ -0,0 +1,299 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import {
+  ActivityIndicator,
+  Dimensions,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ScanImage } from '@/components/scan-image';
+import { ThemeColors } from '@/constants/theme';
+import { TranslationKey } from '@/constants/translations/en';
+import { useBatchScan } from '@/hooks/use-batch-scan';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { BatchItem, BatchItemStatus, cancelBatchScan, clearBatchScan, summarizeBatch } from '@/services/batch-scan';
+import { formatConfidence } from '@/services/prediction';
+
+const { width } = Dimensions.get('window');
+const PHOTO_SIZE = (width - 30 - 2 * 10) / 3; // Three per row inside 15px padding
+
+const STATUS_LABELS: { [status in Exclude<BatchItemStatus, 'done'>]: TranslationKey } = {
+  pending: 'batch.status.pending',
+  uploading: 'batch.status.uploading',
+  queued: 'batch.status.queued',
+  failed: 'batch.status.failed',
+  unsaved: 'batch.status.unsaved',
+};
+
+const isFinished = (item: BatchItem) => item.status !== 'pending' && item.status !== 'uploading';
+
+export default function BatchScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const batch = useBatchScan();
+  const { t, tn, diseaseName } = useTranslation();
+
+  const items = batch?.items ?? [];
+  const finished = items.filter(isFinished).length;
+  const queued = items.filter((item) => item.status === 'queued').length;
+  const failed = items.filter((item) => item.status === 'failed').length;
+  const unsaved = items.filter((item) => item.status === 'unsaved').length;
+  const summary = summarizeBatch(items);
+
+  const close = () => {
+    clearBatchScan();
+    router.back();
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('batch.title')}</Text>
+      </View>
+
+      {!batch ? (
+        <Text style={styles.emptyText}>{t('batch.empty')}</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* --- PROGRESS --- */}
+          <View style={styles.card}>
+            <View style={styles.progressHeader}>
+              {batch.running && <ActivityIndicator color={colors.primary} style={styles.spinner} />}
+              <Text style={styles.progressText}>
+                {t('batch.progress', { done: finished, total: items.length })}
+              </Text>
+            </View>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${(finished / Math.max(items.length, 1)) * 100}%` }]} />
+            </View>
+            {queued > 0 && <Text style={styles.noteText}>{tn('batch.queued', queued)}</Text>}
+            {failed > 0 && <Text style={[styles.noteText, styles.failedNote]}>{tn('batch.failed', failed)}</Text>}
+            {unsaved > 0 && <Text style={[styles.noteText, styles.failedNote]}>{tn('batch.unsaved', unsaved)}</Text>}
+
+            {batch.running ? (
+              <TouchableOpacity onPress={cancelBatchScan} style={styles.cancelButton}>
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={close} style={styles.doneButton}>
+                <Text style={styles.doneButtonText}>{t('batch.done')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* --- SUMMARY GRID --- */}
+          {summary.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('batch.summary')}</Text>
+              <View style={styles.summaryGrid}>
+                {summary.map((row) => (
+                  <View key={row.label} style={styles.summaryTile}>
+                    <Text
+                      style={[
+                        styles.summaryCount,
+                        { color: row.label === 'Healthy Rice Leaf' ? colors.primary : colors.danger },
+                      ]}
+                    >
+                      {row.count}
+                    </Text>
+                    <Text style={styles.summaryLabel} numberOfLines={2}>{diseaseName(row.label)}</Text>
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
+          {/* --- PHOTO GRID --- */}
+          <Text style={styles.sectionTitle}>{t('batch.photos')}</Text>
+          <View style={styles.photoGrid}>
+            {items.map((item) => (
+              <View key={item.id} style={styles.photoCell}>
+                <ScanImage uri={item.imageUri} style={styles.photo} compact />
+                {item.status === 'done' && item.label ? (
+                  <>
+                    <Text style={styles.photoLabel} numberOfLines={1}>{diseaseName(item.label)}</Text>
+                    <Text style={styles.photoMeta}>{formatConfidence(item.confidence ?? 0)}</Text>
+                  </>
+                ) : (
+                  <Text
+                    style={[styles.photoMeta, (item.status === 'failed' || item.status === 'unsaved') && styles.failedNote]}
+                    numberOfLines={2}
+                  >
+                    {item.status === 'done' ? '' : t(STATUS_LABELS[item.status])}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 40,
+    marginHorizontal: 30,
+    color: colors.gray,
+    lineHeight: 20,
+  },
+  scrollContent: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 20,
+    elevation: 2,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  spinner: {
+    marginRight: 8,
+  },
+  progressText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.secondary,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  noteText: {
+    fontSize: 13,
+    color: colors.gray,
+    marginTop: 8,
+  },
+  failedNote: {
+    color: colors.danger,
+  },
+  cancelButton: {
+    alignSelf: 'flex-end',
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+  },
+  cancelButtonText: {
+    color: colors.danger,
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    marginTop: 12,
+    backgroundColor: colors.primary,
+    paddingVertical: 10,
+    paddingHorizontal: 25,
+    borderRadius: 20,
+  },
+  doneButtonText: {
+    color: colors.onPrimary,
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 10,
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  summaryTile: {
+    width: '48%',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  summaryCount: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 2,
+  },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  photoCell: {
+    width: PHOTO_SIZE,
+  },
+  photo: {
+    width: PHOTO_SIZE,
+    height: PHOTO_SIZE,
+    borderRadius: 10,
+    backgroundColor: colors.imagePlaceholder,
+  },
+  photoLabel: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 4,
+  },
+  photoMeta: {
+    fontSize: 11,
+    color: colors.gray,
+    marginTop: 2,
+  },
+});
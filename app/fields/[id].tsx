@@ -0,0 +1,282 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { FieldHealthBadge } from '@/components/field-health-badge';
+import { ScanImage } from '@/components/scan-image';
+import { ThemeColors } from '@/constants/theme';
+import { useFields } from '@/hooks/use-fields';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { deleteField, getFieldScans, getFieldStatus } from '@/services/fields';
+import { HistoryItem, getAllHistory } from '@/services/history';
+import { formatConfidence } from '@/services/prediction';
+
+export default function FieldDetailScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, diseaseName, formatDate } = useTranslation();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const field = useFields().find((item) => item.id === id);
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      getAllHistory()
+        .then(setHistory)
+        .catch((error) => console.error("Failed to load history", error));
+    }, [])
+  );
+
+  const scans = getFieldScans(history, id);
+  const { health, latest } = getFieldStatus(scans);
+
+  const confirmDelete = () => {
+    if (!field) return;
+    Alert.alert(
+      t('fields.deleteTitle'),
+      t('fields.deleteMessage', { name: field.name }),
+      [
+        { text: t('common.cancel'), style: "cancel" },
+        {
+          text: t('common.delete'),
+          style: "destructive",
+          onPress: async () => {
+            await deleteField(field.id);
+            router.back();
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{field?.name ?? t('fields.fallbackTitle')}</Text>
+        {field && (
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => router.push({ pathname: '/fields/edit', params: { id: field.id } })}
+              style={styles.headerButton}
+            >
+              <MaterialIcons name="edit" size={24} color={colors.onPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={confirmDelete} style={styles.headerButton}>
+              <MaterialIcons name="delete-outline" size={24} color={colors.onPrimary} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {!field ? (
+        <Text style={styles.missingText}>{t('fields.missing')}</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* --- FIELD SUMMARY --- */}
+          <View style={styles.summaryCard}>
+            <View style={styles.summaryHeader}>
+              <Text style={styles.summaryTitle}>{t('fields.status')}</Text>
+              <FieldHealthBadge health={health} />
+            </View>
+            {latest ? (
+              <Text style={styles.summaryText}>
+                {t('fields.lastDiagnosis', {
+                  disease: diseaseName(latest.label),
+                  confidence: formatConfidence(latest.confidence),
+                  date: formatDate(latest.createdAt),
+                })}
+              </Text>
+            ) : (
+              <Text style={styles.summaryText}>{t('fields.noScans')}</Text>
+            )}
+            <View style={styles.detailGrid}>
+              <Text style={styles.detailText}>{t('fields.variety', { value: field.variety || '—' })}</Text>
+              <Text style={styles.detailText}>
+                {t('fields.area', {
+                  value: field.areaHectares !== null ? t('fields.hectares', { area: field.areaHectares }) : '—',
+                })}
+              </Text>
+              <Text style={styles.detailText}>{t('fields.plantedOn', { value: field.plantingDate ?? '—' })}</Text>
+            </View>
+          </View>
+
+          {/* --- SCAN TIMELINE --- */}
+          <Text style={styles.sectionTitle}>{t('fields.timeline', { count: scans.length })}</Text>
+          {scans.map((scan, index) => (
+            <View key={scan.id} style={styles.timelineRow}>
+              <View style={styles.timelineRail}>
+                <View
+                  style={[
+                    styles.timelineDot,
+                    { backgroundColor: scan.label === 'Healthy Rice Leaf' ? colors.primary : colors.danger },
+                  ]}
+                />
+                {index < scans.length - 1 && <View style={styles.timelineLine} />}
+              </View>
+              <View style={styles.timelineCard}>
+                <ScanImage uri={scan.imageUri} style={styles.timelineImage} compact />
+                <View style={styles.timelineDetails}>
+                  <Text style={styles.timelineDate}>{formatDate(scan.createdAt)}</Text>
+                  <Text style={styles.timelineLabel}>{diseaseName(scan.label)}</Text>
+                  <Text style={styles.timelineConfidence}>{formatConfidence(scan.confidence)}</Text>
+                </View>
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerButton: {
+    padding: 5,
+    marginLeft: 5,
+  },
+  missingText: {
+    textAlign: 'center',
+    marginTop: 40,
+    color: colors.gray,
+  },
+  scrollContent: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  summaryCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 20,
+    elevation: 2,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  summaryTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: colors.text,
+    lineHeight: 20,
+  },
+  detailGrid: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.imagePlaceholder,
+    gap: 2,
+  },
+  detailText: {
+    fontSize: 13,
+    color: colors.gray,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 10,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineRail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 30,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: colors.border,
+  },
+  timelineCard: {
+    flex: 1,
+    flexDirection: 'row',
+    backgroundColor: colors.surface,
+    borderRadius: 10,
+    padding: 8,
+    marginLeft: 8,
+    marginBottom: 10,
+    elevation: 1,
+  },
+  timelineImage: {
+    width: 60,
+    height: 60,
+    borderRadius: 8,
+  },
+  timelineDetails: {
+    flex: 1,
+    marginLeft: 10,
+    justifyContent: 'center',
+  },
+  timelineDate: {
+    fontSize: 11,
+    color: colors.gray,
+  },
+  timelineLabel: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  timelineConfidence: {
+    fontSize: 12,
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,184 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { getField, saveField } from '@/services/fields';
+import { isValidDateKey } from '@/services/history-filters';
+
+export default function FieldEditScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  // Editing when an `id` is passed, otherwise creating a new field.
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const [name, setName] = useState('');
+  const [area, setArea] = useState('');
+  const [variety, setVariety] = useState('');
+  const [plantingDate, setPlantingDate] = useState('');
+
+  useEffect(() => {
+    if (!id) return;
+    getField(id).then((field) => {
+      if (!field) return;
+      setName(field.name);
+      setArea(field.areaHectares !== null ? String(field.areaHectares) : '');
+      setVariety(field.variety);
+      setPlantingDate(field.plantingDate ?? '');
+    });
+  }, [id]);
+
+  const submit = async () => {
+    const areaHectares = area.trim() === '' ? null : Number(area);
+
+    if (!name.trim()) {
+      Alert.alert(t('fields.missingNameTitle'), t('fields.missingNameMessage'));
+      return;
+    }
+    if (areaHectares !== null && (!Number.isFinite(areaHectares) || areaHectares < 0)) {
+      Alert.alert(t('fields.invalidAreaTitle'), t('fields.invalidAreaMessage'));
+      return;
+    }
+    if (plantingDate.trim() !== '' && !isValidDateKey(plantingDate.trim())) {
+      Alert.alert(t('fields.invalidDateTitle'), t('fields.invalidDateMessage'));
+      return;
+    }
+
+    await saveField({
+      id,
+      name: name.trim(),
+      areaHectares,
+      variety: variety.trim(),
+      plantingDate: plantingDate.trim() || null,
+    });
+    router.back();
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t(id ? 'fields.editTitle' : 'fields.newTitle')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <Text style={styles.inputLabel}>{t('fields.nameLabel')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('fields.namePlaceholder')}
+          placeholderTextColor={colors.gray}
+          value={name}
+          onChangeText={setName}
+        />
+
+        <Text style={styles.inputLabel}>{t('fields.areaLabel')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('fields.areaPlaceholder')}
+          placeholderTextColor={colors.gray}
+          keyboardType="decimal-pad"
+          value={area}
+          onChangeText={setArea}
+        />
+
+        <Text style={styles.inputLabel}>{t('fields.varietyLabel')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('fields.varietyPlaceholder')}
+          placeholderTextColor={colors.gray}
+          value={variety}
+          onChangeText={setVariety}
+        />
+
+        <Text style={styles.inputLabel}>{t('fields.plantingLabel')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={colors.gray}
+          value={plantingDate}
+          onChangeText={setPlantingDate}
+        />
+
+        <TouchableOpacity style={styles.saveButton} onPress={submit}>
+          <Text style={styles.saveButtonText}>{t(id ? 'fields.saveChanges' : 'fields.create')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 15,
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 15,
+    borderRadius: 30,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  saveButtonText: {
+    color: colors.onPrimary,
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,172 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  FlatList,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { FieldHealthBadge } from '@/components/field-health-badge';
+import { ThemeColors } from '@/constants/theme';
+import { useFields } from '@/hooks/use-fields';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { getFieldScans, getFieldStatus } from '@/services/fields';
+import { HistoryItem, getAllHistory } from '@/services/history';
+
+export default function FieldsScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, tn, diseaseName, formatDate } = useTranslation();
+  const fields = useFields();
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      getAllHistory()
+        .then(setHistory)
+        .catch((error) => console.error("Failed to load history", error));
+    }, [])
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('fields.title')}</Text>
+        <TouchableOpacity onPress={() => router.push('/fields/edit')} style={styles.addButton}>
+          <MaterialIcons name="add" size={28} color={colors.onPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      {fields.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons name="terrain" size={80} color={colors.placeholder} />
+          <Text style={styles.emptyText}>{t('fields.empty')}</Text>
+          <Text style={styles.emptySubtext}>{t('fields.emptyHint')}</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={fields}
+          keyExtractor={(field) => field.id}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item: field }) => {
+            const scans = getFieldScans(history, field.id);
+            const { health, latest } = getFieldStatus(scans);
+            return (
+              <TouchableOpacity
+                style={styles.card}
+                onPress={() => router.push({ pathname: '/fields/[id]', params: { id: field.id } })}
+                activeOpacity={0.7}
+              >
+                <View style={styles.cardHeader}>
+                  <Text style={styles.fieldName}>{field.name}</Text>
+                  <FieldHealthBadge health={health} />
+                </View>
+                <Text style={styles.fieldMeta}>
+                  {[
+                    field.variety,
+                    field.areaHectares !== null ? t('fields.hectares', { area: field.areaHectares }) : '',
+                    field.plantingDate ? t('fields.planted', { date: field.plantingDate }) : '',
+                  ].filter(Boolean).join(' · ') || t('fields.noDetails')}
+                </Text>
+                <Text style={styles.fieldMeta}>
+                  {tn('fields.scans', scans.length)}
+                  {latest
+                    ? ` · ${t('fields.last', { disease: diseaseName(latest.label), date: formatDate(latest.createdAt) })}`
+                    : ''}
+                </Text>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  addButton: {
+    marginLeft: 'auto',
+    padding: 5,
+  },
+  listContent: {
+    padding: 15,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  fieldName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  fieldMeta: {
+    fontSize: 13,
+    color: colors.gray,
+    marginTop: 2,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: -50,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.gray,
+    marginTop: 10,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.muted,
+    marginTop: 5,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+});
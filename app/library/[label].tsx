@@ -0,0 +1,297 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  Image,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ScanImage } from '@/components/scan-image';
+import { SeverityBadge } from '@/components/severity-badge';
+import { isDiseaseLabel } from '@/constants/labels';
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { HistoryItem, getAllHistory } from '@/services/history';
+
+const MAX_OWN_SCANS = 6;
+
+function BulletList({ items }: { items: string[] }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <>
+      {items.map((item) => (
+        <View key={item} style={styles.bulletRow}>
+          <Text style={styles.bullet}>•</Text>
+          <Text style={styles.bodyText}>{item}</Text>
+        </View>
+      ))}
+    </>
+  );
+}
+
+export default function DiseaseEntryScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { label } = useLocalSearchParams<{ label: string }>();
+  const { t, diseaseName, diseaseAdvice, diseaseEntry } = useTranslation();
+  const entry = isDiseaseLabel(label) ? diseaseEntry(label) : null;
+  const [ownScans, setOwnScans] = useState<HistoryItem[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      getAllHistory()
+        .then((items) => setOwnScans(items.filter((item) => item.label === label).slice(0, MAX_OWN_SCANS)))
+        .catch((error) => console.error("Failed to load history", error));
+    }, [label])
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {entry ? diseaseName(entry.label) : t('library.title')}
+        </Text>
+      </View>
+
+      {!entry ? (
+        <Text style={styles.missingText}>{t('library.notFound')}</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {/* --- SUMMARY --- */}
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>{t('library.severity')}</Text>
+              <SeverityBadge severity={entry.severity} />
+            </View>
+            <Text style={styles.bodyText}>{entry.severityNotes}</Text>
+            <View style={styles.adviceBox}>
+              <Text style={styles.adviceText}>{diseaseAdvice(entry.label) ?? entry.summary}</Text>
+            </View>
+          </View>
+
+          {/* --- REFERENCE PHOTOS --- */}
+          {(entry.referenceImages.length > 0 || ownScans.length > 0) && (
+            <View style={styles.card}>
+              {entry.referenceImages.length > 0 && (
+                <>
+                  <Text style={styles.cardTitle}>{t('library.photos')}</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoRow}>
+                    {entry.referenceImages.map((image) => (
+                      <View key={image.caption} style={styles.referenceItem}>
+                        <Image source={image.source} style={[styles.photo, styles.referencePhoto]} />
+                        <Text style={styles.photoCaption} numberOfLines={2}>{image.caption}</Text>
+                      </View>
+                    ))}
+                  </ScrollView>
+                </>
+              )}
+              {ownScans.length > 0 && (
+                <>
+                  <Text style={styles.cardTitle}>{t('library.yourScans')}</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoRow}>
+                    {ownScans.map((scan) => (
+                      <ScanImage key={scan.id} uri={scan.imageUri} style={styles.photo} compact />
+                    ))}
+                  </ScrollView>
+                </>
+              )}
+            </View>
+          )}
+
+          {/* --- DETAILS --- */}
+          {entry.symptoms.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('library.symptoms')}</Text>
+              <BulletList items={entry.symptoms} />
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('library.cause')}</Text>
+            <Text style={styles.bodyText}>{entry.cause}</Text>
+          </View>
+
+          {entry.favorableConditions.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('library.conditions')}</Text>
+              <BulletList items={entry.favorableConditions} />
+            </View>
+          )}
+
+          {entry.treatment.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('library.treatment')}</Text>
+              <BulletList items={entry.treatment} />
+            </View>
+          )}
+
+          {entry.activeIngredients.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('library.ingredients')}</Text>
+              <View style={styles.chipRow}>
+                {entry.activeIngredients.map((ingredient) => (
+                  <View key={ingredient} style={styles.chip}>
+                    <MaterialIcons name="science" size={14} color={colors.primary} />
+                    <Text style={styles.chipText}>{ingredient}</Text>
+                  </View>
+                ))}
+              </View>
+              <Text style={styles.hintText}>{t('library.ingredientsHint')}</Text>
+            </View>
+          )}
+
+          {entry.prevention.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('library.prevention')}</Text>
+              <BulletList items={entry.prevention} />
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  missingText: {
+    textAlign: 'center',
+    marginTop: 40,
+    color: colors.gray,
+  },
+  scrollContent: {
+    padding: 15,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  bodyText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+    lineHeight: 20,
+  },
+  bulletRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  bullet: {
+    width: 14,
+    fontSize: 14,
+    color: colors.primary,
+    lineHeight: 20,
+  },
+  adviceBox: {
+    backgroundColor: colors.adviceBackground,
+    padding: 12,
+    borderRadius: 10,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.accent,
+    marginTop: 12,
+  },
+  adviceText: {
+    fontSize: 14,
+    color: colors.adviceText,
+    lineHeight: 20,
+  },
+  photoRow: {
+    gap: 10,
+    paddingBottom: 10,
+  },
+  referenceItem: {
+    width: 192,
+  },
+  photo: {
+    width: 120,
+    height: 120,
+    borderRadius: 10,
+    backgroundColor: colors.imagePlaceholder,
+  },
+  // Drawings are 16:10 so the lesions at the leaf tip are not cropped.
+  referencePhoto: {
+    width: 192,
+  },
+  photoCaption: {
+    fontSize: 11,
+    color: colors.gray,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: colors.secondary,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 15,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  hintText: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 10,
+  },
+});
@@ -0,0 +1,127 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import {
+  FlatList,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { SeverityBadge } from '@/components/severity-badge';
+import { getDiseaseEntries } from '@/constants/disease-library';
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+
+export default function DiseaseLibraryScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, diseaseName, diseaseEntry } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('library.title')}</Text>
+      </View>
+
+      <FlatList
+        data={getDiseaseEntries()}
+        keyExtractor={(entry) => entry.label}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={<Text style={styles.intro}>{t('library.intro')}</Text>}
+        renderItem={({ item: entry }) => (
+          <TouchableOpacity
+            style={styles.card}
+            onPress={() => router.push({ pathname: '/library/[label]', params: { label: entry.label } })}
+            activeOpacity={0.7}
+          >
+            <View style={styles.cardDetails}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.diseaseName}>{diseaseName(entry.label)}</Text>
+                <SeverityBadge severity={entry.severity} />
+              </View>
+              <Text style={styles.preview} numberOfLines={2}>{diseaseEntry(entry.label).symptoms[0]}</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color={colors.gray} />
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  listContent: {
+    padding: 15,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.gray,
+    lineHeight: 20,
+    marginBottom: 15,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    elevation: 2,
+  },
+  cardDetails: {
+    flex: 1,
+    marginRight: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  diseaseName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginRight: 8,
+  },
+  preview: {
+    fontSize: 13,
+    color: colors.gray,
+    lineHeight: 18,
+  },
+});
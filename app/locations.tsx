@@ -0,0 +1,297 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ScanImage } from '@/components/scan-image';
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { HistoryItem, getAllHistory } from '@/services/history';
+import { GeoPoint, formatCoordinates, formatDistance, getDeviceLocation } from '@/services/location';
+import { DEFAULT_CLUSTER_RADIUS_M, clusterScans } from '@/services/scan-clusters';
+
+const RADIUS_OPTIONS = [50, DEFAULT_CLUSTER_RADIUS_M, 250, 500];
+const MAX_THUMBNAILS = 5;
+
+export default function LocationsScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, tn, diseaseName, formatDate } = useTranslation();
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [userLocation, setUserLocation] = useState<GeoPoint | null>(null);
+  const [locating, setLocating] = useState(true);
+  const [radius, setRadius] = useState(DEFAULT_CLUSTER_RADIUS_M);
+
+  useFocusEffect(
+    useCallback(() => {
+      getAllHistory()
+        .then(setHistory)
+        .catch((error) => console.error("Failed to load history", error));
+
+      setLocating(true);
+      getDeviceLocation()
+        .then(setUserLocation)
+        .finally(() => setLocating(false));
+    }, [])
+  );
+
+  const clusters = useMemo(() => clusterScans(history, userLocation, radius), [history, userLocation, radius]);
+  const untagged = history.filter((item) => !item.location).length;
+
+  const renderHint = () => {
+    if (locating) {
+      return (
+        <View style={styles.hintRow}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          <Text style={styles.hintText}>{t('locations.finding')}</Text>
+        </View>
+      );
+    }
+    return (
+      <Text style={styles.hintText}>
+        {t(userLocation ? 'locations.nearestFirst' : 'locations.unknownPosition')}
+        {untagged > 0 ? ` ${tn('locations.untagged', untagged)}` : ''}
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('locations.title')}</Text>
+      </View>
+
+      <FlatList
+        data={clusters}
+        keyExtractor={(cluster) => cluster.id}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <View style={styles.controls}>
+            <Text style={styles.controlsLabel}>{t('locations.groupWithin')}</Text>
+            <View style={styles.chipRow}>
+              {RADIUS_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setRadius(option)}
+                  style={[styles.chip, radius === option && styles.chipActive]}
+                >
+                  <Text style={[styles.chipText, radius === option && styles.chipTextActive]}>
+                    {formatDistance(option)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {renderHint()}
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="location-off" size={80} color={colors.placeholder} />
+            <Text style={styles.emptyText}>{t('locations.empty')}</Text>
+            <Text style={styles.emptySubtext}>{t('locations.emptyHint')}</Text>
+          </View>
+        }
+        renderItem={({ item: cluster, index }) => (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>{t('locations.spot', { number: index + 1 })}</Text>
+              {cluster.distanceMeters !== null && (
+                <Text style={styles.distanceText}>
+                  {t('locations.away', { distance: formatDistance(cluster.distanceMeters) })}
+                </Text>
+              )}
+            </View>
+            <Text style={styles.coordinatesText}>
+              {formatCoordinates(cluster)} · {tn('locations.scans', cluster.items.length)}
+            </Text>
+            <Text style={styles.coordinatesText}>
+              {t('locations.lastScanned', { date: formatDate(cluster.items[0].createdAt) })}
+            </Text>
+
+            <View style={styles.countRow}>
+              {cluster.labelCounts.map(({ label, count }) => (
+                <View
+                  key={label}
+                  style={[styles.countChip, label === 'Healthy Rice Leaf' ? styles.countChipHealthy : styles.countChipDisease]}
+                >
+                  <Text style={styles.countChipText}>{diseaseName(label)} × {count}</Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.thumbnailRow}>
+              {cluster.items.slice(0, MAX_THUMBNAILS).map((item) => (
+                <ScanImage key={item.id} uri={item.imageUri} style={styles.thumbnail} compact />
+              ))}
+            </View>
+          </View>
+        )}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  listContent: {
+    padding: 15,
+  },
+  controls: {
+    marginBottom: 10,
+  },
+  controlsLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: colors.secondary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  hintRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  distanceText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  coordinatesText: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 2,
+  },
+  countRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  countChip: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  countChipHealthy: {
+    backgroundColor: colors.secondary,
+  },
+  countChipDisease: {
+    backgroundColor: colors.dangerBackground,
+  },
+  countChipText: {
+    fontSize: 12,
+    color: colors.text,
+  },
+  thumbnailRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 10,
+  },
+  thumbnail: {
+    width: 50,
+    height: 50,
+    borderRadius: 6,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    marginTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.gray,
+    marginTop: 10,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.muted,
+    marginTop: 5,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+});
@@ -0,0 +1,300 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useFields } from '@/hooks/use-fields';
+import { useReminders } from '@/hooks/use-reminders';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  FOLLOW_UP_DAYS,
+  Reminder,
+  ReminderError,
+  cancelReminder,
+  followUpDate,
+  isPending,
+  rescheduleReminder,
+} from '@/services/reminders';
+
+// Done reminders stay listed this long so the farmer can open the follow-up.
+const DONE_LIMIT = 10;
+
+export default function RemindersScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const reminders = useReminders();
+  const fields = useFields();
+  const { t, tn, diseaseName, formatDate } = useTranslation();
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+
+  const upcoming = reminders.filter(isPending).sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  const done = reminders
+    .filter((item) => !isPending(item))
+    .sort((a, b) => (b.completedAt ?? '').localeCompare(a.completedAt ?? ''))
+    .slice(0, DONE_LIMIT);
+  const now = new Date().toISOString();
+
+  const fieldName = (reminder: Reminder) =>
+    fields.find((field) => field.id === reminder.fieldId)?.name ?? t('reminders.noField');
+
+  const reschedule = async (reminder: Reminder, days: number) => {
+    try {
+      await rescheduleReminder(reminder.id, followUpDate(days));
+      setReschedulingId(null);
+    } catch (error) {
+      console.error("Failed to reschedule reminder", error);
+      Alert.alert(
+        t('followUp.failedTitle'),
+        error instanceof ReminderError ? t(`reminders.error.${error.kind}`) : t('reminders.moveFailed')
+      );
+    }
+  };
+
+  const confirmCancel = (reminder: Reminder) => {
+    Alert.alert(
+      t('reminders.cancelTitle'),
+      t('reminders.cancelMessage', { disease: diseaseName(reminder.label) }),
+      [
+        { text: t('reminders.keep'), style: 'cancel' },
+        { text: t('reminders.cancelTitle'), style: 'destructive', onPress: () => cancelReminder(reminder.id) },
+      ]
+    );
+  };
+
+  const renderReminder = (reminder: Reminder) => {
+    const pending = isPending(reminder);
+    const overdue = pending && reminder.dueAt < now;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons
+            name={pending ? 'alarm' : 'checkmark-circle'}
+            size={22}
+            color={overdue ? colors.accent : colors.primary}
+          />
+          <View style={styles.cardDetails}>
+            <Text style={styles.cardTitle}>{diseaseName(reminder.label)}</Text>
+            <Text style={styles.cardMeta}>{fieldName(reminder)}</Text>
+            <Text style={[styles.cardMeta, overdue && styles.overdueText]}>
+              {pending
+                ? t(overdue ? 'reminders.overdue' : 'reminders.due', { date: formatDate(reminder.dueAt) })
+                : t('reminders.rescanned', { date: formatDate(reminder.completedAt ?? reminder.dueAt) })}
+            </Text>
+          </View>
+        </View>
+
+        {pending && (
+          <>
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={styles.scanButton}
+                onPress={() => router.push({ pathname: '/', params: { followUp: reminder.id } })}
+              >
+                <MaterialIcons name="photo-camera" size={18} color={colors.onPrimary} />
+                <Text style={styles.scanButtonText}>{t('reminders.scanNow')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setReschedulingId(reschedulingId === reminder.id ? null : reminder.id)}
+                style={styles.linkButton}
+              >
+                <Text style={styles.linkText}>{t('reminders.move')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => confirmCancel(reminder)} style={styles.linkButton}>
+                <Text style={[styles.linkText, styles.cancelText]}>{t('reminders.cancel')}</Text>
+              </TouchableOpacity>
+            </View>
+
+            {reschedulingId === reminder.id && (
+              <View style={styles.chipRow}>
+                {FOLLOW_UP_DAYS.map((days) => (
+                  <TouchableOpacity key={days} onPress={() => reschedule(reminder, days)} style={styles.chip}>
+                    <Text style={styles.chipText}>{tn('reminders.inDays', days)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('reminders.title')}</Text>
+      </View>
+
+      <FlatList
+        data={[...upcoming, ...done]}
+        keyExtractor={(reminder) => reminder.id}
+        contentContainerStyle={styles.listContent}
+        renderItem={({ item, index }) => (
+          <>
+            {index === 0 && upcoming.length > 0 && <Text style={styles.sectionTitle}>{t('reminders.upcoming')}</Text>}
+            {index === upcoming.length && <Text style={styles.sectionTitle}>{t('reminders.done')}</Text>}
+            {renderReminder(item)}
+          </>
+        )}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="alarm-outline" size={80} color={colors.placeholder} />
+            <Text style={styles.emptyText}>{t('reminders.empty')}</Text>
+            <Text style={styles.emptySubtext}>
+              {t('reminders.emptyHint')}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  listContent: {
+    padding: 15,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray,
+    marginTop: 5,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  cardDetails: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 2,
+  },
+  overdueText: {
+    color: colors.accent,
+    fontWeight: 'bold',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 12,
+  },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: colors.primary,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 18,
+  },
+  scanButtonText: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  linkButton: {
+    padding: 5,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  cancelText: {
+    color: colors.danger,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.secondary,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    marginTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.gray,
+    marginTop: 10,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: colors.muted,
+    marginTop: 5,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+});
@@ -0,0 +1,592 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { RestoreSheet } from '@/components/restore-sheet';
+import { LANGUAGES } from '@/constants/languages';
+import { THEME_PREFERENCES, ThemeColors, ThemePreference } from '@/constants/theme';
+import { TranslationKey } from '@/constants/translations/en';
+import { useAppSettings } from '@/hooks/use-app-settings';
+import { useBackendSettings } from '@/hooks/use-backend-settings';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { updateAppSettings } from '@/services/app-settings';
+import { BackupError, RestorePreview, createBackup, readBackup } from '@/services/backup';
+import { isValidThresholds } from '@/services/confidence';
+import {
+  BackendProfile,
+  HealthCheckResult,
+  checkBackendHealth,
+  deleteProfile,
+  normalizeBaseUrl,
+  saveProfile,
+  setActiveProfile,
+} from '@/services/backend-profiles';
+import { requestLocationPermission } from '@/services/location';
+
+const THEME_LABELS: { [key in ThemePreference]: TranslationKey } = {
+  system: 'settings.theme.system',
+  light: 'settings.theme.light',
+  dark: 'settings.theme.dark',
+};
+
+export default function SettingsScreen() {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const settings = useBackendSettings();
+  const appSettings = useAppSettings();
+  const { language, t } = useTranslation();
+  const [backingUp, setBackingUp] = useState(false);
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+  const [health, setHealth] = useState<{ [id: string]: HealthCheckResult | 'checking' }>({});
+  // Add / edit form. `editingId` is null when adding a new profile.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  // Confidence thresholds, edited as text and saved together.
+  const [confidentText, setConfidentText] = useState('');
+  const [tentativeText, setTentativeText] = useState('');
+
+  const runHealthCheck = useCallback(async (profile: BackendProfile) => {
+    setHealth((current) => ({ ...current, [profile.id]: 'checking' }));
+    const result = await checkBackendHealth(profile.baseUrl);
+    setHealth((current) => ({ ...current, [profile.id]: result }));
+  }, []);
+
+  // Check every profile when the screen opens and whenever one is added or edited.
+  const profiles = settings?.profiles;
+  useEffect(() => {
+    profiles?.forEach(runHealthCheck);
+  }, [profiles, runHealthCheck]);
+
+  const thresholds = appSettings?.confidenceThresholds;
+  useEffect(() => {
+    if (!thresholds) return;
+    setConfidentText(String(thresholds.confident));
+    setTentativeText(String(thresholds.tentative));
+  }, [thresholds]);
+
+  const saveThresholds = async () => {
+    const next = { confident: Number(confidentText), tentative: Number(tentativeText) };
+    if (confidentText.trim() === '' || tentativeText.trim() === '' || !isValidThresholds(next)) {
+      Alert.alert(t('settings.invalidLevelsTitle'), t('settings.invalidLevelsMessage'));
+      return;
+    }
+    await updateAppSettings({ confidenceThresholds: next });
+  };
+
+  const toggleGeotagging = async (enabled: boolean) => {
+    if (enabled && !(await requestLocationPermission())) {
+      Alert.alert(t('settings.locationDeniedTitle'), t('settings.locationDeniedMessage'));
+      return;
+    }
+    await updateAppSettings({ geotagScans: enabled });
+  };
+
+  const runBackup = async () => {
+    setBackingUp(true);
+    try {
+      await createBackup();
+    } catch (error) {
+      console.error("Failed to create backup", error);
+      Alert.alert(
+        t('settings.backupFailedTitle'),
+        error instanceof BackupError ? t(`settings.backupError.${error.kind}`) : t('settings.backupFailedMessage')
+      );
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const pickBackup = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/zip', 'application/json', 'application/octet-stream'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return;
+
+    try {
+      setRestorePreview(await readBackup(result.assets[0].uri));
+    } catch (error) {
+      console.error("Failed to read backup", error);
+      Alert.alert(
+        t('settings.restoreFailedTitle'),
+        error instanceof BackupError ? t(`settings.backupError.${error.kind}`) : t('settings.restoreFailedMessage')
+      );
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setBaseUrl('');
+  };
+
+  const startEditing = (profile: BackendProfile) => {
+    setEditingId(profile.id);
+    setName(profile.name);
+    setBaseUrl(profile.baseUrl);
+  };
+
+  const submitForm = async () => {
+    const normalizedUrl = normalizeBaseUrl(baseUrl);
+    if (!name.trim()) {
+      Alert.alert(t('settings.missingNameTitle'), t('settings.missingNameMessage'));
+      return;
+    }
+    if (!normalizedUrl) {
+      Alert.alert(t('settings.invalidAddressTitle'), t('settings.invalidAddressMessage'));
+      return;
+    }
+
+    await saveProfile({ id: editingId ?? undefined, name: name.trim(), baseUrl: normalizedUrl });
+    resetForm();
+  };
+
+  const confirmDelete = (profile: BackendProfile) => {
+    Alert.alert(
+      t('settings.deleteServerTitle'),
+      t('settings.deleteServerMessage', { name: profile.name }),
+      [
+        { text: t('common.cancel'), style: "cancel" },
+        {
+          text: t('common.delete'),
+          style: "destructive",
+          onPress: async () => {
+            await deleteProfile(profile.id);
+            if (editingId === profile.id) resetForm();
+          }
+        }
+      ]
+    );
+  };
+
+  const renderHealth = (profile: BackendProfile) => {
+    const result = health[profile.id];
+    if (result === undefined) return null;
+    if (result === 'checking') {
+      return <ActivityIndicator size="small" color={colors.primary} />;
+    }
+    return (
+      <View style={styles.healthRow}>
+        <View style={[styles.healthDot, { backgroundColor: result.ok ? colors.primary : colors.danger }]} />
+        <Text style={[styles.healthText, { color: result.ok ? colors.primary : colors.danger }]}>
+          {result.status === 'httpError'
+            ? t('settings.health.httpError', { status: result.httpStatus ?? '' })
+            : t(`settings.health.${result.status}`)}
+          {result.latencyMs !== null ? ` · ${result.latencyMs} ms` : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
+
+      {/* Header Section */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('settings.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>{t('settings.server')}</Text>
+        <Text style={styles.sectionHint}>{t('settings.serverHint')}</Text>
+
+        {settings?.profiles.map((profile) => {
+          const isActive = profile.id === settings.activeId;
+          return (
+            <TouchableOpacity
+              key={profile.id}
+              style={[styles.profileCard, isActive && styles.profileCardActive]}
+              onPress={() => setActiveProfile(profile.id)}
+              activeOpacity={0.7}
+            >
+              <MaterialIcons
+                name={isActive ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={24}
+                color={isActive ? colors.primary : colors.gray}
+              />
+
+              <View style={styles.profileDetails}>
+                <Text style={styles.profileName}>{profile.name}</Text>
+                <Text style={styles.profileUrl} numberOfLines={1}>{profile.baseUrl}</Text>
+                {renderHealth(profile)}
+              </View>
+
+              <TouchableOpacity onPress={() => runHealthCheck(profile)} style={styles.iconButton}>
+                <MaterialIcons name="network-check" size={22} color={colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => startEditing(profile)} style={styles.iconButton}>
+                <MaterialIcons name="edit" size={22} color={colors.gray} />
+              </TouchableOpacity>
+              {settings.profiles.length > 1 && (
+                <TouchableOpacity onPress={() => confirmDelete(profile)} style={styles.iconButton}>
+                  <MaterialIcons name="delete-outline" size={22} color={colors.danger} />
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+
+        {/* --- ADD / EDIT FORM --- */}
+        <View style={styles.formCard}>
+          <Text style={styles.formTitle}>{t(editingId ? 'settings.editServerTitle' : 'settings.addServerTitle')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={t('settings.serverName')}
+            placeholderTextColor={colors.gray}
+            value={name}
+            onChangeText={setName}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="http://192.168.1.10:5000"
+            placeholderTextColor={colors.gray}
+            value={baseUrl}
+            onChangeText={setBaseUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <View style={styles.formButtons}>
+            {editingId && (
+              <TouchableOpacity onPress={resetForm} style={styles.secondaryButton}>
+                <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={submitForm} style={styles.primaryButton}>
+              <Text style={styles.primaryButtonText}>{t(editingId ? 'common.save' : 'settings.addServer')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* --- LANGUAGE --- */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>{t('settings.language')}</Text>
+        <Text style={styles.sectionHint}>{t('settings.languageHint')}</Text>
+        {LANGUAGES.map((option) => {
+          const isActive = option.code === language;
+          return (
+            <TouchableOpacity
+              key={option.code}
+              style={[styles.profileCard, isActive && styles.profileCardActive]}
+              onPress={() => updateAppSettings({ language: option.code })}
+              activeOpacity={0.7}
+            >
+              <MaterialIcons
+                name={isActive ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={24}
+                color={isActive ? colors.primary : colors.gray}
+              />
+              <View style={styles.profileDetails}>
+                <Text style={styles.profileName}>{option.name}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        {/* --- APPEARANCE --- */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>{t('settings.appearance')}</Text>
+        <Text style={styles.sectionHint}>{t('settings.appearanceHint')}</Text>
+        {THEME_PREFERENCES.map((option) => {
+          const isActive = option === (appSettings?.theme ?? 'system');
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.profileCard, isActive && styles.profileCardActive]}
+              onPress={() => updateAppSettings({ theme: option })}
+              activeOpacity={0.7}
+            >
+              <MaterialIcons
+                name={isActive ? 'radio-button-checked' : 'radio-button-unchecked'}
+                size={24}
+                color={isActive ? colors.primary : colors.gray}
+              />
+              <View style={styles.profileDetails}>
+                <Text style={styles.profileName}>{t(THEME_LABELS[option])}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        {/* --- LOCATION --- */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>{t('settings.location')}</Text>
+        <View style={styles.toggleCard}>
+          <View style={styles.toggleDetails}>
+            <Text style={styles.profileName}>{t('settings.geotag')}</Text>
+            <Text style={styles.toggleHint}>{t('settings.geotagHint')}</Text>
+          </View>
+          <Switch
+            value={appSettings?.geotagScans ?? false}
+            onValueChange={toggleGeotagging}
+            trackColor={{ true: colors.primary, false: colors.placeholder }}
+            thumbColor={colors.onPrimary}
+          />
+        </View>
+
+        {/* --- CONFIDENCE LEVELS --- */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>{t('settings.confidence')}</Text>
+        <Text style={styles.sectionHint}>{t('settings.confidenceHint')}</Text>
+        <View style={styles.formCard}>
+          <View style={styles.thresholdRow}>
+            <Text style={styles.thresholdLabel}>{t('settings.confidentFrom')}</Text>
+            <TextInput
+              style={[styles.input, styles.thresholdInput]}
+              keyboardType="numeric"
+              value={confidentText}
+              onChangeText={setConfidentText}
+            />
+          </View>
+          <View style={styles.thresholdRow}>
+            <Text style={styles.thresholdLabel}>{t('settings.tentativeFrom')}</Text>
+            <TextInput
+              style={[styles.input, styles.thresholdInput]}
+              keyboardType="numeric"
+              value={tentativeText}
+              onChangeText={setTentativeText}
+            />
+          </View>
+          {thresholds &&
+            (confidentText !== String(thresholds.confident) || tentativeText !== String(thresholds.tentative)) && (
+              <View style={styles.formButtons}>
+                <TouchableOpacity onPress={saveThresholds} style={styles.primaryButton}>
+                  <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+        </View>
+
+        {/* --- BACKUP & RESTORE --- */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>{t('settings.backup')}</Text>
+        <Text style={styles.sectionHint}>{t('settings.backupHint')}</Text>
+        <View style={styles.backupButtons}>
+          <TouchableOpacity onPress={runBackup} style={styles.backupButton} disabled={backingUp}>
+            {backingUp ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <>
+                <MaterialIcons name="backup" size={22} color={colors.primary} />
+                <Text style={styles.backupButtonText}>{t('settings.createBackup')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity onPress={pickBackup} style={styles.backupButton}>
+            <MaterialIcons name="settings-backup-restore" size={22} color={colors.primary} />
+            <Text style={styles.backupButtonText}>{t('settings.restore')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      <RestoreSheet preview={restorePreview} onClose={() => setRestorePreview(null)} />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 5,
+    marginRight: 10,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.onPrimary,
+  },
+  scrollContent: {
+    padding: 15,
+    paddingBottom: 50,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: colors.gray,
+    marginBottom: 15,
+    lineHeight: 18,
+  },
+  profileCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+    elevation: 2,
+  },
+  profileCardActive: {
+    borderColor: colors.primary,
+  },
+  profileDetails: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  profileUrl: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 2,
+  },
+  healthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  healthDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  healthText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  sectionSpacing: {
+    marginTop: 25,
+    marginBottom: 10,
+  },
+  backupButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  backupButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingVertical: 14,
+    elevation: 2,
+  },
+  backupButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  toggleCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    flexDirection: 'row',
+    alignItems: 'center',
+    elevation: 2,
+  },
+  toggleDetails: {
+    flex: 1,
+    marginRight: 10,
+  },
+  toggleHint: {
+    fontSize: 12,
+    color: colors.gray,
+    marginTop: 4,
+    lineHeight: 17,
+  },
+  formCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 15,
+    marginTop: 10,
+    elevation: 2,
+  },
+  formTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 10,
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thresholdLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 10,
+  },
+  thresholdInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 10,
+    paddingHorizontal: 25,
+    borderRadius: 20,
+  },
+  primaryButtonText: {
+    color: colors.onPrimary,
+    fontWeight: 'bold',
+    fontSize: 15,
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  secondaryButtonText: {
+    color: colors.gray,
+    fontWeight: '600',
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,57 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { ConfidenceBand } from '@/services/confidence';
+import { formatConfidence } from '@/services/prediction';
+
+// Palette keys, so the badges follow the light / dark theme.
+export const BAND_STYLES: { [band in ConfidenceBand]: { color: keyof ThemeColors; background: keyof ThemeColors } } = {
+  confident: { color: 'primary', background: 'secondary' },
+  tentative: { color: 'warning', background: 'adviceBackground' },
+  uncertain: { color: 'danger', background: 'dangerBackground' },
+};
+
+interface ConfidenceBadgeProps {
+  confidence: number;
+  band: ConfidenceBand;
+  large?: boolean;
+}
+
+// Percentage plus the band's name, e.g. "87.5% · Confident".
+export function ConfidenceBadge({ confidence, band, large = false }: ConfidenceBadgeProps) {
+  const colors = useThemeColors();
+  const { t } = useTranslation();
+  const { color, background } = BAND_STYLES[band];
+
+  return (
+    <View style={[styles.badge, large && styles.badgeLarge, { backgroundColor: colors[background] }]}>
+      <Text style={[styles.text, large && styles.textLarge, { color: colors[color] }]}>
+        {formatConfidence(confidence)} · {t(`confidence.${band}`)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  badgeLarge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  text: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  textLarge: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,301 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  Image,
+  Modal,
+  PanResponder,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { Colors } from '@/constants/theme';
+import { useTranslation } from '@/hooks/use-translation';
+import { PreparedImage, SourceImage, prepareForUpload, rotatedSize } from '@/services/image-prep';
+
+// --- THEME COLORS ---
+// Always dark, like a camera viewfinder, whichever theme is picked.
+const COLORS = Colors.dark;
+
+const { width } = Dimensions.get('window');
+const FRAME_SIZE = width - 40;
+const MIN_BOX_SIZE = 60;
+const HANDLE_SIZE = 28;
+
+interface CropBox {
+  x: number;
+  y: number;
+  size: number;
+}
+
+interface CropEditorProps {
+  photo: SourceImage | null;
+  onCancel: () => void;
+  onConfirm: (prepared: PreparedImage) => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Largest square centered on the shown photo.
+const centeredBox = (shownWidth: number, shownHeight: number): CropBox => {
+  const size = Math.min(shownWidth, shownHeight);
+  return { x: (shownWidth - size) / 2, y: (shownHeight - size) / 2, size };
+};
+
+/**
+ * Full-screen step between picking a photo and diagnosing it: the farmer
+ * drags a square over the leaf and can rotate in quarter turns. The result is
+ * cropped, downscaled and compressed by `prepareForUpload`.
+ */
+export function CropEditor({ photo, onCancel, onConfirm }: CropEditorProps) {
+  const { t } = useTranslation();
+  const [rotation, setRotation] = useState(0);
+  const [preparing, setPreparing] = useState(false);
+
+  const rotated = photo ? rotatedSize(photo, rotation) : { width: 1, height: 1 };
+  const scale = Math.min(FRAME_SIZE / rotated.width, FRAME_SIZE / rotated.height);
+  const shownWidth = rotated.width * scale;
+  const shownHeight = rotated.height * scale;
+
+  const [box, setBox] = useState<CropBox>(() => centeredBox(shownWidth, shownHeight));
+
+  // The pan handlers are created once, so they read the latest values here.
+  const boxRef = useRef(box);
+  boxRef.current = box;
+  const boundsRef = useRef({ width: shownWidth, height: shownHeight });
+  boundsRef.current = { width: shownWidth, height: shownHeight };
+  const startRef = useRef(box);
+
+  useEffect(() => {
+    setRotation(0);
+  }, [photo?.uri]);
+
+  // New photo or new rotation: start again from the centered square.
+  useEffect(() => {
+    setBox(centeredBox(shownWidth, shownHeight));
+  }, [photo?.uri, shownWidth, shownHeight]);
+
+  const moveResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        startRef.current = boxRef.current;
+      },
+      onPanResponderMove: (_, gesture) => {
+        const start = startRef.current;
+        const bounds = boundsRef.current;
+        setBox({
+          ...start,
+          x: clamp(start.x + gesture.dx, 0, bounds.width - start.size),
+          y: clamp(start.y + gesture.dy, 0, bounds.height - start.size),
+        });
+      },
+    })
+  ).current;
+
+  const resizeResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        startRef.current = boxRef.current;
+      },
+      onPanResponderMove: (_, gesture) => {
+        const start = startRef.current;
+        const bounds = boundsRef.current;
+        const maxSize = Math.min(bounds.width - start.x, bounds.height - start.y);
+        setBox({ ...start, size: clamp(start.size + Math.max(gesture.dx, gesture.dy), MIN_BOX_SIZE, maxSize) });
+      },
+    })
+  ).current;
+
+  const confirm = async () => {
+    if (!photo) return;
+    const toPixels = rotated.width / shownWidth;
+    const size = Math.min(Math.round(box.size * toPixels), rotated.width, rotated.height);
+
+    setPreparing(true);
+    try {
+      const prepared = await prepareForUpload(photo, {
+        rotation,
+        crop: {
+          originX: clamp(Math.round(box.x * toPixels), 0, rotated.width - size),
+          originY: clamp(Math.round(box.y * toPixels), 0, rotated.height - size),
+          width: size,
+          height: size,
+        },
+      });
+      onConfirm(prepared);
+    } catch (error) {
+      console.error("Failed to prepare photo", error);
+      Alert.alert(t('crop.failedTitle'), t('crop.failedMessage'));
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  // The <Image> keeps the unrotated layout box and is turned around its
+  // center, so it is placed as if unrotated and centered in the frame.
+  const imageWidth = (photo?.width ?? 1) * scale;
+  const imageHeight = (photo?.height ?? 1) * scale;
+
+  return (
+    <Modal animationType="slide" visible={photo !== null} onRequestClose={onCancel}>
+      <View style={styles.container}>
+        <Text style={styles.title}>{t('crop.title')}</Text>
+        <Text style={styles.hint}>{t('crop.hint')}</Text>
+
+        <View style={styles.frame}>
+          <View style={{ width: shownWidth, height: shownHeight }}>
+            {photo && (
+              <Image
+                source={{ uri: photo.uri }}
+                style={{
+                  position: 'absolute',
+                  width: imageWidth,
+                  height: imageHeight,
+                  left: (shownWidth - imageWidth) / 2,
+                  top: (shownHeight - imageHeight) / 2,
+                  transform: [{ rotate: `${rotation}deg` }],
+                }}
+              />
+            )}
+
+            <View
+              style={[styles.cropBox, { left: box.x, top: box.y, width: box.size, height: box.size }]}
+              {...moveResponder.panHandlers}
+            >
+              <View style={styles.resizeHandle} {...resizeResponder.panHandlers}>
+                <MaterialIcons name="open-in-full" size={16} color={COLORS.primary} />
+              </View>
+            </View>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          onPress={() => setRotation((current) => (current + 90) % 360)}
+          style={styles.rotateButton}
+          disabled={preparing}
+        >
+          <MaterialIcons name="rotate-right" size={24} color={COLORS.onPrimary} />
+          <Text style={styles.rotateText}>{t('crop.rotate')}</Text>
+        </TouchableOpacity>
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity onPress={onCancel} style={styles.cancelButton} disabled={preparing}>
+            <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={confirm} style={styles.confirmButton} disabled={preparing}>
+            {preparing ? (
+              <ActivityIndicator color={COLORS.onPrimary} />
+            ) : (
+              <>
+                <Ionicons name="checkmark" size={20} color={COLORS.onPrimary} />
+                <Text style={styles.confirmText}>{t('crop.confirm')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+    paddingTop: 60,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: COLORS.onPrimary,
+  },
+  hint: {
+    fontSize: 13,
+    color: COLORS.gray,
+    textAlign: 'center',
+    marginTop: 6,
+    marginBottom: 20,
+    lineHeight: 18,
+  },
+  frame: {
+    width: FRAME_SIZE,
+    height: FRAME_SIZE,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cropBox: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: COLORS.onPrimary,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  resizeHandle: {
+    position: 'absolute',
+    right: -HANDLE_SIZE / 2,
+    bottom: -HANDLE_SIZE / 2,
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: COLORS.onPrimary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rotateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 25,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.gray,
+  },
+  rotateText: {
+    color: COLORS.onPrimary,
+    fontSize: 15,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 'auto',
+    marginBottom: 40,
+    gap: 15,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 30,
+    borderWidth: 1,
+    borderColor: COLORS.gray,
+  },
+  cancelText: {
+    color: COLORS.onPrimary,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  confirmButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    borderRadius: 30,
+    backgroundColor: COLORS.primary,
+  },
+  confirmText: {
+    color: COLORS.onPrimary,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
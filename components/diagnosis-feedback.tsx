@@ -0,0 +1,170 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { DiseaseLabel, LABELS, isDiseaseLabel } from '@/constants/labels';
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { DiagnosisFeedback as Feedback } from '@/services/history';
+
+interface DiagnosisFeedbackProps {
+  label: string;          // What the model said
+  feedback?: Feedback;
+  onAnswer: (feedback: Feedback) => void;
+}
+
+/**
+ * "Was this correct?" with Yes / No. No asks for the true class, which is
+ * what the dataset export files the photo under.
+ */
+export function DiagnosisFeedback({ label, feedback, onAnswer }: DiagnosisFeedbackProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, diseaseName } = useTranslation();
+  const [editing, setEditing] = useState(false);
+  const [pickingLabel, setPickingLabel] = useState(false);
+
+  const answer = (trueLabel: DiseaseLabel) => {
+    onAnswer({ correct: trueLabel === label, trueLabel, answeredAt: new Date().toISOString() });
+    setEditing(false);
+    setPickingLabel(false);
+  };
+
+  if (feedback && !editing) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.answerRow}>
+          <Ionicons
+            name={feedback.correct ? 'checkmark-circle' : 'create'}
+            size={20}
+            color={feedback.correct ? colors.primary : colors.accent}
+          />
+          <Text style={styles.answerText}>
+            {feedback.correct
+              ? t('feedback.confirmed')
+              : t('feedback.corrected', { label: diseaseName(feedback.trueLabel) })}
+          </Text>
+          <TouchableOpacity onPress={() => setEditing(true)}>
+            <Text style={styles.linkText}>{t('feedback.change')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.answerRow}>
+        <Text style={styles.question}>{t('feedback.question')}</Text>
+        <TouchableOpacity
+          onPress={() => isDiseaseLabel(label) && answer(label)}
+          style={[styles.answerButton, feedback?.correct && styles.answerButtonActive]}
+          disabled={!isDiseaseLabel(label)}
+        >
+          <Ionicons name="thumbs-up" size={16} color={colors.primary} />
+          <Text style={styles.answerButtonText}>{t('feedback.yes')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setPickingLabel(true)}
+          style={[styles.answerButton, pickingLabel && styles.answerButtonActive]}
+        >
+          <Ionicons name="thumbs-down" size={16} color={colors.primary} />
+          <Text style={styles.answerButtonText}>{t('feedback.no')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {pickingLabel && (
+        <>
+          <Text style={styles.pickTitle}>{t('feedback.pickLabel')}</Text>
+          <View style={styles.chipWrap}>
+            {LABELS.filter((option) => option !== label).map((option) => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => answer(option)}
+                style={[styles.chip, feedback?.trueLabel === option && styles.chipActive]}
+              >
+                <Text style={styles.chipText}>{diseaseName(option)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 12,
+    marginBottom: 20,
+  },
+  answerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  question: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  answerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+  },
+  answerButtonActive: {
+    backgroundColor: colors.secondary,
+  },
+  answerButtonText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  answerText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  pickTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  chipActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.secondary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+  },
+});
@@ -0,0 +1,225 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { TranslationKey } from '@/constants/translations/en';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { ExportError, ExportFormat, exportHistory } from '@/services/history-export';
+import { isValidDateKey } from '@/services/history-filters';
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; hint: TranslationKey }[] = [
+  { format: 'csv', label: 'CSV', hint: 'export.csvHint' },
+  { format: 'json', label: 'JSON', hint: 'export.jsonHint' },
+  { format: 'dataset', label: 'Dataset (ZIP)', hint: 'export.datasetHint' },
+];
+
+interface ExportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export function ExportSheet({ visible, onClose }: ExportSheetProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [fromText, setFromText] = useState('');
+  const [toText, setToText] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const runExport = async () => {
+    const from = fromText.trim();
+    const to = toText.trim();
+    if ((from && !isValidDateKey(from)) || (to && !isValidDateKey(to))) {
+      Alert.alert(t('export.invalidDateTitle'), t('export.invalidDateMessage'));
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const count = await exportHistory({ format, fromDate: from || null, toDate: to || null });
+      if (count === 0) {
+        Alert.alert(t('export.emptyTitle'), t(format === 'dataset' ? 'export.datasetEmptyMessage' : 'export.emptyMessage'));
+        return;
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to export history", error);
+      Alert.alert(
+        t('export.failedTitle'),
+        error instanceof ExportError ? t(`export.error.${error.kind}`) : t('export.failedMessage')
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.title}>{t('export.title')}</Text>
+            <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel={t('a11y.close')}>
+              <Ionicons name="close-circle" size={30} color={colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>{t('export.format')}</Text>
+          {FORMAT_OPTIONS.map((option) => {
+            const active = format === option.format;
+            return (
+              <TouchableOpacity
+                key={option.format}
+                style={[styles.formatRow, active && styles.formatRowActive]}
+                onPress={() => setFormat(option.format)}
+              >
+                <MaterialIcons
+                  name={active ? 'radio-button-checked' : 'radio-button-unchecked'}
+                  size={22}
+                  color={active ? colors.primary : colors.gray}
+                />
+                <View style={styles.formatDetails}>
+                  <Text style={styles.formatLabel}>{option.label}</Text>
+                  <Text style={styles.formatHint}>{t(option.hint)}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+
+          <Text style={styles.label}>{t('export.dateRange')}</Text>
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={styles.rangeInput}
+              placeholder={t('filters.from')}
+              placeholderTextColor={colors.gray}
+              value={fromText}
+              onChangeText={setFromText}
+            />
+            <Text style={styles.rangeDash}>–</Text>
+            <TextInput
+              style={styles.rangeInput}
+              placeholder={t('filters.to')}
+              placeholderTextColor={colors.gray}
+              value={toText}
+              onChangeText={setToText}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.exportButton} onPress={runExport} disabled={exporting}>
+            {exporting ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <>
+                <MaterialIcons name="ios-share" size={20} color={colors.onPrimary} />
+                <Text style={styles.exportButtonText}>{t('export.button')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 35,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 5,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  formatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 8,
+  },
+  formatRowActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.secondary,
+  },
+  formatDetails: {
+    marginLeft: 10,
+  },
+  formatLabel: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  formatHint: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rangeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    fontSize: 13,
+    color: colors.text,
+  },
+  rangeDash: {
+    marginHorizontal: 8,
+    color: colors.gray,
+  },
+  exportButton: {
+    backgroundColor: colors.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 30,
+    marginTop: 20,
+  },
+  exportButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { TranslationKey } from '@/constants/translations/en';
+import { useThemeColors } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { FieldHealth } from '@/services/fields';
+
+const HEALTH_STYLES: {
+  [key in FieldHealth]: { label: TranslationKey; color: keyof ThemeColors; background: keyof ThemeColors };
+} = {
+  healthy: { label: 'fields.health.healthy', color: 'primary', background: 'secondary' },
+  diseased: { label: 'fields.health.diseased', color: 'danger', background: 'dangerBackground' },
+  unknown: { label: 'fields.health.unknown', color: 'gray', background: 'neutralBackground' },
+};
+
+export function FieldHealthBadge({ health }: { health: FieldHealth }) {
+  const colors = useThemeColors();
+  const { t } = useTranslation();
+  const { label, color, background } = HEALTH_STYLES[health];
+
+  return (
+    <View style={[styles.badge, { backgroundColor: colors[background] }]}>
+      <Text style={[styles.text, { color: colors[color] }]}>{t(label)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,97 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useFields } from '@/hooks/use-fields';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface FieldPickerProps {
+  selectedId: string | null;
+  onSelect: (fieldId: string | null) => void;
+  label?: string;
+}
+
+export function FieldPicker({ selectedId, onSelect, label }: FieldPickerProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const fields = useFields();
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label ?? t('fieldPicker.label')}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        <TouchableOpacity
+          onPress={() => onSelect(null)}
+          style={[styles.chip, selectedId === null && styles.chipActive]}
+        >
+          <Text style={[styles.chipText, selectedId === null && styles.chipTextActive]}>{t('fieldPicker.none')}</Text>
+        </TouchableOpacity>
+
+        {fields.map((field) => (
+          <TouchableOpacity
+            key={field.id}
+            onPress={() => onSelect(field.id)}
+            style={[styles.chip, selectedId === field.id && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, selectedId === field.id && styles.chipTextActive]}>{field.name}</Text>
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity onPress={() => router.push('/fields/edit')} style={[styles.chip, styles.addChip]}>
+          <MaterialIcons name="add" size={16} color={colors.primary} />
+          <Text style={styles.addText}>{t('fieldPicker.new')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray,
+    marginBottom: 8,
+  },
+  row: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    backgroundColor: colors.secondary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  addChip: {
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+  },
+  addText: {
+    fontSize: 13,
+    color: colors.primary,
+    marginLeft: 2,
+  },
+});
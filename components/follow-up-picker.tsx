@@ -0,0 +1,145 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useReminders } from '@/hooks/use-reminders';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { HistoryItem } from '@/services/history';
+import {
+  FOLLOW_UP_DAYS,
+  ReminderError,
+  cancelReminder,
+  followUpDate,
+  isPending,
+  scheduleFollowUp,
+} from '@/services/reminders';
+
+interface FollowUpPickerProps {
+  scan: Pick<HistoryItem, 'id' | 'label' | 'fieldId'>;
+}
+
+/**
+ * "Remind me to re-scan in 3 / 7 / 14 days" for a saved scan, or its pending
+ * reminder with Change / Cancel once one is set.
+ */
+export function FollowUpPicker({ scan }: FollowUpPickerProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
+  const reminders = useReminders();
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const reminder = reminders.find((item) => item.historyId === scan.id && isPending(item));
+
+  const schedule = async (days: number) => {
+    setSaving(true);
+    try {
+      await scheduleFollowUp(scan, followUpDate(days));
+      setEditing(false);
+    } catch (error) {
+      if (error instanceof ReminderError) {
+        Alert.alert(t('followUp.deniedTitle'), t('followUp.deniedMessage'));
+      } else {
+        console.error("Failed to schedule reminder", error);
+        Alert.alert(t('followUp.failedTitle'), t('followUp.failedMessage'));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (reminder && !editing) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.row}>
+          <Ionicons name="alarm" size={20} color={colors.primary} />
+          <Text style={styles.scheduledText}>
+            {t('followUp.scheduled', { date: formatDate(reminder.dueAt) })}
+          </Text>
+          <TouchableOpacity onPress={() => setEditing(true)}>
+            <Text style={styles.linkText}>{t('followUp.change')}</Text>
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity onPress={() => cancelReminder(reminder.id)} style={styles.cancelButton}>
+          <Text style={styles.cancelText}>{t('followUp.cancel')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Ionicons name="alarm-outline" size={20} color={colors.gray} />
+        <Text style={styles.prompt}>{t('followUp.prompt')}</Text>
+        {saving && <ActivityIndicator size="small" color={colors.primary} />}
+      </View>
+      <View style={styles.chipRow}>
+        {FOLLOW_UP_DAYS.map((days) => (
+          <TouchableOpacity key={days} onPress={() => schedule(days)} style={styles.chip} disabled={saving}>
+            <Text style={styles.chipText}>{t('followUp.inDays', { count: days })}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 12,
+    marginBottom: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  prompt: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  scheduledText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  cancelButton: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    marginLeft: 28,
+  },
+  cancelText: {
+    fontSize: 13,
+    color: colors.danger,
+  },
+});
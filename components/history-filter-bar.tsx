@@ -0,0 +1,398 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { DiseaseLabel, LABELS } from '@/constants/labels';
+import { ThemeColors } from '@/constants/theme';
+import { TranslationKey } from '@/constants/translations/en';
+import { useFields } from '@/hooks/use-fields';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { CONFIDENCE_BANDS, ConfidenceBand } from '@/services/confidence';
+import {
+  DEFAULT_HISTORY_FILTERS,
+  HistoryFilters,
+  HistorySortField,
+  countActiveFilters,
+  isValidDateKey,
+  toDateKey,
+} from '@/services/history-filters';
+
+const DATE_PRESETS = [7, 30, 90, 365]; // Days back from today
+
+const SORT_OPTIONS: { field: HistorySortField; label: TranslationKey }[] = [
+  { field: 'date', label: 'filters.sort.date' },
+  { field: 'confidence', label: 'filters.sort.confidence' },
+  { field: 'disease', label: 'filters.sort.disease' },
+];
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+  resultCount: number | null; // Null while the unfiltered list is paging
+}
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <TouchableOpacity onPress={onPress} style={[styles.chip, active && styles.chipActive]}>
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const parsePercent = (value: string) => {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(Math.max(number, 0), 100) : null;
+};
+
+export function HistoryFilterBar({ filters, onChange, resultCount }: HistoryFilterBarProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const fields = useFields();
+  const { t, tn, diseaseName } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+  // Date and confidence fields are edited as text and applied once valid.
+  const [fromText, setFromText] = useState(filters.fromDate ?? '');
+  const [toText, setToText] = useState(filters.toDate ?? '');
+  const [minText, setMinText] = useState(filters.minConfidence?.toString() ?? '');
+  const [maxText, setMaxText] = useState(filters.maxConfidence?.toString() ?? '');
+
+  const activeCount = countActiveFilters(filters);
+  const update = (changes: Partial<HistoryFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleLabel = (label: DiseaseLabel) => {
+    update({
+      labels: filters.labels.includes(label)
+        ? filters.labels.filter((item) => item !== label)
+        : [...filters.labels, label],
+    });
+  };
+
+  const toggleBand = (band: ConfidenceBand) => {
+    update({
+      bands: filters.bands.includes(band)
+        ? filters.bands.filter((item) => item !== band)
+        : [...filters.bands, band],
+    });
+  };
+
+  const applyDatePreset = (days: number) => {
+    const from = new Date();
+    from.setDate(from.getDate() - days);
+    const fromDate = toDateKey(from);
+    setFromText(fromDate);
+    setToText('');
+    update({ fromDate, toDate: null });
+  };
+
+  const applyDateText = (from: string, to: string) => {
+    update({
+      fromDate: isValidDateKey(from) ? from : null,
+      toDate: isValidDateKey(to) ? to : null,
+    });
+  };
+
+  const applySort = (field: HistorySortField) => {
+    if (filters.sortBy === field) {
+      update({ sortDirection: filters.sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      // Most useful first: newest, most confident, A-Z.
+      update({ sortBy: field, sortDirection: field === 'disease' ? 'asc' : 'desc' });
+    }
+  };
+
+  const resetAll = () => {
+    setFromText('');
+    setToText('');
+    setMinText('');
+    setMaxText('');
+    onChange(DEFAULT_HISTORY_FILTERS);
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Search + filter toggle */}
+      <View style={styles.searchRow}>
+        <View style={styles.searchBox}>
+          <Ionicons name="search" size={18} color={colors.gray} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder={t('filters.search')}
+            placeholderTextColor={colors.gray}
+            value={filters.query}
+            onChangeText={(query) => update({ query })}
+            returnKeyType="search"
+          />
+          {filters.query !== '' && (
+            <TouchableOpacity
+              onPress={() => update({ query: '' })}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.clearSearch')}
+            >
+              <Ionicons name="close-circle" size={18} color={colors.gray} />
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity
+          onPress={() => setExpanded((value) => !value)}
+          style={styles.filterButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.filters')}
+          accessibilityState={{ expanded }}
+        >
+          <MaterialIcons name="tune" size={22} color={colors.primary} />
+          {activeCount > 0 && (
+            <View style={styles.countBadge}>
+              <Text style={styles.countText}>{activeCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {expanded && (
+        <View style={styles.panel}>
+          <Text style={styles.panelLabel}>{t('filters.disease')}</Text>
+          <View style={styles.chipWrap}>
+            {LABELS.map((label) => (
+              <Chip key={label} label={diseaseName(label)} active={filters.labels.includes(label)} onPress={() => toggleLabel(label)} />
+            ))}
+          </View>
+
+          {fields.length > 0 && (
+            <>
+              <Text style={styles.panelLabel}>{t('filters.field')}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                <Chip label={t('filters.allFields')} active={filters.fieldId === null} onPress={() => update({ fieldId: null })} />
+                {fields.map((field) => (
+                  <Chip
+                    key={field.id}
+                    label={field.name}
+                    active={filters.fieldId === field.id}
+                    onPress={() => update({ fieldId: field.id })}
+                  />
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          <Text style={styles.panelLabel}>{t('filters.date')}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {DATE_PRESETS.map((days) => (
+              <Chip
+                key={days}
+                label={days === 365 ? t('filters.year') : t('filters.days', { count: days })}
+                active={false}
+                onPress={() => applyDatePreset(days)}
+              />
+            ))}
+          </ScrollView>
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={styles.rangeInput}
+              placeholder={t('filters.from')}
+              placeholderTextColor={colors.gray}
+              value={fromText}
+              onChangeText={setFromText}
+              onEndEditing={() => applyDateText(fromText, toText)}
+            />
+            <Text style={styles.rangeDash}>–</Text>
+            <TextInput
+              style={styles.rangeInput}
+              placeholder={t('filters.to')}
+              placeholderTextColor={colors.gray}
+              value={toText}
+              onChangeText={setToText}
+              onEndEditing={() => applyDateText(fromText, toText)}
+            />
+          </View>
+
+          <Text style={styles.panelLabel}>{t('filters.confidence')}</Text>
+          <View style={styles.rangeRow}>
+            <TextInput
+              style={styles.rangeInput}
+              placeholder={t('filters.min')}
+              placeholderTextColor={colors.gray}
+              keyboardType="numeric"
+              value={minText}
+              onChangeText={setMinText}
+              onEndEditing={() => update({ minConfidence: parsePercent(minText) })}
+            />
+            <Text style={styles.rangeDash}>–</Text>
+            <TextInput
+              style={styles.rangeInput}
+              placeholder={t('filters.max')}
+              placeholderTextColor={colors.gray}
+              keyboardType="numeric"
+              value={maxText}
+              onChangeText={setMaxText}
+              onEndEditing={() => update({ maxConfidence: parsePercent(maxText) })}
+            />
+          </View>
+
+          <Text style={styles.panelLabel}>{t('filters.band')}</Text>
+          <View style={styles.chipWrap}>
+            {CONFIDENCE_BANDS.map((band) => (
+              <Chip
+                key={band}
+                label={t(`confidence.${band}`)}
+                active={filters.bands.includes(band)}
+                onPress={() => toggleBand(band)}
+              />
+            ))}
+          </View>
+
+          <Text style={styles.panelLabel}>{t('filters.sortBy')}</Text>
+          <View style={styles.chipWrap}>
+            {SORT_OPTIONS.map((option) => {
+              const active = filters.sortBy === option.field;
+              const arrow = filters.sortDirection === 'asc' ? ' ↑' : ' ↓';
+              return (
+                <Chip
+                  key={option.field}
+                  label={`${t(option.label)}${active ? arrow : ''}`}
+                  active={active}
+                  onPress={() => applySort(option.field)}
+                />
+              );
+            })}
+          </View>
+
+          <View style={styles.panelFooter}>
+            <Text style={styles.resultText}>
+              {resultCount !== null ? tn('filters.matchCount', resultCount) : ''}
+            </Text>
+            <TouchableOpacity onPress={resetAll}>
+              <Text style={styles.resetText}>{t('filters.reset')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    marginBottom: 10,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    elevation: 1,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+    fontSize: 14,
+    color: colors.text,
+  },
+  filterButton: {
+    backgroundColor: colors.surface,
+    borderRadius: 10,
+    padding: 8,
+    elevation: 1,
+  },
+  countBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    minWidth: 16,
+    height: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countText: {
+    color: colors.onPrimary,
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  panel: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+    elevation: 2,
+  },
+  panelLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.gray,
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chipRow: {
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipActive: {
+    backgroundColor: colors.secondary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  rangeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+    color: colors.text,
+  },
+  rangeDash: {
+    marginHorizontal: 8,
+    color: colors.gray,
+  },
+  panelFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  resultText: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  resetText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,107 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { ScanImage } from '@/components/scan-image';
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatConfidence } from '@/services/prediction';
+
+const PHOTO_SIZE = 90;
+
+interface PlantPhotoResultsProps {
+  photos: { imageUri: string; label: string; confidence: number }[];
+  label: string;      // The consensus
+  agreement: number;
+}
+
+/**
+ * Agreement line plus a row of every plant-mode photo with its own result,
+ * so the farmer can see which photos disagreed with the consensus.
+ */
+export function PlantPhotoResults({ photos, label, agreement }: PlantPhotoResultsProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, diseaseName } = useTranslation();
+  const unanimous = agreement === photos.length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.agreementRow}>
+        <Ionicons
+          name={unanimous ? 'checkmark-done' : 'git-compare-outline'}
+          size={18}
+          color={unanimous ? colors.primary : colors.accent}
+        />
+        <Text style={[styles.agreementText, { color: unanimous ? colors.primary : colors.accent }]}>
+          {t('plant.agreement', { agreement, total: photos.length })}
+        </Text>
+      </View>
+
+      <Text style={styles.title}>{t('plant.photos')}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photoRow}>
+        {photos.map((photo, index) => (
+          <View key={`${photo.imageUri}-${index}`} style={styles.photoCell}>
+            <ScanImage uri={photo.imageUri} style={styles.photo} compact />
+            <Text
+              style={[styles.photoLabel, photo.label !== label && styles.photoLabelOther]}
+              numberOfLines={2}
+            >
+              {diseaseName(photo.label)}
+            </Text>
+            <Text style={styles.photoMeta}>{formatConfidence(photo.confidence)}</Text>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  agreementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  agreementText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray,
+    marginBottom: 8,
+  },
+  photoRow: {
+    gap: 10,
+  },
+  photoCell: {
+    width: PHOTO_SIZE,
+  },
+  photo: {
+    width: PHOTO_SIZE,
+    height: PHOTO_SIZE,
+    borderRadius: 10,
+    backgroundColor: colors.imagePlaceholder,
+  },
+  photoLabel: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 4,
+  },
+  photoLabelOther: {
+    color: colors.accent,
+  },
+  photoMeta: {
+    fontSize: 11,
+    color: colors.gray,
+    marginTop: 2,
+  },
+});
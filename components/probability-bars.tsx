@@ -0,0 +1,121 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { ClassProbability, formatConfidence } from '@/services/prediction';
+
+// Top two classes closer than this (in percentage points) count as a close call.
+const CLOSE_CALL_MARGIN = 15;
+
+interface ProbabilityBarsProps {
+  probabilities: ClassProbability[];
+}
+
+export function ProbabilityBars({ probabilities }: ProbabilityBarsProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, diseaseName } = useTranslation();
+  if (probabilities.length === 0) return null;
+
+  const [first, second] = probabilities;
+  const isCloseCall = second !== undefined && first.confidence - second.confidence < CLOSE_CALL_MARGIN;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('probabilities.title')}</Text>
+
+      {isCloseCall && (
+        <View style={styles.closeCallBox}>
+          <Ionicons name="warning-outline" size={16} color={colors.accent} />
+          <Text style={styles.closeCallText}>
+            {t('probabilities.closeCall', { first: diseaseName(first.label), second: diseaseName(second.label) })}
+          </Text>
+        </View>
+      )}
+
+      {probabilities.map((item, index) => (
+        <View key={item.label} style={styles.row}>
+          <View style={styles.labelRow}>
+            <Text style={[styles.label, index === 0 && styles.topLabel]} numberOfLines={1}>
+              {diseaseName(item.label)}
+            </Text>
+            <Text style={styles.value}>{formatConfidence(item.confidence)}</Text>
+          </View>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.bar,
+                {
+                  width: `${Math.min(Math.max(item.confidence, 0), 100)}%`,
+                  backgroundColor: index === 0 ? colors.primary : colors.gray,
+                },
+              ]}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.gray,
+    marginBottom: 10,
+  },
+  closeCallBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.adviceBackground,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 10,
+    gap: 6,
+  },
+  closeCallText: {
+    flex: 1,
+    fontSize: 12,
+    color: colors.adviceText,
+  },
+  row: {
+    marginBottom: 8,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 3,
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text,
+  },
+  topLabel: {
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  value: {
+    fontSize: 12,
+    color: colors.gray,
+    marginLeft: 8,
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.track,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+  },
+});
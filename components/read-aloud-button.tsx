@@ -0,0 +1,88 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useSpeech } from '@/hooks/use-speech';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { getSpeechState, pauseReading, readAloud, resumeReading, stopReading } from '@/services/speech';
+
+interface ReadAloudButtonProps {
+  id: string;                     // Which card is playing, so only it shows pause / stop
+  text: string;                   // Sentences or lines, read in the app language
+}
+
+/**
+ * Speaker button that reads `text` aloud, then pause / continue and stop
+ * while it plays. Reading stops when the button leaves the screen.
+ */
+export function ReadAloudButton({ id, text }: ReadAloudButtonProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { language, t } = useTranslation();
+  const speech = useSpeech();
+
+  const active = speech.id === id && speech.status !== 'idle';
+
+  useEffect(
+    () => () => {
+      if (getSpeechState().id === id) stopReading();
+    },
+    [id]
+  );
+
+  if (!active) {
+    return (
+      <TouchableOpacity
+        onPress={() => readAloud(id, text, language)}
+        style={styles.button}
+        accessibilityRole="button"
+        accessibilityLabel={t('speech.listen')}
+      >
+        <Ionicons name="volume-high" size={22} color={colors.primary} />
+      </TouchableOpacity>
+    );
+  }
+
+  const paused = speech.status === 'paused';
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity
+        onPress={paused ? resumeReading : pauseReading}
+        style={[styles.button, styles.buttonActive]}
+        accessibilityRole="button"
+        accessibilityLabel={t(paused ? 'speech.resume' : 'speech.pause')}
+      >
+        <Ionicons name={paused ? 'play' : 'pause'} size={20} color={colors.onPrimary} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        onPress={stopReading}
+        style={styles.button}
+        accessibilityRole="button"
+        accessibilityLabel={t('speech.stop')}
+      >
+        <Ionicons name="stop" size={20} color={colors.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  button: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonActive: {
+    backgroundColor: colors.primary,
+  },
+});
@@ -0,0 +1,233 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { TranslationKey } from '@/constants/translations/en';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { ConflictPolicy, RestoreMode, RestorePreview, restoreBackup } from '@/services/backup';
+
+type RestoreChoice = { mode: RestoreMode; onConflict: ConflictPolicy; label: TranslationKey; hint: TranslationKey };
+
+const CHOICES: RestoreChoice[] = [
+  { mode: 'merge', onConflict: 'keep', label: 'restore.mergeKeep', hint: 'restore.mergeKeepHint' },
+  { mode: 'merge', onConflict: 'overwrite', label: 'restore.mergeOverwrite', hint: 'restore.mergeOverwriteHint' },
+  { mode: 'replace', onConflict: 'overwrite', label: 'restore.replace', hint: 'restore.replaceHint' },
+];
+
+interface RestoreSheetProps {
+  preview: RestorePreview | null;
+  onClose: () => void;
+}
+
+export function RestoreSheet({ preview, onClose }: RestoreSheetProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, tn, formatDate } = useTranslation();
+  const [choice, setChoice] = useState(0);
+  const [restoring, setRestoring] = useState(false);
+
+  const close = () => {
+    setChoice(0);
+    onClose();
+  };
+
+  const runRestore = async () => {
+    if (!preview) return;
+    const { mode, onConflict } = CHOICES[choice];
+
+    setRestoring(true);
+    try {
+      const { restored, kept } = await restoreBackup(preview, mode, onConflict);
+      close();
+      Alert.alert(
+        t('restore.completeTitle'),
+        tn('restore.restored', restored) + (kept > 0 ? ` ${tn('restore.kept', kept)}` : '')
+      );
+    } catch (error) {
+      console.error("Failed to restore backup", error);
+      Alert.alert(t('restore.failedTitle'), t('restore.failedMessage'));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (CHOICES[choice].mode !== 'replace') {
+      runRestore();
+      return;
+    }
+    Alert.alert(
+      t('restore.replaceTitle'),
+      t('restore.replaceMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('restore.replaceConfirm'), style: 'destructive', onPress: runRestore },
+      ]
+    );
+  };
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={preview !== null} onRequestClose={close}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <Text style={styles.title}>{t('restore.title')}</Text>
+            <TouchableOpacity
+              onPress={close}
+              disabled={restoring}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.close')}
+            >
+              <Ionicons name="close-circle" size={30} color={colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          {preview && (
+            <>
+              <Text style={styles.summaryText}>
+                {preview.fields.length > 0
+                  ? t('restore.contents', {
+                      scans: tn('restore.scans', preview.entries.length),
+                      fields: tn('restore.fields', preview.fields.length),
+                    })
+                  : tn('restore.scans', preview.entries.length)}
+              </Text>
+              {preview.createdAt && (
+                <Text style={styles.summaryText}>{t('restore.backedUp', { date: formatDate(preview.createdAt) })}</Text>
+              )}
+              {preview.conflicts.length > 0 && (
+                <Text style={[styles.summaryText, { color: colors.accent }]}>
+                  {tn('restore.conflicts', preview.conflicts.length)}
+                </Text>
+              )}
+              {preview.skipped > 0 && (
+                <Text style={[styles.summaryText, { color: colors.danger }]}>
+                  {tn('restore.skipped', preview.skipped)}
+                </Text>
+              )}
+
+              {CHOICES.map((option, index) => {
+                // With no overlap both merge options do the same thing.
+                if (preview.conflicts.length === 0 && index === 1) return null;
+                const active = choice === index;
+                return (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.choiceRow, active && styles.choiceRowActive]}
+                    onPress={() => setChoice(index)}
+                  >
+                    <MaterialIcons
+                      name={active ? 'radio-button-checked' : 'radio-button-unchecked'}
+                      size={22}
+                      color={active ? colors.primary : colors.gray}
+                    />
+                    <View style={styles.choiceDetails}>
+                      <Text style={styles.choiceLabel}>{t(option.label)}</Text>
+                      <Text style={styles.choiceHint}>{t(option.hint)}</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+
+              <TouchableOpacity
+                style={[styles.restoreButton, preview.entries.length === 0 && styles.restoreButtonDisabled]}
+                onPress={confirmRestore}
+                disabled={restoring || preview.entries.length === 0}
+              >
+                {restoring ? (
+                  <ActivityIndicator color={colors.onPrimary} />
+                ) : (
+                  <Text style={styles.restoreButtonText}>{t('restore.button')}</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 35,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 6,
+    lineHeight: 20,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    padding: 10,
+    marginTop: 8,
+  },
+  choiceRowActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.secondary,
+  },
+  choiceDetails: {
+    marginLeft: 10,
+    flex: 1,
+  },
+  choiceLabel: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  choiceHint: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  restoreButton: {
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 30,
+    marginTop: 20,
+  },
+  restoreButtonDisabled: {
+    opacity: 0.5,
+  },
+  restoreButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
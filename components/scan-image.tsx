@@ -0,0 +1,49 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Image, ImageStyle, StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { fileExists } from '@/services/file-storage';
+
+interface ScanImageProps {
+  uri: string;
+  style: StyleProp<ImageStyle>;
+  compact?: boolean; // Thumbnails: icon only, no caption
+}
+
+/**
+ * Shows a saved scan photo, or a "photo missing" placeholder when the file
+ * was deleted or never copied into app storage.
+ */
+export function ScanImage({ uri, style, compact = false }: ScanImageProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const [failed, setFailed] = useState(false);
+
+  if (failed || !fileExists(uri)) {
+    return (
+      <View style={[style as StyleProp<ViewStyle>, styles.placeholder]}>
+        <MaterialIcons name="broken-image" size={compact ? 28 : 48} color={colors.muted} />
+        {!compact && <Text style={styles.placeholderText}>{t('common.photoMissing')}</Text>}
+      </View>
+    );
+  }
+
+  return <Image source={{ uri }} style={style} onError={() => setFailed(true)} />;
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  placeholder: {
+    backgroundColor: colors.imagePlaceholder,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholderText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: colors.gray,
+  },
+});
@@ -0,0 +1,151 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { TranslationKey } from '@/constants/translations/en';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatConfidence } from '@/services/prediction';
+import { QueuedScan, ScanStatus, removeScan, retryScan } from '@/services/scan-queue';
+
+const STATUS_LABELS: { [key in ScanStatus]: TranslationKey } = {
+  pending: 'queue.status.pending',
+  uploading: 'queue.status.uploading',
+  failed: 'queue.status.failed',
+  done: 'queue.status.done',
+};
+
+const STATUS_COLORS: { [key in ScanStatus]: keyof ThemeColors } = {
+  pending: 'gray',
+  uploading: 'primary',
+  failed: 'accent',
+  done: 'primary',
+};
+
+interface ScanQueueListProps {
+  items: QueuedScan[];
+}
+
+export function ScanQueueList({ items }: ScanQueueListProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, diseaseName, formatDate, formatTime } = useTranslation();
+
+  const describeScan = (item: QueuedScan) => {
+    if (item.status === 'done') {
+      return `${diseaseName(item.label ?? '')} (${formatConfidence(item.confidence ?? 0)})`;
+    }
+    if (item.status === 'failed' && item.nextAttemptAt) {
+      return t('queue.attemptFailed', { attempts: item.attempts, time: formatTime(item.nextAttemptAt) });
+    }
+    if (item.status === 'failed') {
+      return t('queue.failedRetry', { error: item.lastError ?? t('queue.diagnosisFailed') });
+    }
+    if (item.status === 'uploading') {
+      return t('queue.uploading');
+    }
+    return t('queue.pending');
+  };
+
+  return (
+    <View style={styles.container}>
+      {items.map((item) => (
+        <View key={item.id} style={styles.row}>
+          <Image source={{ uri: item.imageUri }} style={styles.thumbnail} />
+
+          <View style={styles.details}>
+            <View style={styles.headerRow}>
+              <Text style={styles.dateText}>{formatDate(item.createdAt)}</Text>
+              <View style={[styles.statusBadge, { borderColor: colors[STATUS_COLORS[item.status]] }]}>
+                <Text style={[styles.statusText, { color: colors[STATUS_COLORS[item.status]] }]}>
+                  {t(STATUS_LABELS[item.status])}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.description} numberOfLines={2}>
+              {describeScan(item)}
+            </Text>
+          </View>
+
+          {item.status === 'failed' && (
+            <TouchableOpacity
+              onPress={() => retryScan(item.id)}
+              style={styles.iconButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.retryScan')}
+            >
+              <MaterialIcons name="refresh" size={22} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+          {item.status !== 'uploading' && (
+            <TouchableOpacity
+              onPress={() => removeScan(item.id)}
+              style={styles.iconButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.removeScan')}
+            >
+              <Ionicons name="close" size={22} color={colors.gray} />
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 8,
+    marginBottom: 10,
+    elevation: 2,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+  },
+  thumbnail: {
+    width: 50,
+    height: 50,
+    borderRadius: 8,
+    backgroundColor: colors.imagePlaceholder,
+  },
+  details: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  dateText: {
+    fontSize: 11,
+    color: colors.gray,
+  },
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  statusText: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  description: {
+    fontSize: 12,
+    color: colors.text,
+  },
+  iconButton: {
+    padding: 6,
+  },
+});
@@ -0,0 +1,39 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { DiseaseSeverity } from '@/constants/disease-library';
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+
+const SEVERITY_STYLES: { [key in DiseaseSeverity]: { color: keyof ThemeColors; background: keyof ThemeColors } } = {
+  none: { color: 'primary', background: 'secondary' },
+  low: { color: 'caution', background: 'cautionBackground' },
+  moderate: { color: 'warning', background: 'adviceBackground' },
+  high: { color: 'danger', background: 'dangerBackground' },
+};
+
+export function SeverityBadge({ severity }: { severity: DiseaseSeverity }) {
+  const colors = useThemeColors();
+  const { t } = useTranslation();
+  const { color, background } = SEVERITY_STYLES[severity];
+
+  return (
+    <View style={[styles.badge, { backgroundColor: colors[background] }]}>
+      <Text style={[styles.text, { color: colors[color] }]}>{t(`library.severity.${severity}`)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,207 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+
+// Plain-View charts: no SVG or web chart library, so they render the same on
+// Android, iOS and web and need no network.
+
+export interface BarRow {
+  key: string;
+  label: string;
+  value: number;
+  display: string; // Text shown at the end of the bar
+  color?: string;
+}
+
+export function HorizontalBarChart({ rows, max }: { rows: BarRow[]; max?: number }) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const scale = max ?? Math.max(...rows.map((row) => row.value), 1);
+
+  return (
+    <View>
+      {rows.map((row) => (
+        <View key={row.key} style={styles.barRow}>
+          <Text style={styles.barLabel} numberOfLines={1}>{row.label}</Text>
+          <View style={styles.barTrack}>
+            <View
+              style={[
+                styles.barFill,
+                { width: `${(row.value / scale) * 100}%`, backgroundColor: row.color ?? colors.primary },
+              ]}
+            />
+          </View>
+          <Text style={styles.barValue}>{row.display}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export interface Column {
+  key: string;
+  label: string;
+  value: number;
+}
+
+const COLUMN_CHART_HEIGHT = 120;
+
+export function ColumnChart({ columns }: { columns: Column[] }) {
+  const styles = useThemedStyles(createStyles);
+  const { tn } = useTranslation();
+  const max = Math.max(...columns.map((column) => column.value), 1);
+  // Label the first, middle and last columns so long windows stay readable.
+  const axisLabels = [...new Set([0, Math.floor((columns.length - 1) / 2), columns.length - 1])]
+    .filter((index) => index >= 0)
+    .map((index) => columns[index]);
+
+  return (
+    <View>
+      <View style={styles.columnArea}>
+        {columns.map((column) => (
+          <View key={column.key} style={styles.columnSlot}>
+            <View
+              style={[
+                styles.column,
+                { height: (column.value / max) * COLUMN_CHART_HEIGHT, opacity: column.value > 0 ? 1 : 0 },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.columnLabels}>
+        {axisLabels.map((column) => (
+          <Text key={column.key} style={styles.columnLabel}>{column.label}</Text>
+        ))}
+      </View>
+      <Text style={styles.axisNote}>{tn('stats.peak', max)}</Text>
+    </View>
+  );
+}
+
+export interface RatioSegment {
+  key: string;
+  label: string;
+  value: number;
+  color: string;
+}
+
+export function RatioBar({ segments }: { segments: RatioSegment[] }) {
+  const styles = useThemedStyles(createStyles);
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+
+  return (
+    <View>
+      <View style={styles.ratioTrack}>
+        {total > 0 &&
+          segments.map((segment) => (
+            <View key={segment.key} style={{ flex: segment.value, backgroundColor: segment.color }} />
+          ))}
+      </View>
+      <View style={styles.legend}>
+        {segments.map((segment) => (
+          <View key={segment.key} style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: segment.color }]} />
+            <Text style={styles.legendText}>
+              {segment.label}: {segment.value}
+              {total > 0 ? ` (${Math.round((segment.value / total) * 100)}%)` : ''}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  barLabel: {
+    width: 120,
+    fontSize: 12,
+    color: colors.text,
+  },
+  barTrack: {
+    flex: 1,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.track,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 12,
+    borderRadius: 6,
+  },
+  barValue: {
+    width: 56,
+    textAlign: 'right',
+    fontSize: 12,
+    color: colors.gray,
+  },
+  columnArea: {
+    height: COLUMN_CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.track,
+  },
+  columnSlot: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  column: {
+    width: '80%',
+    minHeight: 2,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+    backgroundColor: colors.primary,
+  },
+  columnLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  columnLabel: {
+    fontSize: 10,
+    color: colors.gray,
+  },
+  axisNote: {
+    marginTop: 6,
+    fontSize: 11,
+    color: colors.gray,
+    textAlign: 'right',
+  },
+  ratioTrack: {
+    flexDirection: 'row',
+    height: 18,
+    borderRadius: 9,
+    overflow: 'hidden',
+    backgroundColor: colors.track,
+  },
+  legend: {
+    marginTop: 10,
+    gap: 4,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+});
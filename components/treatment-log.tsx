@@ -0,0 +1,336 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemeColors } from '@/constants/theme';
+import { useThemeColors, useThemedStyles } from '@/hooks/use-theme-color';
+import { useTranslation } from '@/hooks/use-translation';
+import { HistoryItem, Treatment, getAllHistory } from '@/services/history';
+import { toDateKey } from '@/services/history-filters';
+import {
+  TreatmentError,
+  TreatmentOutcome,
+  addTreatment,
+  buildTreatmentTimeline,
+  deleteTreatment,
+  getTreatmentOutcome,
+} from '@/services/treatments';
+
+const OUTCOME_COLORS: { [key in TreatmentOutcome]: keyof ThemeColors } = {
+  cleared: 'primary',
+  persisted: 'danger',
+  changed: 'accent',
+  pending: 'gray',
+};
+
+interface TreatmentLogProps {
+  item: HistoryItem;
+  onChange: (updated: HistoryItem) => void;
+  onOpenScan: (item: HistoryItem) => void;
+}
+
+const emptyForm = () => ({ product: '', activeIngredient: '', dose: '', appliedOn: toDateKey(new Date()), cost: '' });
+
+/**
+ * Before/after timeline for one scan: the scan, each logged treatment with
+ * what the latest later scan showed, and those later scans. Also holds the
+ * form for logging a treatment.
+ */
+export function TreatmentLog({ item, onChange, onOpenScan }: TreatmentLogProps) {
+  const colors = useThemeColors();
+  const styles = useThemedStyles(createStyles);
+  const { t, diseaseName } = useTranslation();
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [adding, setAdding] = useState(false);
+
+  // Later scans can be anywhere in history, not just the loaded page.
+  useEffect(() => {
+    getAllHistory()
+      .then(setHistory)
+      .catch((error) => console.error("Failed to load history", error));
+  }, [item.id]);
+
+  const timeline = buildTreatmentTimeline(item, history);
+
+  const save = async () => {
+    try {
+      const cost = form.cost.trim();
+      const updated = await addTreatment(item.id, {
+        product: form.product,
+        activeIngredient: form.activeIngredient,
+        dose: form.dose,
+        appliedOn: form.appliedOn.trim(),
+        cost: cost ? Number(cost.replace(',', '.')) : undefined,
+      });
+      if (updated) onChange(updated);
+      setForm(emptyForm());
+      setAdding(false);
+    } catch (error) {
+      if (error instanceof TreatmentError) {
+        Alert.alert(t('treatment.invalidTitle'), t(`treatment.invalid.${error.kind}`));
+      } else {
+        console.error("Failed to save treatment", error);
+      }
+    }
+  };
+
+  const confirmDelete = (treatment: Treatment) => {
+    Alert.alert(
+      t('treatment.deleteTitle'),
+      t('treatment.deleteMessage', { product: treatment.product }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const updated = await deleteTreatment(item.id, treatment.id);
+            if (updated) onChange(updated);
+          },
+        },
+      ]
+    );
+  };
+
+  const outcomeText = (treatment: Treatment) => {
+    const { outcome, scan } = getTreatmentOutcome(treatment, item, history);
+    if (!scan) return { outcome, text: t('treatment.outcome.pending') };
+    return {
+      outcome,
+      text: t(`treatment.outcome.${outcome}`, {
+        disease: diseaseName(scan.feedback?.trueLabel ?? scan.label),
+        date: toDateKey(new Date(scan.createdAt)),
+      }),
+    };
+  };
+
+  const field = (key: keyof ReturnType<typeof emptyForm>, placeholder: string, numeric = false) => (
+    <TextInput
+      style={styles.input}
+      placeholder={placeholder}
+      placeholderTextColor={colors.gray}
+      value={form[key]}
+      onChangeText={(value) => setForm((current) => ({ ...current, [key]: value }))}
+      keyboardType={numeric ? 'decimal-pad' : 'default'}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('treatment.title')}</Text>
+
+      {timeline.map((event, index) => {
+        const last = index === timeline.length - 1;
+        if (event.kind === 'scan') {
+          const label = event.item.feedback?.trueLabel ?? event.item.label;
+          return (
+            <TouchableOpacity
+              key={`scan-${event.item.id}`}
+              style={styles.event}
+              onPress={() => !event.current && onOpenScan(event.item)}
+              disabled={event.current}
+            >
+              <View style={styles.rail}>
+                <View style={[styles.dot, label === 'Healthy Rice Leaf' ? styles.dotHealthy : styles.dotDisease]} />
+                {!last && <View style={styles.line} />}
+              </View>
+              <View style={styles.eventBody}>
+                <Text style={styles.eventMeta}>
+                  {event.at} · {t(event.current ? 'treatment.thisScan' : 'treatment.laterScan')}
+                </Text>
+                <Text style={styles.eventTitle}>{diseaseName(label)}</Text>
+              </View>
+              {!event.current && <MaterialIcons name="chevron-right" size={20} color={colors.gray} />}
+            </TouchableOpacity>
+          );
+        }
+
+        const { treatment } = event;
+        const result = outcomeText(treatment);
+        const details = [
+          treatment.activeIngredient,
+          treatment.dose,
+          treatment.cost !== undefined ? `${t('treatment.cost')} ${treatment.cost}` : null,
+        ]
+          .filter(Boolean)
+          .join(' · ');
+        return (
+          <View key={`treatment-${treatment.id}`} style={styles.event}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, styles.dotTreatment]}>
+                <MaterialIcons name="science" size={10} color={colors.onPrimary} />
+              </View>
+              {!last && <View style={styles.line} />}
+            </View>
+            <View style={styles.eventBody}>
+              <Text style={styles.eventMeta}>{event.at}</Text>
+              <Text style={styles.eventTitle}>{treatment.product}</Text>
+              {details !== '' && <Text style={styles.eventDetails}>{details}</Text>}
+              <Text style={[styles.outcomeText, { color: colors[OUTCOME_COLORS[result.outcome]] }]}>{result.text}</Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => confirmDelete(treatment)}
+              style={styles.deleteButton}
+              accessibilityRole="button"
+              accessibilityLabel={t('treatment.deleteTitle')}
+            >
+              <Ionicons name="trash-outline" size={16} color={colors.gray} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {!item.treatments?.length && !adding && <Text style={styles.emptyText}>{t('treatment.empty')}</Text>}
+
+      {adding ? (
+        <View style={styles.form}>
+          {field('product', t('treatment.product'))}
+          {field('activeIngredient', t('treatment.activeIngredient'))}
+          {field('dose', t('treatment.dose'))}
+          {field('appliedOn', t('treatment.appliedOn'))}
+          {field('cost', t('treatment.cost'), true)}
+          <View style={styles.formActions}>
+            <TouchableOpacity onPress={() => setAdding(false)} style={styles.cancelButton}>
+              <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={save} style={styles.saveButton}>
+              <Text style={styles.saveText}>{t('treatment.save')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity onPress={() => setAdding(true)} style={styles.addButton}>
+          <Ionicons name="add-circle-outline" size={18} color={colors.primary} />
+          <Text style={styles.addText}>{t('treatment.add')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 12,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 10,
+  },
+  event: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    marginTop: 3,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dotHealthy: {
+    backgroundColor: colors.primary,
+  },
+  dotDisease: {
+    backgroundColor: colors.danger,
+  },
+  dotTreatment: {
+    backgroundColor: colors.accent,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: colors.border,
+    marginVertical: 2,
+  },
+  eventBody: {
+    flex: 1,
+    marginLeft: 8,
+    paddingBottom: 14,
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  eventDetails: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 2,
+  },
+  outcomeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: colors.gray,
+    marginBottom: 10,
+  },
+  form: {
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.text,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+  },
+  cancelButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: colors.gray,
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    borderRadius: 18,
+  },
+  saveText: {
+    color: colors.onPrimary,
+    fontWeight: 'bold',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,2 @@
+// Used until the user picks another server in Settings.
+export const DEFAULT_API_BASE_URL = 'https://rice-doctor-backend.onrender.com';
@@ -0,0 +1,59 @@
+import { DiseaseLabel } from '@/constants/labels';
+import { Language } from '@/constants/languages';
+
+// Translated one-line advice. English advice is each library entry's `summary`,
+// which is also what gets saved on each history entry.
+export const DISEASE_ADVICE_TRANSLATIONS: {
+  [language in Exclude<Language, 'en'>]: { [label in DiseaseLabel]: string };
+} = {
+  fil: {
+    'Bacterial Leaf Blight': '⚠️ Paggamot: Gumamit ng copper-based na spray (hal. Copper oxychloride). Iwasan ang sobrang Nitrogen na abono. Tiyaking maayos ang pagdaloy ng tubig palabas ng bukid.',
+    'Brown Spot': '⚠️ Paggamot: Pagyamanin ang lupa, lalo na sa Potassium at Calcium. Gamutin ng fungicide ang binhi bago itanim.',
+    'Leaf Blast': '⚠️ Paggamot: Mag-spray ng fungicide tulad ng Tricyclazole o Isoprothiolane. Panatilihin ang lebel ng tubig sa bukid at iwasan ang huling pagtatanim.',
+    'Leaf Scald': '⚠️ Paggamot: Gumamit ng malinis at walang sakit na binhi. Iwasan ang sobrang paglalagay ng Nitrogen. Gumamit ng validamycin kung malala.',
+    'Sheath Blight': '⚠️ Paggamot: Mag-spray ng fungicide tulad ng Azoxystrobin o Hexaconazole. Bawasan ang siksik ng tanim para mas maayos ang daloy ng hangin.',
+    'Healthy Rice Leaf': '✅ Magandang Balita: Mukhang malusog ang iyong pananim! Patuloy na bantayan ang lebel ng tubig at ang pag-aabono.',
+    'NOT_A_RICE_LEAF': '❓ Hindi Matukoy: Mukhang hindi ito dahon ng palay. Subukan ulit gamit ang mas malinaw na larawan na malapit sa dahon.',
+  },
+  ilo: {
+    'Bacterial Leaf Blight': '⚠️ Pannakaagas: Agusar iti copper-based a spray (kas iti Copper oxychloride). Liklikan ti nalablabes a Nitrogen nga abono. Siguraduen a nasayaat ti panagayus ti danum manipud iti talon.',
+    'Brown Spot': '⚠️ Pannakaagas: Pasayaaten ti daga, nangnangruna iti Potassium ken Calcium. Agasan iti fungicide dagiti bukel sakbay nga imula.',
+    'Leaf Blast': '⚠️ Pannakaagas: Agispray iti fungicide kas iti Tricyclazole wenno Isoprothiolane. Taginayonen ti kangato ti danum iti talon ken liklikan ti naladaw a panagmula.',
+    'Leaf Scald': '⚠️ Pannakaagas: Agusar iti nadalus ken awan sakitna a bukel. Liklikan ti nalablabes a Nitrogen. Agusar iti validamycin no nakaro.',
+    'Sheath Blight': '⚠️ Pannakaagas: Agispray iti fungicide kas iti Azoxystrobin wenno Hexaconazole. Kissayan ti kinasinged ti mula tapno nasaysayaat ti panagayus ti angin.',
+    'Healthy Rice Leaf': '✅ Naimbag a Damag: Kasla nasalun-at ti mulam! Ituloy ti panangbantay iti kangato ti danum ken ti panagabono.',
+    'NOT_A_RICE_LEAF': '❓ Saan a Mailasin: Kasla saan a bulong ti pagay daytoy. Padasem manen iti nalawlawag a ladawan nga asideg iti bulong.',
+  },
+};
+
+// Disease names farmers know are the English ones, so only the two
+// non-disease results are translated.
+export const DISEASE_NAMES: { [language in Language]: { [label in DiseaseLabel]: string } } = {
+  en: {
+    'Bacterial Leaf Blight': 'Bacterial Leaf Blight',
+    'Brown Spot': 'Brown Spot',
+    'Healthy Rice Leaf': 'Healthy Rice Leaf',
+    'Leaf Blast': 'Leaf Blast',
+    'Leaf Scald': 'Leaf Scald',
+    'NOT_A_RICE_LEAF': 'NOT_A_RICE_LEAF',
+    'Sheath Blight': 'Sheath Blight',
+  },
+  fil: {
+    'Bacterial Leaf Blight': 'Bacterial Leaf Blight',
+    'Brown Spot': 'Brown Spot',
+    'Healthy Rice Leaf': 'Malusog na Dahon ng Palay',
+    'Leaf Blast': 'Leaf Blast',
+    'Leaf Scald': 'Leaf Scald',
+    'NOT_A_RICE_LEAF': 'Hindi Dahon ng Palay',
+    'Sheath Blight': 'Sheath Blight',
+  },
+  ilo: {
+    'Bacterial Leaf Blight': 'Bacterial Leaf Blight',
+    'Brown Spot': 'Brown Spot',
+    'Healthy Rice Leaf': 'Nasalun-at a Bulong ti Pagay',
+    'Leaf Blast': 'Leaf Blast',
+    'Leaf Scald': 'Leaf Scald',
+    'NOT_A_RICE_LEAF': 'Saan a Bulong ti Pagay',
+    'Sheath Blight': 'Sheath Blight',
+  },
+};
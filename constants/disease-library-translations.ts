@@ -0,0 +1,342 @@
+import { DiseaseEntry } from '@/constants/disease-library';
+import { DiseaseLabel } from '@/constants/labels';
+import { Language } from '@/constants/languages';
+
+// The parts of a library entry farmers read. Product names, active
+// ingredients and severity stay as in DISEASE_LIBRARY.
+export type DiseaseText = Pick<
+  DiseaseEntry,
+  'symptoms' | 'cause' | 'favorableConditions' | 'treatment' | 'prevention' | 'severityNotes'
+> & {
+  imageCaptions: string[]; // Same order as the entry's `referenceImages`
+};
+
+// Translated library entries. English text lives in DISEASE_LIBRARY itself.
+export const DISEASE_LIBRARY_TRANSLATIONS: {
+  [language in Exclude<Language, 'en'>]: { [label in DiseaseLabel]: DiseaseText };
+} = {
+  fil: {
+    'Bacterial Leaf Blight': {
+      symptoms: [
+        'Mga guhit na parang nababad sa tubig na nagsisimula sa dulo o gilid ng dahon',
+        'Nagiging dilaw ang sugat, saka kulay-dayami hanggang kulay-abong puti, na may kulot na gilid',
+        'Mga patak ng malagatas o dilaw na katas ng bakterya sa mga bagong sugat tuwing umaga',
+        'Maaaring malanta at mamatay ang punla (kresek) pagkatapos ng paglilipat-tanim',
+      ],
+      cause: 'Bakteryang Xanthomonas oryzae pv. oryzae, na kumakalat sa talsik ng ulan, tubig-patubig at may sakit na pinaggapasan. Pumapasok ito sa mga sugat at butas ng dahon.',
+      favorableConditions: [
+        'Mainit na panahon (25–34 °C) na may mataas na halumigmig',
+        'Malakas na ulan, hangin at bagyo na sumusugat sa mga dahon',
+        'Malalim na nakatigil na tubig at binahang punlaan',
+        'Mataas na dami ng nitrogen na abono',
+      ],
+      treatment: [
+        'Patuyuin ang bukid nang ilang araw para bumagal ang pagkalat',
+        'Ipagpaliban ang nitrogen na abono hanggang tumigil ang pagkalat ng sakit',
+        'Mag-spray ng copper-based na bactericide sa mga apektadong bahagi',
+        'Bunutin at sirain ang mga halamang malubha ang sakit at ang pinaggapasan',
+      ],
+      prevention: [
+        'Magtanim ng matibay na barayti na inirerekomenda sa inyong lugar',
+        'Gumamit ng malinis na binhi at huwag putulin ang dulo ng punla sa paglilipat-tanim',
+        'Maglagay ng balanseng NPK sa halip na sobrang nitrogen',
+        'Araruhin o sunugin ang may sakit na pinaggapasan at alisin ang mga damong tinitirhan ng sakit',
+      ],
+      severityNotes: 'Maaaring mabawasan ang ani nang kalahati o higit pa kapag tumama ito sa mahinang barayti habang nagsusuwi. Mabilis kumalat pagkatapos ng bagyo.',
+      imageCaptions: ['Larawang-guhit: guhit na kulay-dayami mula sa dulo'],
+    },
+    'Brown Spot': {
+      symptoms: [
+        'Maliliit na hugis-itlog na kayumangging batik na kasinlaki ng buto ng linga',
+        'Ang mas lumang batik ay may abuhin o maputing gitna at mapula-pulang kayumangging gilid',
+        'Ang mga batik sa balat ng butil ay nagdudulot ng kupas at magaang butil',
+      ],
+      cause: 'Fungus na Bipolaris oryzae, na dala ng binhi at labi ng pananim at kumakalat sa mga spore na tinatangay ng hangin.',
+      favorableConditions: [
+        'Mahinang lupa na kulang sa potassium, silicon o nitrogen',
+        'Tagtuyot o hindi regular na patubig',
+        'Temperaturang 25–30 °C na may matagal na pagkabasa ng dahon',
+        'Pagtatanim ng may sakit na binhi',
+      ],
+      treatment: [
+        'Punan ang kakulangan sa sustansya, lalo na ang potassium',
+        'Panatilihing tuloy-tuloy ang patubig para maiwasan ang tagtuyot',
+        'Mag-spray ng fungicide kung umabot ang mga batik sa itaas na dahon o sa uhay',
+      ],
+      prevention: [
+        'Gamutin ang binhi ng fungicide o mainit na tubig (53–54 °C sa loob ng 10–12 minuto) bago magsabog-tanim',
+        'Maglagay ng balanseng abono batay sa pagsusuri ng lupa',
+        'Gumamit ng matibay na barayti at malinis na binhi',
+      ],
+      severityNotes: 'Kadalasang palatandaan ng pananim na kulang sa sustansya o pagod. Malaki lang ang lugi sa napakahinang lupa, kung saan bumababa rin ang kalidad ng butil.',
+      imageCaptions: ['Larawang-guhit: maliliit na kayumangging batik na may abuhing gitna'],
+    },
+    'Healthy Rice Leaf': {
+      symptoms: [
+        'Pantay na berdeng dahon na walang batik, guhit o sugat',
+        'Hindi tuyo o kupas ang dulo at gilid ng dahon',
+      ],
+      cause: 'Walang nakitang sakit.',
+      favorableConditions: [],
+      treatment: ['Hindi kailangan ng gamot'],
+      prevention: [
+        'I-scan ang bukid linggo-linggo, lalo na pagkatapos ng malakas na ulan',
+        'Panatilihing pantay ang tubig at hatiin ang paglalagay ng abono',
+        'Alisin ang mga damo at ligaw na palay na maaaring tirhan ng sakit',
+      ],
+      severityNotes: 'Patuloy na magbantay. Nahuhuli ng maagang pag-scan ang problema bago ito kumalat.',
+      imageCaptions: ['Larawang-guhit: pantay na berdeng dahon'],
+    },
+    'Leaf Blast': {
+      symptoms: [
+        'Mga batik na hugis-diyamante o hugis-sulid na may abuhing-puting gitna at kayumangging gilid',
+        'Nagdudugtong ang mga batik at pinapatay ang buong dahon kapag malala',
+        'Kapag tinamaan ang leeg ng uhay, nababali ito at hungkag ang mga butil (neck blast)',
+      ],
+      cause: 'Fungus na Magnaporthe oryzae (Pyricularia oryzae), na kumakalat sa mga spore na tinatangay ng hangin mula sa may sakit na halaman at labi ng pananim.',
+      favorableConditions: [
+        'Malalamig na gabi at matagal na hamog',
+        'Mataas na halumigmig na may madalas na mahinang ulan',
+        'Sobrang nitrogen na abono',
+        'Tuyong punlaan at bukid sa kabundukan o sahod-ulan na kaunti ang tubig',
+      ],
+      treatment: [
+        'Mag-spray ng fungicide laban sa blast sa unang mga batik at muli sa pagbubuntis para maprotektahan ang leeg',
+        'Itigil ang nitrogen na abono hanggang makontrol ang sakit',
+        'Panatilihing may tubig ang bukid kung maaari',
+      ],
+      prevention: [
+        'Magtanim ng barayting matibay sa blast',
+        'Hatiin ang nitrogen sa ilang maliliit na paglalagay',
+        'Magtanim sa tamang panahon at iwasan ang huling pagtatanim',
+        'Alisin at sirain ang may sakit na dayami at pinaggapasan',
+      ],
+      severityNotes: 'Isa sa pinakamapaminsalang sakit ng palay. Kayang ubusin ng neck blast malapit sa paglabas ng uhay ang halos buong ani.',
+      imageCaptions: ['Larawang-guhit: hugis-diyamanteng batik na may abuhing gitna'],
+    },
+    'Leaf Scald': {
+      symptoms: [
+        'Nagsisimula ang sugat sa dulo o gilid ng dahon at lumalaki papasok',
+        'Salit-salitang maputlang kayumanggi at maitim na kayumangging guhit na parang napaso',
+        'Natutuyo at nagiging kulay-dayami ang apektadong bahagi ng dahon',
+      ],
+      cause: 'Fungus na Microdochium oryzae, na dala ng binhi at kumakalat sa talsik ng ulan.',
+      favorableConditions: [
+        'Basa at maulang panahon',
+        'Mataas na dami ng nitrogen na abono',
+        'Masinsing pagtatanim na nagpapanatiling basa ng dahon',
+      ],
+      treatment: [
+        'Bawasan ang paglalagay ng nitrogen',
+        'Mag-spray lang ng fungicide kung kumalat ang sugat sa itaas na dahon',
+      ],
+      prevention: [
+        'Gumamit ng malinis at sertipikadong binhi',
+        'Hatiin ang paglalagay ng nitrogen at iwasan ang sobra',
+        'Luwagan ang pagitan ng tanim para sa mas maayos na daloy ng hangin',
+      ],
+      severityNotes: 'Kadalasang sinisira lang ang matatandang dahon at bihirang magdulot ng malaking lugi, pero binabawasan ng malawakang pagsiklab ang laman ng butil.',
+      imageCaptions: ['Larawang-guhit: guhit-guhit na sugat mula sa dulo ng dahon'],
+    },
+    'NOT_A_RICE_LEAF': {
+      symptoms: ['Walang dahon ng palay sa larawan na makikilala ng model'],
+      cause: 'Iba sa dahon ng palay ang nasa larawan, o masyadong maliit, malabo o madilim ang dahon.',
+      favorableConditions: [],
+      treatment: [
+        'Hawakan ang telepono 10–20 cm mula sa isang dahon',
+        'Punuin ang larawan ng apektadong bahagi ng dahon',
+        'Kumuha ng larawan sa liwanag ng araw at huwag igalaw ang camera',
+      ],
+      prevention: [],
+      severityNotes: 'Walang nagawang diagnosis. Kumuha muli ng larawan bago magpasya sa anumang gamot.',
+      imageCaptions: [],
+    },
+    'Sheath Blight': {
+      symptoms: [
+        'Hugis-itlog, berdeng-abuhing batik na parang nababad sa tubig sa upak malapit sa lebel ng tubig',
+        'Lumalaki ang mga batik at nagiging malalaking sugat na may abuhing-puting gitna at kayumangging gilid',
+        'Umaakyat ang sugat hanggang sa mga dahon; may maliliit na kayumangging butil ng fungus na nabubuo rito',
+      ],
+      cause: 'Fungus sa lupa na Rhizoctonia solani, na nabubuhay sa pagitan ng mga panahon sa lupa at labi ng pananim.',
+      favorableConditions: [
+        'Mainit at maalinsangang panahon (28–32 °C)',
+        'Masinsing tanim at saradong dahunan mula sa pinakamaraming suwi',
+        'Mataas na dami ng nitrogen na abono',
+      ],
+      treatment: [
+        'Mag-spray ng fungicide sa puno ng halaman kapag lumitaw ang sugat sa pagsusuwi',
+        'Patuyuin ang bukid nang ilang araw para bumaba ang halumigmig sa pagitan ng tanim',
+        'Huwag nang magdagdag ng nitrogen',
+      ],
+      prevention: [
+        'Luwagan ang pagitan ng mga tanim',
+        'Maglagay ng balanseng nitrogen nang hati-hati',
+        'Alisin ang mga damo sa pilapil at araruhin ang labi ng pananim pagkatapos ng ani',
+      ],
+      severityNotes: 'Lumalaki ang lugi kapag umabot ang sugat sa flag leaf bago lumabas ang uhay. Karaniwan sa mga bukid na mataas ang ani at sagana sa abono.',
+      imageCaptions: ['Larawang-guhit: abuhing-puting mantsa na may kayumangging gilid'],
+    },
+  },
+  ilo: {
+    'Bacterial Leaf Blight': {
+      symptoms: [
+        'Guhit a kasla nabasa iti danum a mangrugi iti murdong wenno igid ti bulong',
+        'Agbalin a duyaw ti sugat, kalpasanna kolor-garami agingga iti dapo-dapo a puraw, nga addaan iti kulot nga igid',
+        'Tedted ti kasla gatas wenno duyaw a linaon ti bakteria kadagiti baro a sugat iti agsapa',
+        'Mabalin a malaylay ken matay dagiti bunubon (kresek) kalpasan ti panagraep',
+      ],
+      cause: 'Bakteria a Xanthomonas oryzae pv. oryzae, a maiwaras babaen ti pisit ti tudo, danum a pagsibug ken addaan sakit a tuod. Sumrek daytoy kadagiti sugat ken abut ti bulong.',
+      favorableConditions: [
+        'Nabara a panawen (25–34 °C) nga addaan iti nangato nga alinsangaw',
+        'Napigsa a tudo, angin ken bagyo a mangsugat kadagiti bulong',
+        'Nauneg a nagtalinaed a danum ken nalayus a pagbunubonan',
+        'Adu a nitrogen nga abono',
+      ],
+      treatment: [
+        'Pamagaen ti talon iti sumagmamano nga aldaw tapno bumuntog ti panagwaras',
+        'Itantan ti nitrogen nga abono agingga a sumardeng ti panagwaras ti sakit',
+        'Agispray iti copper-based a bactericide kadagiti naapektaran a paset',
+        'Parutem ken dadaelen dagiti mula a nakaro ti sakitda ken ti tuod',
+      ],
+      prevention: [
+        'Agmula iti natibker a barayti a mairekomenda iti lugaryo',
+        'Agusar iti nadalus a bukel ken dika putden ti murdong ti bunubon iti panagraep',
+        'Agikabil iti balanse nga NPK imbes a nalablabes a nitrogen',
+        'Araduen wenno puoran ti addaan sakit a tuod ken ikkaten dagiti ruot a pagnaedan ti sakit',
+      ],
+      severityNotes: 'Mabalin a makissayan ti apit iti kagudua wenno ad-adu no dumteng iti nakapuy a barayti bayat ti panagsaringit. Napardas ti panagwarasna kalpasan ti bagyo.',
+      imageCaptions: ['Drowing: kolor-garami a guhit manipud iti murdong'],
+    },
+    'Brown Spot': {
+      symptoms: [
+        'Babassit a kasla itlog a kayumanggi a tulnek a kas kadakkel ti bukel ti lenga',
+        'Dagiti nalalakay a tulnek ket addaan iti dapo-dapo wenno pumuraw a tengnga ken nalabaga-kayumanggi nga igid',
+        'Dagiti tulnek iti ukis ti bukel ket mangpakupas ken mangpalag-an kadagiti bukel',
+      ],
+      cause: 'Fungus a Bipolaris oryzae, a maitugot ti bukel ken tedda ti mula ken maiwaras babaen dagiti spore nga iyalis ti angin.',
+      favorableConditions: [
+        'Nakapuy a daga a kurang iti potassium, silicon wenno nitrogen',
+        'Kinamaga wenno saan a regular a panagsibug',
+        'Temperatura a 25–30 °C nga addaan iti atiddog a panagbasa ti bulong',
+        'Panagmula iti addaan sakit a bukel',
+      ],
+      treatment: [
+        'Punnuen ti kurang a taraon ti mula, nangnangruna ti potassium',
+        'Taginayonen ti agtultuloy a panagsibug tapno maliklikan ti kinamaga',
+        'Agispray iti fungicide no dumanon dagiti tulnek kadagiti ngato a bulong wenno dawa',
+      ],
+      prevention: [
+        'Agasan ti bukel iti fungicide wenno napudot a danum (53–54 °C iti 10–12 a minuto) sakbay ti panagiwaras',
+        'Agikabil iti balanse nga abono a naibatay iti panangsukimat ti daga',
+        'Agusar iti natibker a barayti ken nadalus a bukel',
+      ],
+      severityNotes: 'Masansan a pagilasinan ti mula a nabannog wenno kurang iti taraon. Dakkel laeng ti pukaw iti nakapuy unay a daga, a pakabassitan met ti kalidad ti bukel.',
+      imageCaptions: ['Drowing: babassit a kayumanggi a tulnek nga addaan dapo-dapo a tengnga'],
+    },
+    'Healthy Rice Leaf': {
+      symptoms: [
+        'Agpapada a berde a bulong nga awan ti tulnek, guhit wenno sugat',
+        'Saan a namaga wenno nakupas ti murdong ken igid ti bulong',
+      ],
+      cause: 'Awan ti nakita a sakit.',
+      favorableConditions: [],
+      treatment: ['Saan a kasapulan ti agas'],
+      prevention: [
+        'I-scan ti talon iti tunggal lawas, nangnangruna kalpasan ti napigsa a tudo',
+        'Taginayonen ti agpapada a danum ken bingayen ti panagabono',
+        'Ikkaten dagiti ruot ken tumubtubo a pagay a mabalin a pagnaedan ti sakit',
+      ],
+      severityNotes: 'Ituloy ti panangbantay. Matiliw ti nasapa a panag-scan ti parikut sakbay nga agwaras.',
+      imageCaptions: ['Drowing: agpapada a berde a bulong'],
+    },
+    'Leaf Blast': {
+      symptoms: [
+        'Tulnek a kasla diamante wenno pagablan nga addaan iti dapo-dapo a puraw a tengnga ken kayumanggi nga igid',
+        'Agtitipon dagiti tulnek ket patayenda ti intero a bulong no nakaro',
+        'No madanon ti tengnged ti dawa, matukkol daytoy ket awan linaon dagiti bukel (neck blast)',
+      ],
+      cause: 'Fungus a Magnaporthe oryzae (Pyricularia oryzae), a maiwaras babaen dagiti spore nga iyalis ti angin manipud kadagiti addaan sakit a mula ken tedda.',
+      favorableConditions: [
+        'Nalamiis a rabii ken atiddog a linnaaw',
+        'Nangato nga alinsangaw nga addaan iti masansan a bassit a tudo',
+        'Nalablabes a nitrogen nga abono',
+        'Namaga a pagbunubonan ken talon iti bantay wenno agur-uray iti tudo a bassit ti danumna',
+      ],
+      treatment: [
+        'Agispray iti fungicide a maibusor iti blast kadagiti umuna a tulnek ken manen iti panagsikog tapno masalakniban ti tengnged',
+        'Isardeng ti nitrogen nga abono agingga a makontrol ti sakit',
+        'Taginayonen nga addaan danum ti talon no mabalin',
+      ],
+      prevention: [
+        'Agmula iti barayti a natibker iti blast',
+        'Bingayen ti nitrogen iti sumagmamano a bassit a panagikabil',
+        'Agmula iti husto a panawen ken liklikan ti naladaw a panagmula',
+        'Ikkaten ken dadaelen ti addaan sakit a garami ken tuod',
+      ],
+      severityNotes: 'Maysa kadagiti kadadakesan a sakit ti pagay. Kabaelan ti neck blast nga asideg iti panagdawa nga ibus ti dandani amin nga apit.',
+      imageCaptions: ['Drowing: kasla diamante a tulnek nga addaan dapo-dapo a tengnga'],
+    },
+    'Leaf Scald': {
+      symptoms: [
+        'Mangrugi ti sugat iti murdong wenno igid ti bulong ket dumakkel nga agturong iti uneg',
+        'Agsinnublat a nalusiaw a kayumanggi ken nangisit a kayumanggi a guhit a kasla napuoran',
+        'Mamaga ken agbalin a kolor-garami ti naapektaran a paset ti bulong',
+      ],
+      cause: 'Fungus a Microdochium oryzae, a maitugot ti bukel ken maiwaras babaen ti pisit ti tudo.',
+      favorableConditions: [
+        'Nabasa ken natudo a panawen',
+        'Adu a nitrogen nga abono',
+        'Nasinged a panagmula a mangtaginayon a nabasa dagiti bulong',
+      ],
+      treatment: [
+        'Kissayan ti panagikabil iti nitrogen',
+        'Agispray laeng iti fungicide no agwaras ti sugat kadagiti ngato a bulong',
+      ],
+      prevention: [
+        'Agusar iti nadalus ken sertipikado a bukel',
+        'Bingayen ti panagikabil iti nitrogen ken liklikan ti nalablabes',
+        'Palawaen ti baet dagiti mula tapno nasaysayaat ti panagayus ti angin',
+      ],
+      severityNotes: 'Masansan a dagiti nalalakay a bulong laeng ti madadael ken manmano a makaigapu iti dakkel a pukaw, ngem ti nakaro a panagsaknap ket mangkissay iti linaon ti bukel.',
+      imageCaptions: ['Drowing: naguhit a sugat manipud iti murdong ti bulong'],
+    },
+    'NOT_A_RICE_LEAF': {
+      symptoms: ['Awan ti bulong ti pagay iti ladawan a mailasin ti model'],
+      cause: 'Saan a bulong ti pagay ti adda iti ladawan, wenno nabassit unay, nalibeg wenno nasipnget ti bulong.',
+      favorableConditions: [],
+      treatment: [
+        'Iggaman ti telepono iti 10–20 cm manipud iti maysa a bulong',
+        'Punnuen ti ladawan iti naapektaran a paset ti bulong',
+        'Agala iti ladawan iti lawag ti aldaw ken dika ig-iggaten ti camera',
+      ],
+      prevention: [],
+      severityNotes: 'Awan ti naaramid a diagnosis. Agala manen iti ladawan sakbay nga agdesision iti aniaman nga agas.',
+      imageCaptions: [],
+    },
+    'Sheath Blight': {
+      symptoms: [
+        'Kasla itlog, berde-dapo-dapo a tulnek a kasla nabasa iti danum iti kalub ti mula nga asideg iti kangato ti danum',
+        'Dumakkel dagiti tulnek ket agbalin a dadakkel a sugat nga addaan iti dapo-dapo a puraw a tengnga ken kayumanggi nga igid',
+        'Umuli ti sugat agingga kadagiti bulong; adda babassit a kayumanggi a bukel ti fungus nga agtubo kadagitoy',
+      ],
+      cause: 'Fungus iti daga a Rhizoctonia solani, nga agbiag iti nagbaetan dagiti panawen iti daga ken tedda ti mula.',
+      favorableConditions: [
+        'Napudot ken nabara a panawen (28–32 °C)',
+        'Nasinged a mula ken nakaserra a bulbulong manipud iti kaaduan a saringit',
+        'Adu a nitrogen nga abono',
+      ],
+      treatment: [
+        'Agispray iti fungicide iti puon dagiti mula no agparang ti sugat bayat ti panagsaringit',
+        'Pamagaen ti talon iti sumagmamano nga aldaw tapno bumaba ti alinsangaw iti nagbaetan dagiti mula',
+        'Dikan aginayon iti nitrogen',
+      ],
+      prevention: [
+        'Palawaen ti baet dagiti mula',
+        'Agikabil iti balanse a nitrogen a nabingay',
+        'Ikkaten dagiti ruot iti tambak ken araduen ti tedda ti mula kalpasan ti apit',
+      ],
+      severityNotes: 'Dumakkel ti pukaw no madanon ti sugat ti flag leaf sakbay ti panagdawa. Kadawyan kadagiti talon a nangato ti apitna ken naadu ti abonona.',
+      imageCaptions: ['Drowing: dapo-dapo a puraw a mantsa nga addaan kayumanggi nga igid'],
+    },
+  },
+};
@@ -0,0 +1,232 @@
+import { ImageSourcePropType } from 'react-native';
+
+import { DiseaseLabel, LABELS } from '@/constants/labels';
+
+export type DiseaseSeverity = 'none' | 'low' | 'moderate' | 'high';
+
+export interface ReferenceImage {
+  source: ImageSourcePropType;
+  caption: string;
+}
+
+export interface DiseaseEntry {
+  label: DiseaseLabel;
+  summary: string; // One-line advice shown on the result card and saved with each scan
+  symptoms: string[];
+  cause: string;
+  favorableConditions: string[];
+  treatment: string[];
+  prevention: string[];
+  activeIngredients: string[];
+  severity: DiseaseSeverity;
+  severityNotes: string;
+  // Bundled drawings of the typical symptoms (require('@/assets/images/diseases/...')).
+  // The library screen also shows the farmer's own scans of the same label.
+  referenceImages: ReferenceImage[];
+}
+
+// --- KNOWLEDGE BASE ---
+export const DISEASE_LIBRARY: { [label in DiseaseLabel]: DiseaseEntry } = {
+  'Bacterial Leaf Blight': {
+    label: 'Bacterial Leaf Blight',
+    summary: '⚠️ Treatment: Use copper-based sprays (e.g., Copper oxychloride). Avoid excessive Nitrogen fertilizer. Ensure good field drainage.',
+    symptoms: [
+      'Water-soaked streaks starting at the leaf tip or edges',
+      'Lesions turn yellow, then straw-colored to grayish white, with wavy margins',
+      'Milky or yellow droplets of bacterial ooze on young lesions in the morning',
+      'Seedlings may wilt and die (kresek) soon after transplanting',
+    ],
+    cause: 'Bacterium Xanthomonas oryzae pv. oryzae, spread by rain splash, irrigation water and infected stubble. It enters through wounds and leaf pores.',
+    favorableConditions: [
+      'Warm temperatures (25–34 °C) with high humidity',
+      'Heavy rain, strong winds and typhoons that wound the leaves',
+      'Deep standing water and flooded seedbeds',
+      'High nitrogen fertilizer rates',
+    ],
+    treatment: [
+      'Drain the field for a few days to slow the spread',
+      'Hold back nitrogen topdressing until the disease stops spreading',
+      'Spray a copper-based bactericide on affected areas',
+      'Remove and destroy heavily infected plants and stubble',
+    ],
+    prevention: [
+      'Plant resistant varieties recommended for your area',
+      'Use clean seed and avoid clipping seedling tips at transplanting',
+      'Apply balanced NPK instead of heavy nitrogen',
+      'Plough under or burn infected stubble and remove weed hosts',
+    ],
+    activeIngredients: ['Copper oxychloride', 'Copper hydroxide'],
+    severity: 'high',
+    severityNotes: 'Can cut yields by half or more when it strikes susceptible varieties at tillering. Spreads quickly after storms.',
+    referenceImages: [
+      { source: require('@/assets/images/diseases/bacterial-leaf-blight.png'), caption: 'Illustration: straw-colored streak from the tip' },
+    ],
+  },
+  'Brown Spot': {
+    label: 'Brown Spot',
+    summary: '⚠️ Treatment: Improve soil fertility, specifically Potassium and Calcium. Treat seeds with fungicides before planting.',
+    symptoms: [
+      'Small oval brown spots about the size of a sesame seed',
+      'Older spots have a gray or whitish center with a reddish-brown edge',
+      'Spots on the grain husks cause discolored, light grains',
+    ],
+    cause: 'Fungus Bipolaris oryzae, carried on seed and crop residue and spread by wind-blown spores.',
+    favorableConditions: [
+      'Poor soils low in potassium, silicon or nitrogen',
+      'Drought stress or irregular irrigation',
+      'Temperatures of 25–30 °C with long periods of leaf wetness',
+      'Planting infected seed',
+    ],
+    treatment: [
+      'Correct nutrient deficiencies, especially potassium',
+      'Keep irrigation steady to avoid drought stress',
+      'Spray a fungicide if spots spread to the upper leaves or panicles',
+    ],
+    prevention: [
+      'Treat seed with fungicide or hot water (53–54 °C for 10–12 minutes) before sowing',
+      'Apply balanced fertilizer based on a soil test',
+      'Use resistant varieties and clean seed',
+    ],
+    activeIngredients: ['Mancozeb', 'Propiconazole'],
+    severity: 'moderate',
+    severityNotes: 'Usually a sign of a stressed, underfed crop. Losses are heavy only on very poor soils, where it also lowers grain quality.',
+    referenceImages: [
+      { source: require('@/assets/images/diseases/brown-spot.png'), caption: 'Illustration: small brown spots with gray centers' },
+    ],
+  },
+  'Healthy Rice Leaf': {
+    label: 'Healthy Rice Leaf',
+    summary: '✅ Good News: Your crop looks healthy! Continue monitoring water levels and nutrient management.',
+    symptoms: [
+      'Evenly green leaf blade without spots, streaks or lesions',
+      'Leaf tips and edges are not dried out or discolored',
+    ],
+    cause: 'No disease detected.',
+    favorableConditions: [],
+    treatment: ['No treatment needed'],
+    prevention: [
+      'Scan the field every week, especially after heavy rain',
+      'Keep water levels steady and apply fertilizer in split doses',
+      'Remove weeds and volunteer rice that can host diseases',
+    ],
+    activeIngredients: [],
+    severity: 'none',
+    severityNotes: 'Keep monitoring. Early scans catch problems before they spread.',
+    referenceImages: [
+      { source: require('@/assets/images/diseases/healthy.png'), caption: 'Illustration: evenly green leaf' },
+    ],
+  },
+  'Leaf Blast': {
+    label: 'Leaf Blast',
+    summary: '⚠️ Treatment: Apply fungicides like Tricyclazole or Isoprothiolane. Maintain water level in the field and avoid late planting.',
+    symptoms: [
+      'Diamond- or spindle-shaped spots with gray-white centers and brown edges',
+      'Spots join together and kill whole leaves in severe cases',
+      'Later infection of the neck makes panicles break over with empty grains (neck blast)',
+    ],
+    cause: 'Fungus Magnaporthe oryzae (Pyricularia oryzae), spread by wind-blown spores from infected plants and residue.',
+    favorableConditions: [
+      'Cool nights and long dew periods',
+      'High humidity with frequent light rain',
+      'Excess nitrogen fertilizer',
+      'Dry seedbeds and upland or rainfed fields with little standing water',
+    ],
+    treatment: [
+      'Spray a blast fungicide at the first spots and again at booting to protect the neck',
+      'Stop nitrogen topdressing until the disease is under control',
+      'Keep the field flooded where possible',
+    ],
+    prevention: [
+      'Plant blast-resistant varieties',
+      'Split nitrogen into several small applications',
+      'Plant on time and avoid late planting',
+      'Remove and destroy infected straw and stubble',
+    ],
+    activeIngredients: ['Tricyclazole', 'Isoprothiolane', 'Azoxystrobin'],
+    severity: 'high',
+    severityNotes: 'One of the most destructive rice diseases. Neck blast near heading can wipe out most of the harvest.',
+    referenceImages: [
+      { source: require('@/assets/images/diseases/leaf-blast.png'), caption: 'Illustration: diamond spots with gray centers' },
+    ],
+  },
+  'Leaf Scald': {
+    label: 'Leaf Scald',
+    summary: '⚠️ Treatment: Use clean, disease-free seeds. Avoid high Nitrogen application. Apply validamycin if severe.',
+    symptoms: [
+      'Lesions start at the leaf tip or edges and grow inward',
+      'Alternating light tan and dark brown bands give a zoned, scalded look',
+      'Affected leaf areas dry out and turn straw-colored',
+    ],
+    cause: 'Fungus Microdochium oryzae, carried on seed and spread by rain splash.',
+    favorableConditions: [
+      'Wet, rainy weather',
+      'High nitrogen fertilizer rates',
+      'Close plant spacing that keeps leaves wet',
+    ],
+    treatment: [
+      'Reduce nitrogen applications',
+      'Spray a fungicide only if lesions spread to the upper leaves',
+    ],
+    prevention: [
+      'Use clean, certified seed',
+      'Apply nitrogen in split doses and avoid excess',
+      'Use wider spacing for better air movement',
+    ],
+    activeIngredients: ['Validamycin', 'Propiconazole', 'Mancozeb'],
+    severity: 'low',
+    severityNotes: 'Mostly damages older leaves and rarely causes large yield losses, but heavy outbreaks reduce grain filling.',
+    referenceImages: [
+      { source: require('@/assets/images/diseases/leaf-scald.png'), caption: 'Illustration: banded lesion from the leaf tip' },
+    ],
+  },
+  'NOT_A_RICE_LEAF': {
+    label: 'NOT_A_RICE_LEAF',
+    summary: '❓ Unknown: This does not look like a rice leaf. Please try again with a clearer photo close to the leaf.',
+    symptoms: ['The photo does not show a rice leaf the model can recognize'],
+    cause: 'The photo shows something other than a rice leaf, or the leaf is too small, blurry or dark.',
+    favorableConditions: [],
+    treatment: [
+      'Hold the phone 10–20 cm from a single leaf',
+      'Fill the frame with the affected part of the leaf',
+      'Take the photo in daylight and keep the camera steady',
+    ],
+    prevention: [],
+    activeIngredients: [],
+    severity: 'none',
+    severityNotes: 'No diagnosis was made. Retake the photo before deciding on any treatment.',
+    referenceImages: [],
+  },
+  'Sheath Blight': {
+    label: 'Sheath Blight',
+    summary: '⚠️ Treatment: Apply fungicides like Azoxystrobin or Hexaconazole. Reduce plant density for better air circulation.',
+    symptoms: [
+      'Oval, greenish-gray water-soaked spots on the sheath near the water line',
+      'Spots grow into large lesions with gray-white centers and brown edges',
+      'Lesions climb up the plant to the leaves; small brown fungal bodies form on them',
+    ],
+    cause: 'Soil-borne fungus Rhizoctonia solani, which survives between seasons in soil and crop residue.',
+    favorableConditions: [
+      'Hot, humid weather (28–32 °C)',
+      'Dense planting and a closed canopy from maximum tillering onward',
+      'High nitrogen fertilizer rates',
+    ],
+    treatment: [
+      'Spray a fungicide at the base of the plants when lesions appear at tillering',
+      'Drain the field for a few days to lower humidity in the canopy',
+      'Hold back further nitrogen',
+    ],
+    prevention: [
+      'Use wider spacing between hills',
+      'Apply balanced nitrogen in split doses',
+      'Remove weeds along the bunds and plough under residue after harvest',
+    ],
+    activeIngredients: ['Azoxystrobin', 'Hexaconazole', 'Validamycin'],
+    severity: 'moderate',
+    severityNotes: 'Losses grow when lesions reach the flag leaf before heading. Common in high-yielding, heavily fertilized fields.',
+    referenceImages: [
+      { source: require('@/assets/images/diseases/sheath-blight.png'), caption: 'Illustration: gray-white blotches with brown edges' },
+    ],
+  },
+};
+
+export const getDiseaseEntries = (): DiseaseEntry[] => LABELS.map((label) => DISEASE_LIBRARY[label]);
@@ -0,0 +1,15 @@
+// Class names in the same order as `LABELS` in app.py (the model's output order).
+export const LABELS = [
+  'Bacterial Leaf Blight',
+  'Brown Spot',
+  'Healthy Rice Leaf',
+  'Leaf Blast',
+  'Leaf Scald',
+  'NOT_A_RICE_LEAF',
+  'Sheath Blight',
+] as const;
+
+export type DiseaseLabel = (typeof LABELS)[number];
+
+export const isDiseaseLabel = (value: unknown): value is DiseaseLabel =>
+  typeof value === 'string' && (LABELS as readonly string[]).includes(value);
@@ -0,0 +1,16 @@
+// Languages the app is translated into. `dateLocales` are passed to `Intl`;
+// devices without Ilocano locale data fall back to Filipino, then English.
+// `speechLocales` pick the read-aloud voice the same way; few phones ship an
+// Ilocano voice, and a Filipino one reads Ilocano spelling well enough.
+export const LANGUAGES = [
+  { code: 'en', name: 'English', dateLocales: ['en-PH'], speechLocales: ['en-PH', 'en-US', 'en'] },
+  { code: 'fil', name: 'Filipino', dateLocales: ['fil-PH', 'en-PH'], speechLocales: ['fil-PH', 'tl-PH', 'fil', 'tl'] },
+  { code: 'ilo', name: 'Ilocano', dateLocales: ['ilo-PH', 'fil-PH', 'en-PH'], speechLocales: ['ilo-PH', 'ilo', 'fil-PH', 'tl-PH', 'fil', 'tl'] },
+] as const;
+
+export type Language = (typeof LANGUAGES)[number]['code'];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((language) => language.code === value);
@@ -5,28 +5,85 @@
 
 import { Platform } from 'react-native';
 
-const tintColorLight = '#0a7ea4';
-const tintColorDark = '#fff';
-
-export const Colors = {
-  light: {
-    text: '#11181C',
-    background: '#fff',
-    tint: tintColorLight,
-    icon: '#687076',
-    tabIconDefault: '#687076',
-    tabIconSelected: tintColorLight,
-  },
+// --- RICE DOCTOR PALETTE ---
+// Every screen builds its styles from one of these (see `useThemedStyles`).
+// `surface` is for cards and sheets; `onPrimary` for text and icons on the
+// green headers and buttons.
+const light = {
+  text: '#1F2937',
+  background: '#F8F9FA',
+  tint: '#2E7D32',
+  icon: '#687076',
+  tabIconDefault: '#9E9E9E',
+  tabIconSelected: '#2E7D32',
+  primary: '#2E7D32',            // Deep rice green
+  secondary: '#E8F5E9',          // Light green background
+  accent: '#F57C00',             // Orange for advice
+  danger: '#C62828',             // Red for disease names
+  warning: '#E65100',
+  caution: '#9E7700',
+  gray: '#6B7280',
+  muted: '#9E9E9E',
+  surface: '#FFFFFF',
+  onPrimary: '#FFFFFF',
+  border: '#E5E7EB',
+  divider: '#F0F0F0',
+  track: '#EEEEEE',              // Empty part of bars
+  placeholder: '#CCCCCC',        // Large empty-state icons
+  imagePlaceholder: '#EEEEEE',   // Behind photos while they load
+  adviceBackground: '#FFF3E0',
+  adviceText: '#5D4037',
+  dangerBackground: '#FFEBEE',
+  cautionBackground: '#FFF8E1',
+  neutralBackground: '#F3F4F6',
+  overlay: 'rgba(0,0,0,0.5)',    // Dims the screen behind sheets and modals
+  shadow: '#000000',
+};
+
+export type ThemeColors = typeof light;
+
+export const Colors: { light: ThemeColors; dark: ThemeColors } = {
+  light,
   dark: {
-    text: '#ECEDEE',
-    background: '#151718',
-    tint: tintColorDark,
+    text: '#E5E7EB',
+    background: '#121212',
+    tint: '#66BB6A',
     icon: '#9BA1A6',
-    tabIconDefault: '#9BA1A6',
-    tabIconSelected: tintColorDark,
+    tabIconDefault: '#6B7280',
+    tabIconSelected: '#66BB6A',
+    primary: '#388E3C',
+    secondary: '#1B3320',
+    accent: '#FFA726',
+    danger: '#EF5350',
+    warning: '#FFB74D',
+    caution: '#FFD54F',
+    gray: '#9CA3AF',
+    muted: '#6B7280',
+    surface: '#1E1E1E',
+    onPrimary: '#FFFFFF',
+    border: '#374151',
+    divider: '#2A2A2A',
+    track: '#333333',
+    placeholder: '#4B5563',
+    imagePlaceholder: '#2A2A2A',
+    adviceBackground: '#3A2A14',
+    adviceText: '#FFCC80',
+    dangerBackground: '#3B1F1F',
+    cautionBackground: '#3A3214',
+    neutralBackground: '#2A2A2A',
+    overlay: 'rgba(0,0,0,0.7)',
+    shadow: '#000000',
   },
 };
 
+// "system" follows the phone's light / dark setting.
+export const THEME_PREFERENCES = ['system', 'light', 'dark'] as const;
+
+export type ThemePreference = (typeof THEME_PREFERENCES)[number];
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  THEME_PREFERENCES.includes(value as ThemePreference);
+
 export const Fonts = Platform.select({
   ios: {
     /** iOS `UIFontDescriptorSystemDesignDefault` */
@@ -0,0 +1,477 @@
+// English is the source catalog: every key must exist here, and the other
+// languages are checked against it by `Translations`.
+// `{name}` placeholders are filled in by `translate`; keys ending in
+// `_one` / `_other` are picked by `translatePlural`.
+export const en = {
+  // Tabs
+  'tabs.scanner': 'Scanner',
+  'tabs.history': 'History',
+  'tabs.stats': 'Stats',
+
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.save': 'Save',
+  'common.photoMissing': 'Photo no longer available',
+  'common.heatmapTitle': 'Heatmap Analysis',
+  'common.heatmapCaption': 'The colored areas indicate where the model detected the disease.',
+
+  // Scanner
+  'scanner.title': 'Rice Leaf Doctor',
+  'scanner.welcomeTitle': 'Scan Your Crop',
+  'scanner.welcomeText': 'Take a photo of a rice leaf to detect diseases and get treatment advice instantly.',
+  'scanner.gallery': 'Gallery',
+  'scanner.camera': 'Camera',
+  'scanner.originalPhoto': 'Original Photo',
+  'scanner.diagnose': 'Diagnose Disease',
+  'scanner.resultTitle': 'Diagnosis Result',
+  'scanner.noAdvice': 'Please consult an agricultural expert.',
+  'scanner.tentativeNote': 'Likely diagnosis. Compare the leaf with the Disease Library or ask a technician before spraying.',
+  'scanner.uncertainTitle': 'Not Sure',
+  'scanner.uncertainMessage': 'This result is too unsure to recommend a treatment (best guess: {disease}, {confidence}). Retake the photo closer to one leaf, in daylight.',
+  'scanner.retake': 'Retake Photo',
+  'scanner.savedToField': 'Saved to field',
+  'scanner.queuedScans': 'Queued Scans',
+  'scanner.clearFinished': 'Clear finished',
+  'scanner.learnMore': 'Learn more in the Disease Library',
+  'scanner.bytesSaved': 'Upload size {prepared} instead of {original} ({percent}% smaller)',
+  'scanner.modeLeaf': 'Single Leaf',
+  'scanner.modePlant': 'Whole Plant',
+  'scanner.plantHint': 'Take {min}–{max} photos of different leaves on the same plant for a steadier diagnosis.',
+  'scanner.plantCount': '{count} of {max} photos',
+  'scanner.plantDiagnose': 'Diagnose Plant',
+  'scanner.plantProgress': 'Diagnosing photo {done} of {total}…',
+  'scanner.plantOfflineMessage': 'Plant mode needs a connection. Your photos are kept; diagnose them once you are back online.',
+  'scanner.plantFailedTitle': 'Plant Scan Failed',
+  'scanner.plantFailedMessage': 'Not every photo could be diagnosed ({message}). Your photos are kept; please try again.',
+  'scanner.batchRunning': 'Diagnosing {done} of {total} photos',
+  'scanner.batchFinished': 'Batch finished: {done} of {total} photos',
+  'scanner.batchView': 'View',
+  'scanner.batchBusyTitle': 'Batch in Progress',
+  'scanner.batchBusyMessage': 'Wait for the current batch to finish before starting another.',
+  'scanner.cameraDeniedTitle': 'Permission Refused',
+  'scanner.cameraDeniedMessage': 'You need to allow camera access.',
+  'scanner.offlineTitle': 'Saved for Later',
+  'scanner.offlineMessage': 'You are offline. This scan was added to the queue and will be diagnosed automatically when you are back online.',
+  'scanner.networkErrorTitle': 'Connection Error',
+  'scanner.networkErrorMessage': 'The scan was added to the queue and will retry automatically. Check the active server in Settings and ensure the Python server is running.',
+  'scanner.timeoutTitle': 'Server Timeout',
+  'scanner.timeoutMessage': 'The server took too long to answer. The scan was added to the queue and will retry automatically.',
+  'scanner.serverErrorTitle': 'Server Error',
+  'scanner.serverErrorMessage': 'The server could not process the photo right now. The scan was added to the queue and will retry automatically.',
+  'scanner.rejectedTitle': 'Photo Rejected',
+  'scanner.rejectedMessage': 'The server could not read this photo: {message}',
+  'scanner.invalidResponseTitle': 'Unexpected Response',
+  'scanner.invalidResponseMessage': 'The server did not return a diagnosis. Check the active server in Settings.',
+  'scanner.unknownErrorTitle': 'Something Went Wrong',
+  'scanner.unknownErrorMessage': 'The scan could not be completed. Please try again.',
+
+  // Crop editor
+  'crop.title': 'Frame the Leaf',
+  'crop.hint': 'Drag the square over the affected part of the leaf. Drag the corner to resize it.',
+  'crop.rotate': 'Rotate',
+  'crop.confirm': 'Use Photo',
+  'crop.failedTitle': 'Could Not Prepare Photo',
+  'crop.failedMessage': 'The photo could not be cropped. Please try another one.',
+
+  // Confidence bands
+  'confidence.confident': 'Confident',
+  'confidence.tentative': 'Tentative',
+  'confidence.uncertain': 'Uncertain',
+
+  // Plant mode
+  'plant.agreement': '{agreement} of {total} photos agree',
+  'plant.photos': 'Each Photo',
+
+  // Correction feedback
+  'feedback.question': 'Was this correct?',
+  'feedback.yes': 'Yes',
+  'feedback.no': 'No',
+  'feedback.pickLabel': 'What is it really?',
+  'feedback.confirmed': 'You confirmed this diagnosis.',
+  'feedback.corrected': 'Corrected to {label}.',
+  'feedback.change': 'Change',
+
+  // Follow-up reminders
+  'followUp.notificationTitle': 'Time to re-scan',
+  'followUp.notificationTitleField': 'Time to re-scan {field}',
+  'followUp.notificationBody': 'Check whether the {disease} treatment worked: take a new photo of the same plants.',
+  'followUp.prompt': 'Remind me to re-scan in',
+  'followUp.inDays': '{count} days',
+  'followUp.scheduled': 'Re-scan reminder: {date}',
+  'followUp.change': 'Change',
+  'followUp.cancel': 'Cancel reminder',
+  'followUp.deniedTitle': 'Notifications Off',
+  'followUp.deniedMessage': 'Turn on notifications for Rice Leaf Doctor in your phone settings to get re-scan reminders.',
+  'followUp.failedTitle': 'Reminder Not Set',
+  'followUp.failedMessage': 'Could not set the reminder.',
+  'followUp.banner': 'Follow-up for the {disease} scan from {date}',
+  'followUp.linkedOriginal': 'Follow-up of the {disease} scan from {date}',
+  'followUp.linkedFollowUps_one': '{count} follow-up scan',
+  'followUp.linkedFollowUps_other': '{count} follow-up scans',
+
+  // Reminders screen
+  'reminders.title': 'Re-scan Reminders',
+  'reminders.upcoming': 'Upcoming',
+  'reminders.done': 'Done',
+  'reminders.noField': 'No field',
+  'reminders.due': 'Due {date}',
+  'reminders.overdue': 'Was due {date}',
+  'reminders.rescanned': 'Re-scanned {date}',
+  'reminders.scanNow': 'Scan Now',
+  'reminders.move': 'Move',
+  'reminders.cancel': 'Cancel',
+  'reminders.inDays_one': 'In {count} day',
+  'reminders.inDays_other': 'In {count} days',
+  'reminders.moveFailed': 'Could not move the reminder.',
+  'reminders.cancelTitle': 'Cancel Reminder',
+  'reminders.cancelMessage': 'Stop the reminder to re-scan the {disease} scan?',
+  'reminders.keep': 'Keep',
+  'reminders.empty': 'No reminders yet.',
+  'reminders.emptyHint': 'After a diagnosis, pick when to re-scan and the app will remind you to check the treatment.',
+  'reminders.error.permission': 'Notifications are turned off for Rice Leaf Doctor.',
+
+  // Treatment log
+  'treatment.title': 'Treatments & Results',
+  'treatment.empty': 'No treatment logged yet. Log what you applied to see if the disease cleared.',
+  'treatment.add': 'Log a Treatment',
+  'treatment.product': 'Product',
+  'treatment.activeIngredient': 'Active ingredient',
+  'treatment.dose': 'Dose',
+  'treatment.appliedOn': 'Date applied (YYYY-MM-DD)',
+  'treatment.cost': 'Cost',
+  'treatment.save': 'Save',
+  'treatment.invalidTitle': 'Check the Treatment',
+  'treatment.invalid.product': 'Enter the product that was applied.',
+  'treatment.invalid.date': 'Enter the date as YYYY-MM-DD, for example 2025-06-30.',
+  'treatment.invalid.cost': 'Enter the cost as a number, 0 or more.',
+  'treatment.deleteTitle': 'Delete Treatment',
+  'treatment.deleteMessage': 'Remove {product} from the log?',
+  'treatment.thisScan': 'This scan',
+  'treatment.laterScan': 'Later scan',
+  'treatment.outcome.cleared': 'Cleared: the {date} scan was healthy.',
+  'treatment.outcome.persisted': 'Not cleared: still {disease} on {date}.',
+  'treatment.outcome.changed': 'Changed: {disease} on {date}.',
+  'treatment.outcome.pending': 'No scan since. Re-scan to see if it worked.',
+
+  // Read aloud
+  'speech.listen': 'Read aloud',
+  'speech.pause': 'Pause reading',
+  'speech.resume': 'Continue reading',
+  'speech.stop': 'Stop reading',
+  'speech.confidence': 'Confidence: {band}, {confidence}',
+
+  // Screen reader labels
+  'a11y.library': 'Disease library',
+  'a11y.fields': 'Fields',
+  'a11y.settings': 'Settings',
+  'a11y.notFollowUp': 'Not a follow-up scan',
+  'a11y.removePhoto': 'Remove photo {number}',
+  'a11y.reminders': 'Re-scan reminders',
+  'a11y.locations': 'Scan locations',
+  'a11y.export': 'Export history',
+  'a11y.clearHistory': 'Clear all history',
+  'a11y.close': 'Close',
+  'a11y.filters': 'Filter and sort',
+  'a11y.clearSearch': 'Clear search',
+  'a11y.retryScan': 'Retry scan',
+  'a11y.removeScan': 'Remove from queue',
+  'a11y.scan': '{disease}, {confidence}, {date}',
+
+  // Photo quality check
+  'quality.title': 'Photo Check',
+  'quality.low_resolution': 'Move closer: the leaf is too small in the photo.',
+  'quality.too_dark': 'Too dark: move into daylight or out of the shade.',
+  'quality.too_bright': 'Too bright: avoid sun glare, shade the leaf with your hand.',
+  'quality.blurry': 'Blurry: hold the phone steady and tap the leaf to focus.',
+  'quality.alertMessage': 'This photo may give a wrong result:\n\n{issues}',
+  'quality.plantAlertMessage': 'Some photos of this plant may give a wrong result:\n\n{issues}\n\nRetake removes those photos so you can add new ones.',
+  'quality.plantPhotoIssue': 'Photo {number}: {issue}',
+  'quality.retake': 'Retake',
+  'quality.sendAnyway': 'Send Anyway',
+
+  // Offline queue
+  'queue.status.pending': 'Waiting',
+  'queue.status.uploading': 'Uploading',
+  'queue.status.failed': 'Failed',
+  'queue.status.done': 'Done',
+  'queue.attemptFailed': 'Attempt {attempts} failed. Next try at {time}.',
+  'queue.failedRetry': '{error} Tap retry to send it again.',
+  'queue.diagnosisFailed': 'Diagnosis failed.',
+  'queue.uploading': 'Sending photo to the server...',
+  'queue.pending': 'Will upload when you are online.',
+
+  // Probability bars
+  'probabilities.title': 'All Possibilities',
+  'probabilities.closeCall': 'Close call: {first} and {second} scored similarly.',
+
+  // Field picker
+  'fieldPicker.label': 'Field',
+  'fieldPicker.none': 'No field',
+  'fieldPicker.new': 'New field',
+
+  // Disease library
+  'library.title': 'Disease Library',
+  'library.intro': 'Browse common rice leaf problems, how to recognize them and how to manage them.',
+  'library.severity.none': 'No risk',
+  'library.severity.low': 'Low risk',
+  'library.severity.moderate': 'Moderate risk',
+  'library.severity.high': 'High risk',
+  'library.symptoms': 'Symptoms',
+  'library.cause': 'Cause',
+  'library.conditions': 'Favorable Conditions',
+  'library.treatment': 'Treatment',
+  'library.prevention': 'Prevention',
+  'library.ingredients': 'Recommended Active Ingredients',
+  'library.ingredientsHint': 'Check the product label and local registration before spraying.',
+  'library.severity': 'Severity',
+  'library.photos': 'Reference Photos',
+  'library.yourScans': 'From Your Scans',
+  'library.notFound': 'This disease is not in the library.',
+
+  // Batch diagnosis
+  'batch.title': 'Batch Diagnosis',
+  'batch.progress': '{done} of {total} photos checked',
+  'batch.summary': 'Summary',
+  'batch.photos': 'Photos',
+  'batch.queued_one': '{count} photo will be diagnosed when the connection is back.',
+  'batch.queued_other': '{count} photos will be diagnosed when the connection is back.',
+  'batch.failed_one': '{count} photo could not be diagnosed.',
+  'batch.failed_other': '{count} photos could not be diagnosed.',
+  'batch.unsaved_one': '{count} diagnosis could not be saved to history.',
+  'batch.unsaved_other': '{count} diagnoses could not be saved to history.',
+  'batch.status.pending': 'Waiting',
+  'batch.status.uploading': 'Checking...',
+  'batch.status.queued': 'Queued',
+  'batch.status.failed': 'Failed',
+  'batch.status.unsaved': 'Not saved',
+  'batch.done': 'Done',
+  'batch.empty': 'No batch is running. Pick several photos from the gallery to start one.',
+
+  // History
+  'history.title': 'Disease History',
+  'history.clearTitle': 'Clear History',
+  'history.clearMessage': 'Are you sure you want to delete all past records?',
+  'history.deleteTitle': 'Delete Entry',
+  'history.deleteMessage': 'Delete this {label} scan from {date}?',
+  'history.emptyTitle': 'No history yet.',
+  'history.emptyMessage': 'Scan a rice leaf in the Home screen to see results here.',
+  'history.waiting': 'Waiting for Diagnosis ({count})',
+  'history.noMatches': 'No scans match these filters.',
+  'history.confidence': 'Confidence: {value}',
+  'history.advice': 'Treatment & Advice:',
+  'history.notes': 'Notes',
+  'history.notesPlaceholder': 'e.g. North corner of the field, after heavy rain',
+  'history.saveNotes': 'Save Notes',
+  'history.deleteEntry': 'Delete Entry',
+
+  // History filters
+  'filters.search': 'Search notes and advice',
+  'filters.disease': 'Disease',
+  'filters.field': 'Field',
+  'filters.allFields': 'All fields',
+  'filters.date': 'Date',
+  'filters.days': '{count} days',
+  'filters.year': '1 year',
+  'filters.from': 'From YYYY-MM-DD',
+  'filters.to': 'To YYYY-MM-DD',
+  'filters.confidence': 'Confidence (%)',
+  'filters.band': 'Certainty',
+  'filters.min': 'Min',
+  'filters.max': 'Max',
+  'filters.sortBy': 'Sort by',
+  'filters.sort.date': 'Date',
+  'filters.sort.confidence': 'Confidence',
+  'filters.sort.disease': 'Disease',
+  'filters.matchCount_one': '{count} matching scan',
+  'filters.matchCount_other': '{count} matching scans',
+  'filters.reset': 'Reset',
+
+  // Statistics
+  'stats.title': 'Field Statistics',
+  'stats.window.7d': '7 days',
+  'stats.window.30d': '30 days',
+  'stats.window.90d': '90 days',
+  'stats.window.all': 'All time',
+  'stats.empty': 'No scans in this period.',
+  'stats.emptyHint': 'Statistics are built from your saved scan history.',
+  'stats.scans': 'Scans',
+  'stats.diseased': 'Diseased',
+  'stats.healthy': 'Healthy',
+  'stats.ratioTitle': 'Healthy vs Diseased',
+  'stats.notRice_one': '{count} scan was not a rice leaf and is not counted.',
+  'stats.notRice_other': '{count} scans were not a rice leaf and are not counted.',
+  'stats.frequencyTitle': 'Disease Frequency',
+  'stats.overTimeTitle': 'Scans Over Time',
+  'stats.confidenceTitle': 'Average Confidence per Class',
+  'stats.peak_one': 'Peak: {count} scan',
+  'stats.peak_other': 'Peak: {count} scans',
+  'stats.treatmentsTitle': 'Treatment Results',
+  'stats.treatmentUses_one': '{count} use',
+  'stats.treatmentUses_other': '{count} uses',
+  'stats.treatmentCost': 'cost {cost}',
+  'stats.treatmentHealthy': 'Healthy after {cleared} of {checked}',
+  'stats.treatmentNotRescanned': 'Not re-scanned',
+  'stats.treatmentsNote': 'Counts a treatment as working when the next scans of the same plants or field came back {healthy}. Covers all scans, not just this period.',
+
+  // Fields
+  'fields.title': 'My Fields',
+  'fields.empty': 'No fields yet.',
+  'fields.emptyHint': 'Add your paddies to track each one\'s scans over the season.',
+  'fields.hectares': '{area} ha',
+  'fields.planted': 'Planted {date}',
+  'fields.noDetails': 'No details yet',
+  'fields.scans_one': '{count} scan',
+  'fields.scans_other': '{count} scans',
+  'fields.last': 'Last: {disease}, {date}',
+  'fields.fallbackTitle': 'Field',
+  'fields.deleteTitle': 'Delete Field',
+  'fields.deleteMessage': 'Delete "{name}"? Its scans stay in your history without a field.',
+  'fields.missing': 'This field no longer exists.',
+  'fields.status': 'Current Status',
+  'fields.lastDiagnosis': 'Last diagnosis: {disease} ({confidence}) on {date}',
+  'fields.noScans': 'No rice leaf scans assigned to this field yet.',
+  'fields.variety': 'Variety: {value}',
+  'fields.area': 'Area: {value}',
+  'fields.plantedOn': 'Planted: {value}',
+  'fields.timeline': 'Scan Timeline ({count})',
+  'fields.health.healthy': 'Healthy',
+  'fields.health.diseased': 'Disease found',
+  'fields.health.unknown': 'Not scanned',
+  'fields.editTitle': 'Edit Field',
+  'fields.newTitle': 'New Field',
+  'fields.nameLabel': 'Name',
+  'fields.namePlaceholder': 'e.g. North Paddy',
+  'fields.areaLabel': 'Area (hectares)',
+  'fields.areaPlaceholder': 'e.g. 1.5',
+  'fields.varietyLabel': 'Variety',
+  'fields.varietyPlaceholder': 'e.g. NSIC Rc222',
+  'fields.plantingLabel': 'Planting Date',
+  'fields.saveChanges': 'Save Changes',
+  'fields.create': 'Create Field',
+  'fields.missingNameTitle': 'Missing Name',
+  'fields.missingNameMessage': 'Give this field a name, e.g. "North Paddy".',
+  'fields.invalidAreaTitle': 'Invalid Area',
+  'fields.invalidAreaMessage': 'Enter the area in hectares, e.g. 1.5',
+  'fields.invalidDateTitle': 'Invalid Date',
+  'fields.invalidDateMessage': 'Enter the planting date as YYYY-MM-DD.',
+
+  // Scan locations
+  'locations.title': 'Scan Locations',
+  'locations.finding': 'Finding your position…',
+  'locations.nearestFirst': 'Nearest spots first.',
+  'locations.unknownPosition': 'Your position is unknown, so spots are sorted by number of scans.',
+  'locations.untagged_one': '{count} scan has no location.',
+  'locations.untagged_other': '{count} scans have no location.',
+  'locations.groupWithin': 'Group scans within',
+  'locations.empty': 'No geotagged scans yet.',
+  'locations.emptyHint': 'Turn on "Tag scans with location" in Settings to see where diseases appear.',
+  'locations.spot': 'Spot {number}',
+  'locations.away': '{distance} away',
+  'locations.scans_one': '{count} scan',
+  'locations.scans_other': '{count} scans',
+  'locations.lastScanned': 'Last scanned {date}',
+
+  // Export
+  'export.title': 'Export History',
+  'export.format': 'Format',
+  'export.csvHint': 'One row per scan, for spreadsheets',
+  'export.jsonHint': 'Full records, including probabilities',
+  'export.datasetHint': 'Reviewed photos in one folder per disease, for retraining the model',
+  'export.dateRange': 'Date range (optional)',
+  'export.button': 'Export & Share',
+  'export.invalidDateTitle': 'Invalid Date',
+  'export.invalidDateMessage': 'Enter dates as YYYY-MM-DD, or leave them empty to export everything.',
+  'export.emptyTitle': 'Nothing to Export',
+  'export.emptyMessage': 'No scans match this date range.',
+  'export.datasetEmptyMessage': 'No reviewed scans yet. Answer "Was this correct?" on some scans first.',
+  'export.failedTitle': 'Export Failed',
+  'export.failedMessage': 'The file could not be created.',
+  'export.shareTitle': 'Export scan history',
+  'export.datasetShareTitle': 'Export training dataset',
+  'export.error.sharing': 'Sharing is not available on this device.',
+
+  // Restore backup
+  'restore.title': 'Restore Backup',
+  'restore.mergeKeep': 'Merge, keep mine',
+  'restore.mergeKeepHint': 'Add missing scans; scans on this phone win',
+  'restore.mergeOverwrite': 'Merge, use backup',
+  'restore.mergeOverwriteHint': 'Add missing scans; the backup copy wins',
+  'restore.replace': 'Replace everything',
+  'restore.replaceHint': 'Delete this phone\'s history first',
+  'restore.scans_one': '{count} scan',
+  'restore.scans_other': '{count} scans',
+  'restore.fields_one': '{count} field',
+  'restore.fields_other': '{count} fields',
+  'restore.contents': '{scans} and {fields}',
+  'restore.backedUp': 'Backed up {date}',
+  'restore.conflicts_one': '{count} scan is already on this phone.',
+  'restore.conflicts_other': '{count} scans are already on this phone.',
+  'restore.skipped_one': '{count} damaged record will be skipped.',
+  'restore.skipped_other': '{count} damaged records will be skipped.',
+  'restore.button': 'Restore',
+  'restore.completeTitle': 'Restore Complete',
+  'restore.restored_one': '{count} scan restored.',
+  'restore.restored_other': '{count} scans restored.',
+  'restore.kept_one': '{count} existing scan was kept.',
+  'restore.kept_other': '{count} existing scans were kept.',
+  'restore.failedTitle': 'Restore Failed',
+  'restore.failedMessage': 'The backup could not be restored. Please try again.',
+  'restore.replaceTitle': 'Replace History',
+  'restore.replaceMessage': 'Every scan on this phone will be deleted and replaced with the backup. This cannot be undone.',
+  'restore.replaceConfirm': 'Replace',
+
+  // Settings
+  'settings.language': 'Language',
+  'settings.languageHint': 'Used for screens, treatment advice and dates.',
+  'settings.backupShareTitle': 'Save backup',
+  'settings.title': 'Settings',
+  'settings.server': 'Diagnosis Server',
+  'settings.serverHint': 'Scans are sent to the selected server. Use a local profile while running app.py on your computer.',
+  'settings.editServerTitle': 'Edit Server',
+  'settings.addServerTitle': 'Add Server',
+  'settings.serverName': 'Name (e.g. Local Flask)',
+  'settings.addServer': 'Add',
+  'settings.missingNameTitle': 'Missing Name',
+  'settings.missingNameMessage': 'Give this server a name, e.g. "Local Flask".',
+  'settings.invalidAddressTitle': 'Invalid Address',
+  'settings.invalidAddressMessage': 'Enter a full address such as http://192.168.1.10:5000',
+  'settings.deleteServerTitle': 'Delete Server',
+  'settings.deleteServerMessage': 'Remove "{name}" from your servers?',
+  'settings.health.online': 'Online',
+  'settings.health.httpError': 'Status {status}',
+  'settings.health.notRiceServer': 'Not a Rice Doctor server',
+  'settings.health.timeout': 'Timed out',
+  'settings.health.unreachable': 'Unreachable',
+  'settings.appearance': 'Appearance',
+  'settings.appearanceHint': 'System follows the phone\'s dark mode setting.',
+  'settings.theme.system': 'System',
+  'settings.theme.light': 'Light',
+  'settings.theme.dark': 'Dark',
+  'settings.location': 'Location',
+  'settings.geotag': 'Tag scans with location',
+  'settings.geotagHint': 'Saves where each photo was taken so scans can be grouped by spot. Gallery photos use the location stored in the photo.',
+  'settings.confidence': 'Confidence Levels',
+  'settings.confidenceHint': 'Results below the tentative level show no treatment advice and ask for a new photo. Results between the two levels are marked as likely.',
+  'settings.confidentFrom': 'Confident from (%)',
+  'settings.tentativeFrom': 'Tentative from (%)',
+  'settings.invalidLevelsTitle': 'Invalid Levels',
+  'settings.invalidLevelsMessage': 'Use percentages from 0 to 100, with "Tentative" below "Confident".',
+  'settings.locationDeniedTitle': 'Location Denied',
+  'settings.locationDeniedMessage': 'Allow location access for Rice Leaf Doctor to tag scans with where they were taken.',
+  'settings.backup': 'Backup & Restore',
+  'settings.backupHint': 'A backup holds every scan with its photo and heatmap, plus your fields. Save it somewhere safe before switching phones.',
+  'settings.createBackup': 'Create Backup',
+  'settings.restore': 'Restore',
+  'settings.backupFailedTitle': 'Backup Failed',
+  'settings.backupFailedMessage': 'The backup file could not be created.',
+  'settings.restoreFailedTitle': 'Cannot Restore',
+  'settings.restoreFailedMessage': 'The backup file could not be read.',
+  'settings.backupError.sharing': 'Sharing is not available on this device.',
+  'settings.backupError.invalid': 'This file is not a Rice Leaf Doctor backup.',
+  'settings.backupError.newer': 'This backup was made by a newer version of the app. Update the app and try again.',
+};
+
+export type TranslationKey = keyof typeof en;
+
+export type Translations = { [key in TranslationKey]: string };
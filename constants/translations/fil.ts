@@ -0,0 +1,471 @@
+import { Translations } from '@/constants/translations/en';
+
+export const fil: Translations = {
+  // Tabs
+  'tabs.scanner': 'I-scan',
+  'tabs.history': 'Kasaysayan',
+  'tabs.stats': 'Estadistika',
+
+  // Shared
+  'common.cancel': 'Kanselahin',
+  'common.delete': 'Burahin',
+  'common.save': 'I-save',
+  'common.photoMissing': 'Wala na ang larawan',
+  'common.heatmapTitle': 'Pagsusuri ng Heatmap',
+  'common.heatmapCaption': 'Ipinapakita ng mga may kulay na bahagi kung saan nakita ng model ang sakit.',
+
+  // Scanner
+  'scanner.title': 'Rice Leaf Doctor',
+  'scanner.welcomeTitle': 'I-scan ang Iyong Pananim',
+  'scanner.welcomeText': 'Kumuha ng larawan ng dahon ng palay para matukoy ang sakit at agad makakuha ng payo sa paggamot.',
+  'scanner.gallery': 'Gallery',
+  'scanner.camera': 'Kamera',
+  'scanner.originalPhoto': 'Orihinal na Larawan',
+  'scanner.diagnose': 'Suriin ang Sakit',
+  'scanner.resultTitle': 'Resulta ng Pagsusuri',
+  'scanner.noAdvice': 'Mangyaring kumonsulta sa isang eksperto sa agrikultura.',
+  'scanner.tentativeNote': 'Malamang na diyagnosis. Ihambing ang dahon sa Aklatan ng Sakit o magtanong sa technician bago mag-spray.',
+  'scanner.uncertainTitle': 'Hindi Sigurado',
+  'scanner.uncertainMessage': 'Masyadong hindi tiyak ang resultang ito para magrekomenda ng lunas (pinakamalapit na hula: {disease}, {confidence}). Kumuha muli ng larawan nang mas malapit sa isang dahon, sa liwanag ng araw.',
+  'scanner.retake': 'Kumuha Muli',
+  'scanner.savedToField': 'Naka-save sa bukid',
+  'scanner.queuedScans': 'Mga Scan na Nakapila',
+  'scanner.clearFinished': 'Alisin ang tapos na',
+  'scanner.learnMore': 'Alamin pa sa Aklatan ng Sakit',
+  'scanner.bytesSaved': 'Laki ng upload: {prepared} sa halip na {original} ({percent}% mas maliit)',
+  'scanner.modeLeaf': 'Isang Dahon',
+  'scanner.modePlant': 'Buong Halaman',
+  'scanner.plantHint': 'Kumuha ng {min}–{max} larawan ng iba\'t ibang dahon sa iisang halaman para sa mas matatag na diyagnosis.',
+  'scanner.plantCount': '{count} sa {max} larawan',
+  'scanner.plantDiagnose': 'Suriin ang Halaman',
+  'scanner.plantProgress': 'Sinusuri ang larawan {done} sa {total}…',
+  'scanner.plantOfflineMessage': 'Kailangan ng koneksyon sa plant mode. Nakatago ang iyong mga larawan; suriin ang mga ito kapag online ka na.',
+  'scanner.plantFailedTitle': 'Nabigo ang Pagsuri ng Halaman',
+  'scanner.plantFailedMessage': 'Hindi nasuri ang lahat ng larawan ({message}). Nakatago ang iyong mga larawan; subukan muli.',
+  'scanner.batchRunning': 'Sinusuri ang {done} sa {total} larawan',
+  'scanner.batchFinished': 'Tapos ang batch: {done} sa {total} larawan',
+  'scanner.batchView': 'Tingnan',
+  'scanner.batchBusyTitle': 'May Batch na Tumatakbo',
+  'scanner.batchBusyMessage': 'Hintaying matapos ang kasalukuyang batch bago magsimula ng bago.',
+  'scanner.cameraDeniedTitle': 'Tinanggihan ang Pahintulot',
+  'scanner.cameraDeniedMessage': 'Kailangan mong payagan ang paggamit ng kamera.',
+  'scanner.offlineTitle': 'Naka-save para Mamaya',
+  'scanner.offlineMessage': 'Wala kang koneksyon. Idinagdag ang scan na ito sa pila at awtomatikong susuriin kapag may koneksyon ka na ulit.',
+  'scanner.networkErrorTitle': 'Problema sa Koneksyon',
+  'scanner.networkErrorMessage': 'Idinagdag ang scan sa pila at awtomatikong susubukan ulit. Tingnan ang aktibong server sa Settings at tiyaking tumatakbo ang Python server.',
+  'scanner.timeoutTitle': 'Matagal Sumagot ang Server',
+  'scanner.timeoutMessage': 'Masyadong natagalan ang server sa pagsagot. Idinagdag ang scan sa pila at awtomatikong susubukan ulit.',
+  'scanner.serverErrorTitle': 'Error sa Server',
+  'scanner.serverErrorMessage': 'Hindi maproseso ng server ang larawan sa ngayon. Idinagdag ang scan sa pila at awtomatikong susubukan ulit.',
+  'scanner.rejectedTitle': 'Tinanggihan ang Larawan',
+  'scanner.rejectedMessage': 'Hindi mabasa ng server ang larawang ito: {message}',
+  'scanner.invalidResponseTitle': 'Hindi Inaasahang Sagot',
+  'scanner.invalidResponseMessage': 'Hindi nagbigay ng resulta ang server. Tingnan ang aktibong server sa Settings.',
+  'scanner.unknownErrorTitle': 'May Nagkaproblema',
+  'scanner.unknownErrorMessage': 'Hindi natapos ang scan. Pakisubukan ulit.',
+
+  // Crop editor
+  'crop.title': 'I-frame ang Dahon',
+  'crop.hint': 'I-drag ang parisukat sa apektadong bahagi ng dahon. I-drag ang sulok para baguhin ang laki.',
+  'crop.rotate': 'Iikot',
+  'crop.confirm': 'Gamitin ang Larawan',
+  'crop.failedTitle': 'Hindi Naihanda ang Larawan',
+  'crop.failedMessage': 'Hindi ma-crop ang larawan. Subukan ang ibang larawan.',
+
+  // Confidence bands
+  'confidence.confident': 'Tiyak',
+  'confidence.tentative': 'Malamang',
+  'confidence.uncertain': 'Hindi Tiyak',
+
+  // Plant mode
+  'plant.agreement': '{agreement} sa {total} larawan ang magkatugma',
+  'plant.photos': 'Bawat Larawan',
+
+  // Correction feedback
+  'feedback.question': 'Tama ba ito?',
+  'feedback.yes': 'Oo',
+  'feedback.no': 'Hindi',
+  'feedback.pickLabel': 'Ano talaga ito?',
+  'feedback.confirmed': 'Kinumpirma mo ang diyagnosis na ito.',
+  'feedback.corrected': 'Itinama sa {label}.',
+  'feedback.change': 'Baguhin',
+
+  // Follow-up reminders
+  'followUp.notificationTitle': 'Oras na para mag-scan ulit',
+  'followUp.notificationTitleField': 'Oras na para i-scan ulit ang {field}',
+  'followUp.notificationBody': 'Tingnan kung gumana ang gamot sa {disease}: kumuha ng bagong larawan ng parehong mga halaman.',
+  'followUp.prompt': 'Paalalahanan akong mag-scan ulit sa loob ng',
+  'followUp.inDays': '{count} araw',
+  'followUp.scheduled': 'Paalala sa muling pag-scan: {date}',
+  'followUp.change': 'Baguhin',
+  'followUp.cancel': 'Kanselahin ang paalala',
+  'followUp.deniedTitle': 'Naka-off ang Notification',
+  'followUp.deniedMessage': 'I-on ang notification para sa Rice Leaf Doctor sa settings ng telepono para makatanggap ng paalala.',
+  'followUp.failedTitle': 'Hindi Naitakda ang Paalala',
+  'followUp.failedMessage': 'Hindi maitakda ang paalala.',
+  'followUp.banner': 'Follow-up para sa scan ng {disease} noong {date}',
+  'followUp.linkedOriginal': 'Follow-up ng scan ng {disease} noong {date}',
+  'followUp.linkedFollowUps_one': '{count} follow-up na scan',
+  'followUp.linkedFollowUps_other': '{count} follow-up na scan',
+
+  // Reminders screen
+  'reminders.title': 'Mga Paalala sa Muling Pag-scan',
+  'reminders.upcoming': 'Paparating',
+  'reminders.done': 'Tapos na',
+  'reminders.noField': 'Walang bukid',
+  'reminders.due': 'Takdang araw: {date}',
+  'reminders.overdue': 'Lampas na mula {date}',
+  'reminders.rescanned': 'Na-scan ulit noong {date}',
+  'reminders.scanNow': 'Mag-scan Ngayon',
+  'reminders.move': 'Ilipat',
+  'reminders.cancel': 'Kanselahin',
+  'reminders.inDays_one': 'Sa loob ng {count} araw',
+  'reminders.inDays_other': 'Sa loob ng {count} araw',
+  'reminders.moveFailed': 'Hindi mailipat ang paalala.',
+  'reminders.cancelTitle': 'Kanselahin ang Paalala',
+  'reminders.cancelMessage': 'Ihinto ang paalala na i-scan ulit ang scan ng {disease}?',
+  'reminders.keep': 'Panatilihin',
+  'reminders.empty': 'Wala pang paalala.',
+  'reminders.emptyHint': 'Pagkatapos ng diagnosis, piliin kung kailan mag-scan ulit at ipapaalala ng app na tingnan ang gamot.',
+  'reminders.error.permission': 'Naka-off ang notification para sa Rice Leaf Doctor.',
+
+  // Treatment log
+  'treatment.title': 'Mga Gamot at Resulta',
+  'treatment.empty': 'Wala pang naitalang gamot. Itala ang inilagay mo para makita kung nawala ang sakit.',
+  'treatment.add': 'Magtala ng Gamot',
+  'treatment.product': 'Produkto',
+  'treatment.activeIngredient': 'Aktibong sangkap',
+  'treatment.dose': 'Dami',
+  'treatment.appliedOn': 'Petsa ng paglalagay (YYYY-MM-DD)',
+  'treatment.cost': 'Gastos',
+  'treatment.save': 'I-save',
+  'treatment.invalidTitle': 'Suriin ang Gamot',
+  'treatment.invalid.product': 'Ilagay ang produktong ginamit.',
+  'treatment.invalid.date': 'Ilagay ang petsa bilang YYYY-MM-DD, halimbawa 2025-06-30.',
+  'treatment.invalid.cost': 'Ilagay ang gastos bilang numero, 0 o higit pa.',
+  'treatment.deleteTitle': 'Burahin ang Gamot',
+  'treatment.deleteMessage': 'Alisin ang {product} sa talaan?',
+  'treatment.thisScan': 'Ang scan na ito',
+  'treatment.laterScan': 'Sumunod na scan',
+  'treatment.outcome.cleared': 'Nawala: malusog ang scan noong {date}.',
+  'treatment.outcome.persisted': 'Hindi nawala: {disease} pa rin noong {date}.',
+  'treatment.outcome.changed': 'Nagbago: {disease} noong {date}.',
+  'treatment.outcome.pending': 'Wala pang scan mula noon. Mag-scan ulit para makita kung gumana.',
+
+  // Read aloud
+  'speech.listen': 'Basahin nang malakas',
+  'speech.pause': 'Ihinto sandali ang pagbasa',
+  'speech.resume': 'Ituloy ang pagbasa',
+  'speech.stop': 'Itigil ang pagbasa',
+  'speech.confidence': 'Katiyakan: {band}, {confidence}',
+
+  // Screen reader labels
+  'a11y.library': 'Aklatan ng sakit',
+  'a11y.fields': 'Mga bukid',
+  'a11y.settings': 'Mga setting',
+  'a11y.notFollowUp': 'Hindi follow-up na scan',
+  'a11y.removePhoto': 'Alisin ang larawan {number}',
+  'a11y.reminders': 'Mga paalala sa muling pag-scan',
+  'a11y.locations': 'Mga lokasyon ng scan',
+  'a11y.export': 'I-export ang kasaysayan',
+  'a11y.clearHistory': 'Burahin ang buong kasaysayan',
+  'a11y.close': 'Isara',
+  'a11y.filters': 'Salain at ayusin',
+  'a11y.clearSearch': 'Burahin ang hinahanap',
+  'a11y.retryScan': 'Subukang muli ang scan',
+  'a11y.removeScan': 'Alisin sa pila',
+  'a11y.scan': '{disease}, {confidence}, {date}',
+
+  // Photo quality check
+  'quality.title': 'Pagsuri ng Larawan',
+  'quality.low_resolution': 'Lumapit pa: masyadong maliit ang dahon sa larawan.',
+  'quality.too_dark': 'Masyadong madilim: pumunta sa liwanag o umalis sa lilim.',
+  'quality.too_bright': 'Masyadong maliwanag: iwasan ang silaw ng araw, liliman ang dahon gamit ang kamay.',
+  'quality.blurry': 'Malabo: hawakan nang matatag ang telepono at i-tap ang dahon para mag-focus.',
+  'quality.alertMessage': 'Maaaring mali ang resulta ng larawang ito:\n\n{issues}',
+  'quality.plantAlertMessage': 'Maaaring mali ang resulta ng ilang larawan ng halamang ito:\n\n{issues}\n\nAalisin ng Kumuha Muli ang mga larawang iyon para makapagdagdag ka ng bago.',
+  'quality.plantPhotoIssue': 'Larawan {number}: {issue}',
+  'quality.retake': 'Kumuha Muli',
+  'quality.sendAnyway': 'Ipadala Pa Rin',
+
+  // Offline queue
+  'queue.status.pending': 'Naghihintay',
+  'queue.status.uploading': 'Ina-upload',
+  'queue.status.failed': 'Nabigo',
+  'queue.status.done': 'Tapos',
+  'queue.attemptFailed': 'Nabigo ang pagsubok {attempts}. Susubukan ulit nang {time}.',
+  'queue.failedRetry': '{error} I-tap ang retry para ipadala ulit.',
+  'queue.diagnosisFailed': 'Nabigo ang pagsusuri.',
+  'queue.uploading': 'Ipinapadala ang larawan sa server...',
+  'queue.pending': 'Ia-upload kapag may koneksyon ka na.',
+
+  // Probability bars
+  'probabilities.title': 'Lahat ng Posibilidad',
+  'probabilities.closeCall': 'Halos magkapantay: magkalapit ang iskor ng {first} at {second}.',
+
+  // Field picker
+  'fieldPicker.label': 'Bukid',
+  'fieldPicker.none': 'Walang bukid',
+  'fieldPicker.new': 'Bagong bukid',
+
+  // Disease library
+  'library.title': 'Aklatan ng Sakit',
+  'library.intro': 'Tingnan ang mga karaniwang problema ng dahon ng palay, paano makikilala at paano haharapin ang mga ito.',
+  'library.severity.none': 'Walang panganib',
+  'library.severity.low': 'Mababang panganib',
+  'library.severity.moderate': 'Katamtamang panganib',
+  'library.severity.high': 'Mataas na panganib',
+  'library.symptoms': 'Mga Sintomas',
+  'library.cause': 'Sanhi',
+  'library.conditions': 'Mga Kondisyong Nagpapalala',
+  'library.treatment': 'Paggamot',
+  'library.prevention': 'Pag-iwas',
+  'library.ingredients': 'Mga Inirerekomendang Active Ingredient',
+  'library.ingredientsHint': 'Basahin ang label ng produkto at tiyaking rehistrado ito bago mag-spray.',
+  'library.severity': 'Kalubhaan',
+  'library.photos': 'Mga Halimbawang Larawan',
+  'library.yourScans': 'Mula sa Iyong mga Scan',
+  'library.notFound': 'Wala sa aklatan ang sakit na ito.',
+
+  // Batch diagnosis
+  'batch.title': 'Maramihang Pagsusuri',
+  'batch.progress': '{done} sa {total} larawan ang nasuri',
+  'batch.summary': 'Buod',
+  'batch.photos': 'Mga Larawan',
+  'batch.queued_one': '{count} larawan ang susuriin kapag may koneksyon na ulit.',
+  'batch.queued_other': '{count} larawan ang susuriin kapag may koneksyon na ulit.',
+  'batch.failed_one': '{count} larawan ang hindi nasuri.',
+  'batch.failed_other': '{count} larawan ang hindi nasuri.',
+  'batch.unsaved_one': '{count} diagnosis ang hindi na-save sa kasaysayan.',
+  'batch.unsaved_other': '{count} diagnosis ang hindi na-save sa kasaysayan.',
+  'batch.status.pending': 'Naghihintay',
+  'batch.status.uploading': 'Sinusuri...',
+  'batch.status.queued': 'Nakapila',
+  'batch.status.failed': 'Nabigo',
+  'batch.status.unsaved': 'Hindi na-save',
+  'batch.done': 'Tapos',
+  'batch.empty': 'Walang batch na tumatakbo. Pumili ng ilang larawan sa gallery para magsimula.',
+
+  // History
+  'history.title': 'Kasaysayan ng Sakit',
+  'history.clearTitle': 'Burahin ang Kasaysayan',
+  'history.clearMessage': 'Sigurado ka bang buburahin ang lahat ng nakaraang tala?',
+  'history.deleteTitle': 'Burahin ang Tala',
+  'history.deleteMessage': 'Burahin ang scan na ito ng {label} noong {date}?',
+  'history.emptyTitle': 'Wala pang kasaysayan.',
+  'history.emptyMessage': 'Mag-scan ng dahon ng palay sa Scanner para makita rito ang mga resulta.',
+  'history.waiting': 'Naghihintay ng Pagsusuri ({count})',
+  'history.noMatches': 'Walang scan na tugma sa mga filter na ito.',
+  'history.confidence': 'Katiyakan: {value}',
+  'history.advice': 'Paggamot at Payo:',
+  'history.notes': 'Mga Tala',
+  'history.notesPlaceholder': 'hal. Hilagang sulok ng bukid, pagkatapos ng malakas na ulan',
+  'history.saveNotes': 'I-save ang Tala',
+  'history.deleteEntry': 'Burahin ang Tala',
+
+  // History filters
+  'filters.search': 'Maghanap sa mga tala at payo',
+  'filters.disease': 'Sakit',
+  'filters.field': 'Bukid',
+  'filters.allFields': 'Lahat ng bukid',
+  'filters.date': 'Petsa',
+  'filters.days': '{count} araw',
+  'filters.year': '1 taon',
+  'filters.from': 'Mula YYYY-MM-DD',
+  'filters.to': 'Hanggang YYYY-MM-DD',
+  'filters.confidence': 'Katiyakan (%)',
+  'filters.band': 'Katiyakan',
+  'filters.min': 'Min',
+  'filters.max': 'Max',
+  'filters.sortBy': 'Ayusin ayon sa',
+  'filters.sort.date': 'Petsa',
+  'filters.sort.confidence': 'Katiyakan',
+  'filters.sort.disease': 'Sakit',
+  'filters.matchCount_one': '{count} tugmang scan',
+  'filters.matchCount_other': '{count} tugmang scan',
+  'filters.reset': 'I-reset',
+
+  // Statistics
+  'stats.title': 'Estadistika ng Bukid',
+  'stats.window.7d': '7 araw',
+  'stats.window.30d': '30 araw',
+  'stats.window.90d': '90 araw',
+  'stats.window.all': 'Lahat',
+  'stats.empty': 'Walang scan sa panahong ito.',
+  'stats.emptyHint': 'Ang estadistika ay mula sa iyong naka-save na kasaysayan ng scan.',
+  'stats.scans': 'Mga Scan',
+  'stats.diseased': 'May Sakit',
+  'stats.healthy': 'Malusog',
+  'stats.ratioTitle': 'Malusog laban sa May Sakit',
+  'stats.notRice_one': '{count} scan ang hindi dahon ng palay at hindi binilang.',
+  'stats.notRice_other': '{count} scan ang hindi dahon ng palay at hindi binilang.',
+  'stats.frequencyTitle': 'Dalas ng Sakit',
+  'stats.overTimeTitle': 'Mga Scan sa Paglipas ng Panahon',
+  'stats.confidenceTitle': 'Karaniwang Katiyakan bawat Uri',
+  'stats.peak_one': 'Pinakamarami: {count} scan',
+  'stats.peak_other': 'Pinakamarami: {count} scan',
+  'stats.treatmentsTitle': 'Resulta ng mga Gamot',
+  'stats.treatmentUses_one': '{count} beses ginamit',
+  'stats.treatmentUses_other': '{count} beses ginamit',
+  'stats.treatmentCost': 'gastos {cost}',
+  'stats.treatmentHealthy': 'Malusog pagkatapos ng {cleared} sa {checked}',
+  'stats.treatmentNotRescanned': 'Hindi pa na-scan ulit',
+  'stats.treatmentsNote': 'Itinuturing na gumana ang gamot kapag {healthy} ang lumabas sa mga sumunod na scan ng parehong halaman o bukid. Kasama ang lahat ng scan, hindi lang ang panahong ito.',
+
+  // Fields
+  'fields.title': 'Aking mga Bukid',
+  'fields.empty': 'Wala pang bukid.',
+  'fields.emptyHint': 'Idagdag ang iyong mga palayan para masubaybayan ang mga scan ng bawat isa sa buong panahon.',
+  'fields.hectares': '{area} ha',
+  'fields.planted': 'Itinanim {date}',
+  'fields.noDetails': 'Wala pang detalye',
+  'fields.scans_one': '{count} scan',
+  'fields.scans_other': '{count} scan',
+  'fields.last': 'Huli: {disease}, {date}',
+  'fields.fallbackTitle': 'Bukid',
+  'fields.deleteTitle': 'Burahin ang Bukid',
+  'fields.deleteMessage': 'Burahin ang "{name}"? Mananatili ang mga scan nito sa kasaysayan nang walang bukid.',
+  'fields.missing': 'Wala na ang bukid na ito.',
+  'fields.status': 'Kasalukuyang Kalagayan',
+  'fields.lastDiagnosis': 'Huling diagnosis: {disease} ({confidence}) noong {date}',
+  'fields.noScans': 'Wala pang scan ng dahon ng palay sa bukid na ito.',
+  'fields.variety': 'Barayti: {value}',
+  'fields.area': 'Lawak: {value}',
+  'fields.plantedOn': 'Itinanim: {value}',
+  'fields.timeline': 'Takbo ng mga Scan ({count})',
+  'fields.health.healthy': 'Malusog',
+  'fields.health.diseased': 'May nakitang sakit',
+  'fields.health.unknown': 'Hindi pa na-scan',
+  'fields.editTitle': 'I-edit ang Bukid',
+  'fields.newTitle': 'Bagong Bukid',
+  'fields.nameLabel': 'Pangalan',
+  'fields.namePlaceholder': 'hal. Palayan sa Hilaga',
+  'fields.areaLabel': 'Lawak (ektarya)',
+  'fields.areaPlaceholder': 'hal. 1.5',
+  'fields.varietyLabel': 'Barayti',
+  'fields.varietyPlaceholder': 'hal. NSIC Rc222',
+  'fields.plantingLabel': 'Petsa ng Pagtatanim',
+  'fields.saveChanges': 'I-save ang Pagbabago',
+  'fields.create': 'Gumawa ng Bukid',
+  'fields.missingNameTitle': 'Walang Pangalan',
+  'fields.missingNameMessage': 'Bigyan ng pangalan ang bukid, hal. "Palayan sa Hilaga".',
+  'fields.invalidAreaTitle': 'Maling Lawak',
+  'fields.invalidAreaMessage': 'Ilagay ang lawak sa ektarya, hal. 1.5',
+  'fields.invalidDateTitle': 'Maling Petsa',
+  'fields.invalidDateMessage': 'Ilagay ang petsa ng pagtatanim bilang YYYY-MM-DD.',
+
+  // Scan locations
+  'locations.title': 'Mga Lokasyon ng Scan',
+  'locations.finding': 'Hinahanap ang iyong kinaroroonan…',
+  'locations.nearestFirst': 'Pinakamalapit na lugar ang una.',
+  'locations.unknownPosition': 'Hindi alam ang iyong kinaroroonan, kaya inayos ang mga lugar ayon sa dami ng scan.',
+  'locations.untagged_one': '{count} scan ang walang lokasyon.',
+  'locations.untagged_other': '{count} scan ang walang lokasyon.',
+  'locations.groupWithin': 'Pagsamahin ang mga scan sa loob ng',
+  'locations.empty': 'Wala pang scan na may lokasyon.',
+  'locations.emptyHint': 'I-on ang "Itala ang lokasyon ng scan" sa Mga Setting para makita kung saan lumalabas ang mga sakit.',
+  'locations.spot': 'Lugar {number}',
+  'locations.away': '{distance} ang layo',
+  'locations.scans_one': '{count} scan',
+  'locations.scans_other': '{count} scan',
+  'locations.lastScanned': 'Huling na-scan {date}',
+
+  // Export
+  'export.title': 'I-export ang Kasaysayan',
+  'export.format': 'Format',
+  'export.csvHint': 'Isang hilera bawat scan, para sa spreadsheet',
+  'export.jsonHint': 'Buong tala, kasama ang mga probabilidad',
+  'export.datasetHint': 'Mga nasuring larawan sa isang folder bawat sakit, para sa muling pagsasanay ng model',
+  'export.dateRange': 'Saklaw ng petsa (opsyonal)',
+  'export.button': 'I-export at Ibahagi',
+  'export.invalidDateTitle': 'Maling Petsa',
+  'export.invalidDateMessage': 'Ilagay ang petsa bilang YYYY-MM-DD, o iwanang blangko para i-export ang lahat.',
+  'export.emptyTitle': 'Walang Ma-export',
+  'export.emptyMessage': 'Walang scan sa saklaw ng petsang ito.',
+  'export.datasetEmptyMessage': 'Wala pang nasuring scan. Sagutin muna ang "Tama ba ito?" sa ilang scan.',
+  'export.failedTitle': 'Nabigo ang Pag-export',
+  'export.failedMessage': 'Hindi nagawa ang file.',
+  'export.shareTitle': 'I-export ang kasaysayan ng scan',
+  'export.datasetShareTitle': 'I-export ang dataset para sa training',
+  'export.error.sharing': 'Hindi available ang pagbabahagi sa device na ito.',
+
+  // Restore backup
+  'restore.title': 'I-restore ang Backup',
+  'restore.mergeKeep': 'Pagsamahin, panatilihin ang akin',
+  'restore.mergeKeepHint': 'Idagdag ang mga kulang na scan; ang nasa teleponong ito ang masusunod',
+  'restore.mergeOverwrite': 'Pagsamahin, gamitin ang backup',
+  'restore.mergeOverwriteHint': 'Idagdag ang mga kulang na scan; ang kopya sa backup ang masusunod',
+  'restore.replace': 'Palitan lahat',
+  'restore.replaceHint': 'Burahin muna ang kasaysayan sa teleponong ito',
+  'restore.scans_one': '{count} scan',
+  'restore.scans_other': '{count} scan',
+  'restore.fields_one': '{count} bukid',
+  'restore.fields_other': '{count} bukid',
+  'restore.contents': '{scans} at {fields}',
+  'restore.backedUp': 'Na-backup noong {date}',
+  'restore.conflicts_one': '{count} scan ang nasa teleponong ito na.',
+  'restore.conflicts_other': '{count} scan ang nasa teleponong ito na.',
+  'restore.skipped_one': '{count} sirang tala ang lalaktawan.',
+  'restore.skipped_other': '{count} sirang tala ang lalaktawan.',
+  'restore.button': 'I-restore',
+  'restore.completeTitle': 'Tapos ang Pag-restore',
+  'restore.restored_one': '{count} scan ang naibalik.',
+  'restore.restored_other': '{count} scan ang naibalik.',
+  'restore.kept_one': '{count} dating scan ang pinanatili.',
+  'restore.kept_other': '{count} dating scan ang pinanatili.',
+  'restore.failedTitle': 'Hindi Na-restore',
+  'restore.failedMessage': 'Hindi maibalik ang backup. Pakisubukang muli.',
+  'restore.replaceTitle': 'Palitan ang Kasaysayan',
+  'restore.replaceMessage': 'Buburahin ang lahat ng scan sa teleponong ito at papalitan ng backup. Hindi na ito maibabalik.',
+  'restore.replaceConfirm': 'Palitan',
+
+  // Settings
+  'settings.language': 'Wika',
+  'settings.languageHint': 'Ginagamit sa mga screen, payo sa paggamot at mga petsa.',
+  'settings.backupShareTitle': 'I-save ang backup',
+  'settings.title': 'Mga Setting',
+  'settings.server': 'Server ng Diagnosis',
+  'settings.serverHint': 'Ipinapadala ang mga scan sa napiling server. Gumamit ng lokal na profile habang pinapatakbo ang app.py sa iyong computer.',
+  'settings.editServerTitle': 'I-edit ang Server',
+  'settings.addServerTitle': 'Magdagdag ng Server',
+  'settings.serverName': 'Pangalan (hal. Local Flask)',
+  'settings.addServer': 'Idagdag',
+  'settings.missingNameTitle': 'Walang Pangalan',
+  'settings.missingNameMessage': 'Bigyan ng pangalan ang server na ito, hal. "Local Flask".',
+  'settings.invalidAddressTitle': 'Maling Address',
+  'settings.invalidAddressMessage': 'Ilagay ang buong address gaya ng http://192.168.1.10:5000',
+  'settings.deleteServerTitle': 'Burahin ang Server',
+  'settings.deleteServerMessage': 'Alisin ang "{name}" sa iyong mga server?',
+  'settings.health.online': 'Online',
+  'settings.health.httpError': 'Status {status}',
+  'settings.health.notRiceServer': 'Hindi Rice Doctor server',
+  'settings.health.timeout': 'Naubos ang oras',
+  'settings.health.unreachable': 'Hindi maabot',
+  'settings.appearance': 'Itsura',
+  'settings.appearanceHint': 'Sinusunod ng System ang dark mode setting ng telepono.',
+  'settings.theme.system': 'System',
+  'settings.theme.light': 'Maliwanag',
+  'settings.theme.dark': 'Madilim',
+  'settings.location': 'Lokasyon',
+  'settings.geotag': 'Itala ang lokasyon ng scan',
+  'settings.geotagHint': 'Sine-save kung saan kinuha ang bawat larawan para mapangkat ang mga scan ayon sa lugar. Ang mga larawan mula sa gallery ay gumagamit ng lokasyong nakatala sa larawan.',
+  'settings.confidence': 'Antas ng Katiyakan',
+  'settings.confidenceHint': 'Ang mga resultang mas mababa sa antas na "Malamang" ay walang payo sa paggamot at hihingi ng bagong larawan. Ang mga resulta sa pagitan ng dalawang antas ay itinuturing na malamang.',
+  'settings.confidentFrom': 'Tiyak mula sa (%)',
+  'settings.tentativeFrom': 'Malamang mula sa (%)',
+  'settings.invalidLevelsTitle': 'Maling Antas',
+  'settings.invalidLevelsMessage': 'Gumamit ng porsiyento mula 0 hanggang 100, at dapat mas mababa ang "Malamang" kaysa sa "Tiyak".',
+  'settings.locationDeniedTitle': 'Tinanggihan ang Lokasyon',
+  'settings.locationDeniedMessage': 'Payagan ang Rice Leaf Doctor na gamitin ang lokasyon para maitala kung saan kinuha ang mga scan.',
+  'settings.backup': 'Backup at Restore',
+  'settings.backupHint': 'Laman ng backup ang bawat scan kasama ang larawan at heatmap nito, pati ang iyong mga bukid. Itago ito sa ligtas na lugar bago magpalit ng telepono.',
+  'settings.createBackup': 'Gumawa ng Backup',
+  'settings.restore': 'I-restore',
+  'settings.backupFailedTitle': 'Nabigo ang Backup',
+  'settings.backupFailedMessage': 'Hindi nagawa ang backup file.',
+  'settings.restoreFailedTitle': 'Hindi Ma-restore',
+  'settings.restoreFailedMessage': 'Hindi mabasa ang backup file.',
+  'settings.backupError.sharing': 'Hindi available ang pagbabahagi sa device na ito.',
+  'settings.backupError.invalid': 'Hindi backup ng Rice Leaf Doctor ang file na ito.',
+  'settings.backupError.newer': 'Ginawa ang backup na ito ng mas bagong bersyon ng app. I-update ang app at subukang muli.',
+};
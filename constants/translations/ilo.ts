@@ -0,0 +1,471 @@
+import { Translations } from '@/constants/translations/en';
+
+export const ilo: Translations = {
+  // Tabs
+  'tabs.scanner': 'Iscan',
+  'tabs.history': 'Pakasaritaan',
+  'tabs.stats': 'Estadistika',
+
+  // Shared
+  'common.cancel': 'Ukasen',
+  'common.delete': 'Ikkaten',
+  'common.save': 'Idulin',
+  'common.photoMissing': 'Awanen ti ladawan',
+  'common.heatmapTitle': 'Panagusig ti Heatmap',
+  'common.heatmapCaption': 'Ipakita dagiti nakolor a paset no sadino ti nakitaan ti model iti sakit.',
+
+  // Scanner
+  'scanner.title': 'Rice Leaf Doctor',
+  'scanner.welcomeTitle': 'Iscan ti Mulam',
+  'scanner.welcomeText': 'Mangala iti ladawan ti bulong ti pagay tapno maammuan ti sakit ken dagus a makaala iti balakad a pannakaagas.',
+  'scanner.gallery': 'Gallery',
+  'scanner.camera': 'Kamera',
+  'scanner.originalPhoto': 'Orihinal a Ladawan',
+  'scanner.diagnose': 'Suroten ti Sakit',
+  'scanner.resultTitle': 'Resulta ti Panagsukimat',
+  'scanner.noAdvice': 'Pangngaasiyo ta agkonsulta iti eksperto iti agrikultura.',
+  'scanner.tentativeNote': 'Nalabit a diagnosis. Idilig ti bulong iti Biblioteka ti Sakit wenno agsaludsod iti technician sakbay nga agispray.',
+  'scanner.uncertainTitle': 'Saan a Sigurado',
+  'scanner.uncertainMessage': 'Saan unay a sigurado daytoy a resulta tapno mangirekomenda iti agas (kaasitgan a pugto: {disease}, {confidence}). Mangala manen iti ladawan nga asideg iti maysa a bulong, iti lawag ti aldaw.',
+  'scanner.retake': 'Mangala Manen',
+  'scanner.savedToField': 'Naidulin iti talon',
+  'scanner.queuedScans': 'Dagiti Scan nga Agur-uray',
+  'scanner.clearFinished': 'Ikkaten dagiti nalpasen',
+  'scanner.learnMore': 'Ad-adu pay iti Biblioteka ti Sakit',
+  'scanner.bytesSaved': 'Kadakkel ti upload: {prepared} imbes nga {original} ({percent}% a basbassit)',
+  'scanner.modeLeaf': 'Maysa a Bulong',
+  'scanner.modePlant': 'Intero a Mula',
+  'scanner.plantHint': 'Mangala iti {min}–{max} a ladawan ti nadumaduma a bulong iti isu met laeng a mula tapno natibtibker ti diagnosis.',
+  'scanner.plantCount': '{count} iti {max} a ladawan',
+  'scanner.plantDiagnose': 'Suriten ti Mula',
+  'scanner.plantProgress': 'Sursuriten ti ladawan {done} iti {total}…',
+  'scanner.plantOfflineMessage': 'Masapul ti koneksion iti plant mode. Naidulin dagiti ladawam; suriten dagitoy no online kan.',
+  'scanner.plantFailedTitle': 'Napaay ti Panagsukimat ti Mula',
+  'scanner.plantFailedMessage': 'Saan a nasukimat amin a ladawan ({message}). Naidulin dagiti ladawam; padasem manen.',
+  'scanner.batchRunning': 'Sus-usigen ti {done} iti {total} a ladawan',
+  'scanner.batchFinished': 'Nalpas ti batch: {done} iti {total} a ladawan',
+  'scanner.batchView': 'Kitaen',
+  'scanner.batchBusyTitle': 'Adda Batch nga Agtartaray',
+  'scanner.batchBusyMessage': 'Urayen a malpas ti agdama a batch sakbay nga agrugi iti baro.',
+  'scanner.cameraDeniedTitle': 'Saan a Napalubosan',
+  'scanner.cameraDeniedMessage': 'Masapul nga ipalubosmo ti panagusar iti kamera.',
+  'scanner.offlineTitle': 'Naidulin para iti Madamdama',
+  'scanner.offlineMessage': 'Awan ti koneksionmo. Naikabil daytoy a scan iti pila ket automatiko a masukimat no adda manen ti koneksionmo.',
+  'scanner.networkErrorTitle': 'Parikut iti Koneksion',
+  'scanner.networkErrorMessage': 'Naikabil ti scan iti pila ket automatiko a padasen manen. Kitaen ti aktibo a server iti Settings ken siguraduen nga agtartaray ti Python server.',
+  'scanner.timeoutTitle': 'Nabayag ti Server',
+  'scanner.timeoutMessage': 'Nabayag unay ti server a simmungbat. Naikabil ti scan iti pila ket automatiko a padasen manen.',
+  'scanner.serverErrorTitle': 'Biddut iti Server',
+  'scanner.serverErrorMessage': 'Saan a maproseso ti server ti ladawan ita. Naikabil ti scan iti pila ket automatiko a padasen manen.',
+  'scanner.rejectedTitle': 'Saan a Naawat ti Ladawan',
+  'scanner.rejectedMessage': 'Saan a mabasa ti server daytoy a ladawan: {message}',
+  'scanner.invalidResponseTitle': 'Saan a Nanamnama a Sungbat',
+  'scanner.invalidResponseMessage': 'Saan a nangted ti server iti resulta. Kitaen ti aktibo a server iti Settings.',
+  'scanner.unknownErrorTitle': 'Adda Parikut',
+  'scanner.unknownErrorMessage': 'Saan a nalpas ti scan. Padasem manen.',
+
+  // Crop editor
+  'crop.title': 'I-frame ti Bulong',
+  'crop.hint': 'I-drag ti kuadrado iti naapektaran a paset ti bulong. I-drag ti suli tapno baliwan ti kadakkelna.',
+  'crop.rotate': 'I-rotate',
+  'crop.confirm': 'Usaren ti Ladawan',
+  'crop.failedTitle': 'Saan a Naisagana ti Ladawan',
+  'crop.failedMessage': 'Saan a ma-crop ti ladawan. Padasem ti sabali a ladawan.',
+
+  // Confidence bands
+  'confidence.confident': 'Sigurado',
+  'confidence.tentative': 'Nalabit',
+  'confidence.uncertain': 'Saan a Sigurado',
+
+  // Plant mode
+  'plant.agreement': '{agreement} iti {total} a ladawan ti agpada',
+  'plant.photos': 'Tunggal Ladawan',
+
+  // Correction feedback
+  'feedback.question': 'Husto kadi daytoy?',
+  'feedback.yes': 'Wen',
+  'feedback.no': 'Saan',
+  'feedback.pickLabel': 'Ania daytoy a pudno?',
+  'feedback.confirmed': 'Pinasingkedam daytoy a diagnosis.',
+  'feedback.corrected': 'Naipaayos iti {label}.',
+  'feedback.change': 'Baliwan',
+
+  // Follow-up reminders
+  'followUp.notificationTitle': 'Oras ti panag-scan manen',
+  'followUp.notificationTitleField': 'Oras ti panag-scan manen iti {field}',
+  'followUp.notificationBody': 'Kitaen no nag-epekto ti agas iti {disease}: mangala iti baro a ladawan dagiti isu met laeng a mula.',
+  'followUp.prompt': 'Ipalagipnak nga ag-scan manen kalpasan ti',
+  'followUp.inDays': '{count} nga aldaw',
+  'followUp.scheduled': 'Palagip ti panag-scan manen: {date}',
+  'followUp.change': 'Baliwan',
+  'followUp.cancel': 'Ikansel ti palagip',
+  'followUp.deniedTitle': 'Naiddep ti Notification',
+  'followUp.deniedMessage': 'Isilpo ti notification para iti Rice Leaf Doctor iti settings ti telepono tapno makaawat kadagiti palagip.',
+  'followUp.failedTitle': 'Saan a Naikeddeng ti Palagip',
+  'followUp.failedMessage': 'Saan a maikeddeng ti palagip.',
+  'followUp.banner': 'Follow-up para iti scan ti {disease} idi {date}',
+  'followUp.linkedOriginal': 'Follow-up ti scan ti {disease} idi {date}',
+  'followUp.linkedFollowUps_one': '{count} a follow-up a scan',
+  'followUp.linkedFollowUps_other': '{count} a follow-up a scan',
+
+  // Reminders screen
+  'reminders.title': 'Dagiti Palagip ti Panag-scan Manen',
+  'reminders.upcoming': 'Umay',
+  'reminders.done': 'Nalpas',
+  'reminders.noField': 'Awan ti talon',
+  'reminders.due': 'Petsa: {date}',
+  'reminders.overdue': 'Naglabas manipud {date}',
+  'reminders.rescanned': 'Na-scan manen idi {date}',
+  'reminders.scanNow': 'Ag-scan Itan',
+  'reminders.move': 'Iyalis',
+  'reminders.cancel': 'Ikansel',
+  'reminders.inDays_one': 'Kalpasan ti {count} nga aldaw',
+  'reminders.inDays_other': 'Kalpasan ti {count} nga aldaw',
+  'reminders.moveFailed': 'Saan a maiyalis ti palagip.',
+  'reminders.cancelTitle': 'Ikansel ti Palagip',
+  'reminders.cancelMessage': 'Isardeng ti palagip nga ag-scan manen iti scan ti {disease}?',
+  'reminders.keep': 'Idulin',
+  'reminders.empty': 'Awan pay ti palagip.',
+  'reminders.emptyHint': 'Kalpasan ti diagnosis, pilien no kaano ti panag-scan manen ket ipalagip ti app a kitaen ti agas.',
+  'reminders.error.permission': 'Naiddep ti notification para iti Rice Leaf Doctor.',
+
+  // Treatment log
+  'treatment.title': 'Dagiti Agas ken Resulta',
+  'treatment.empty': 'Awan pay ti nailista nga agas. Ilistam ti inyaplikarmo tapno makitam no naawan ti sakit.',
+  'treatment.add': 'Ilista ti Agas',
+  'treatment.product': 'Produkto',
+  'treatment.activeIngredient': 'Aktibo a sangkap',
+  'treatment.dose': 'Kaadu',
+  'treatment.appliedOn': 'Petsa ti panangiyaplikar (YYYY-MM-DD)',
+  'treatment.cost': 'Gastos',
+  'treatment.save': 'Idulin',
+  'treatment.invalidTitle': 'Kitaen ti Agas',
+  'treatment.invalid.product': 'Isurat ti produkto nga inusar.',
+  'treatment.invalid.date': 'Isurat ti petsa a kas YYYY-MM-DD, kas pagarigan 2025-06-30.',
+  'treatment.invalid.cost': 'Isurat ti gastos a kas numero, 0 wenno ad-adu pay.',
+  'treatment.deleteTitle': 'Ikkaten ti Agas',
+  'treatment.deleteMessage': 'Ikkaten ti {product} iti listaan?',
+  'treatment.thisScan': 'Daytoy a scan',
+  'treatment.laterScan': 'Simmaruno a scan',
+  'treatment.outcome.cleared': 'Naawan: nasalun-at ti scan idi {date}.',
+  'treatment.outcome.persisted': 'Saan a naawan: {disease} latta idi {date}.',
+  'treatment.outcome.changed': 'Nagbaliw: {disease} idi {date}.',
+  'treatment.outcome.pending': 'Awan pay ti scan manipud idi. Ag-scan manen tapno makita no nag-epekto.',
+
+  // Read aloud
+  'speech.listen': 'Basaen a napigsa',
+  'speech.pause': 'Isardeng a kanito ti panagbasa',
+  'speech.resume': 'Ituloy ti panagbasa',
+  'speech.stop': 'Isardeng ti panagbasa',
+  'speech.confidence': 'Kinasigurado: {band}, {confidence}',
+
+  // Screen reader labels
+  'a11y.library': 'Biblioteka ti sakit',
+  'a11y.fields': 'Dagiti talon',
+  'a11y.settings': 'Dagiti setting',
+  'a11y.notFollowUp': 'Saan a follow-up a scan',
+  'a11y.removePhoto': 'Ikkaten ti ladawan {number}',
+  'a11y.reminders': 'Dagiti pammalagip iti panag-scan manen',
+  'a11y.locations': 'Dagiti lokasion ti scan',
+  'a11y.export': 'I-export ti pakasaritaan',
+  'a11y.clearHistory': 'Punasen amin a pakasaritaan',
+  'a11y.close': 'Irikep',
+  'a11y.filters': 'Sagaten ken urnosen',
+  'a11y.clearSearch': 'Punasen ti birbiruken',
+  'a11y.retryScan': 'Padasen manen ti scan',
+  'a11y.removeScan': 'Ikkaten iti pila',
+  'a11y.scan': '{disease}, {confidence}, {date}',
+
+  // Photo quality check
+  'quality.title': 'Panangsukimat ti Ladawan',
+  'quality.low_resolution': 'Umasideg pay: bassit unay ti bulong iti ladawan.',
+  'quality.too_dark': 'Nasipnget unay: mapan iti lawag wenno rumuar iti linong.',
+  'quality.too_bright': 'Nalawag unay: liklikan ti silap ti init, linongam ti bulong babaen ti imam.',
+  'quality.blurry': 'Nalibeg: iggaman a nasayaat ti telepono ken i-tap ti bulong tapno ag-focus.',
+  'quality.alertMessage': 'Mabalin a biddut ti resulta daytoy a ladawan:\n\n{issues}',
+  'quality.plantAlertMessage': 'Mabalin a biddut ti resulta ti dadduma a ladawan daytoy a mula:\n\n{issues}\n\nIkkaten ti Mangala Manen dagidiay a ladawan tapno makainayonka iti baro.',
+  'quality.plantPhotoIssue': 'Ladawan {number}: {issue}',
+  'quality.retake': 'Mangala Manen',
+  'quality.sendAnyway': 'Ipatulod Latta',
+
+  // Offline queue
+  'queue.status.pending': 'Agur-uray',
+  'queue.status.uploading': 'Ag-up-upload',
+  'queue.status.failed': 'Napaay',
+  'queue.status.done': 'Nalpas',
+  'queue.attemptFailed': 'Napaay ti padas {attempts}. Padasen manen iti {time}.',
+  'queue.failedRetry': '{error} Pindutem ti retry tapno ipatulod manen.',
+  'queue.diagnosisFailed': 'Napaay ti panagsukimat.',
+  'queue.uploading': 'Ipatpatulod ti ladawan iti server...',
+  'queue.pending': 'Mai-upload no adda koneksionmo.',
+
+  // Probability bars
+  'probabilities.title': 'Amin a Posibilidad',
+  'probabilities.closeCall': 'Agpada unay: asideg ti iskor ti {first} ken {second}.',
+
+  // Field picker
+  'fieldPicker.label': 'Talon',
+  'fieldPicker.none': 'Awan a talon',
+  'fieldPicker.new': 'Baro a talon',
+
+  // Disease library
+  'library.title': 'Biblioteka ti Sakit',
+  'library.intro': 'Kitaen dagiti gagangay a parikut ti bulong ti pagay, no kasano a mailasin ken kasano nga agasan.',
+  'library.severity.none': 'Awan ti peggad',
+  'library.severity.low': 'Nababa a peggad',
+  'library.severity.moderate': 'Katamtaman a peggad',
+  'library.severity.high': 'Nangato a peggad',
+  'library.symptoms': 'Dagiti Sintomas',
+  'library.cause': 'Gapu',
+  'library.conditions': 'Dagiti Kasasaad a Mangpakaro',
+  'library.treatment': 'Pannakaagas',
+  'library.prevention': 'Panaglapped',
+  'library.ingredients': 'Dagiti Mairekomenda nga Active Ingredient',
+  'library.ingredientsHint': 'Basaen ti label ti produkto ken siguraduen a narehistro sakbay nga agispray.',
+  'library.severity': 'Kinakaro',
+  'library.photos': 'Dagiti Pagarigan a Ladawan',
+  'library.yourScans': 'Manipud kadagiti Scan-mo',
+  'library.notFound': 'Awan iti biblioteka daytoy a sakit.',
+
+  // Batch diagnosis
+  'batch.title': 'Adu a Panagsukimat',
+  'batch.progress': '{done} iti {total} a ladawan ti nasukimaten',
+  'batch.summary': 'Pakabuklan',
+  'batch.photos': 'Dagiti Ladawan',
+  'batch.queued_one': '{count} a ladawan ti masukimat no adda manen ti koneksion.',
+  'batch.queued_other': '{count} a ladawan ti masukimat no adda manen ti koneksion.',
+  'batch.failed_one': '{count} a ladawan ti saan a nasukimat.',
+  'batch.failed_other': '{count} a ladawan ti saan a nasukimat.',
+  'batch.unsaved_one': '{count} a diagnosis ti saan a naidulin iti pakasaritaan.',
+  'batch.unsaved_other': '{count} a diagnosis ti saan a naidulin iti pakasaritaan.',
+  'batch.status.pending': 'Agur-uray',
+  'batch.status.uploading': 'Sus-usigen...',
+  'batch.status.queued': 'Adda iti pila',
+  'batch.status.failed': 'Napaay',
+  'batch.status.unsaved': 'Saan a naidulin',
+  'batch.done': 'Nalpas',
+  'batch.empty': 'Awan ti batch nga agtartaray. Mangpili iti sumagmamano a ladawan iti gallery tapno agrugi.',
+
+  // History
+  'history.title': 'Pakasaritaan ti Sakit',
+  'history.clearTitle': 'Ikkaten ti Pakasaritaan',
+  'history.clearMessage': 'Siguradoka kadi nga ikkatem amin a napalabas a rekord?',
+  'history.deleteTitle': 'Ikkaten ti Rekord',
+  'history.deleteMessage': 'Ikkaten daytoy a scan ti {label} idi {date}?',
+  'history.emptyTitle': 'Awan pay ti pakasaritaan.',
+  'history.emptyMessage': 'Ag-scan iti bulong ti pagay iti Scanner tapno makita ditoy dagiti resulta.',
+  'history.waiting': 'Agur-uray iti Panagsukimat ({count})',
+  'history.noMatches': 'Awan ti scan a maitunos kadagitoy a filter.',
+  'history.confidence': 'Kinasigurado: {value}',
+  'history.advice': 'Pannakaagas ken Balakad:',
+  'history.notes': 'Dagiti Nota',
+  'history.notesPlaceholder': 'kas pagarigan: Amianan a suli ti talon, kalpasan ti napigsa a tudo',
+  'history.saveNotes': 'Idulin ti Nota',
+  'history.deleteEntry': 'Ikkaten ti Rekord',
+
+  // History filters
+  'filters.search': 'Agsapul kadagiti nota ken balakad',
+  'filters.disease': 'Sakit',
+  'filters.field': 'Talon',
+  'filters.allFields': 'Amin a talon',
+  'filters.date': 'Petsa',
+  'filters.days': '{count} nga aldaw',
+  'filters.year': '1 a tawen',
+  'filters.from': 'Manipud YYYY-MM-DD',
+  'filters.to': 'Agingga YYYY-MM-DD',
+  'filters.confidence': 'Kinasigurado (%)',
+  'filters.band': 'Kinapudno',
+  'filters.min': 'Min',
+  'filters.max': 'Max',
+  'filters.sortBy': 'Iurnos babaen ti',
+  'filters.sort.date': 'Petsa',
+  'filters.sort.confidence': 'Kinasigurado',
+  'filters.sort.disease': 'Sakit',
+  'filters.matchCount_one': '{count} a maitunos a scan',
+  'filters.matchCount_other': '{count} a maitunos a scan',
+  'filters.reset': 'I-reset',
+
+  // Statistics
+  'stats.title': 'Estadistika ti Talon',
+  'stats.window.7d': '7 nga aldaw',
+  'stats.window.30d': '30 nga aldaw',
+  'stats.window.90d': '90 nga aldaw',
+  'stats.window.all': 'Amin',
+  'stats.empty': 'Awan ti scan iti daytoy a panawen.',
+  'stats.emptyHint': 'Ti estadistika ket naggapu iti naidulin a pakasaritaan ti scan.',
+  'stats.scans': 'Dagiti Scan',
+  'stats.diseased': 'Adda Sakit',
+  'stats.healthy': 'Nasalun-at',
+  'stats.ratioTitle': 'Nasalun-at ken Adda Sakit',
+  'stats.notRice_one': '{count} a scan ti saan a bulong ti pagay ket saan a nabilang.',
+  'stats.notRice_other': '{count} a scan ti saan a bulong ti pagay ket saan a nabilang.',
+  'stats.frequencyTitle': 'Kaadu ti Sakit',
+  'stats.overTimeTitle': 'Dagiti Scan iti Panawen',
+  'stats.confidenceTitle': 'Promedio a Kinasigurado iti Tunggal Klase',
+  'stats.peak_one': 'Kaaduan: {count} a scan',
+  'stats.peak_other': 'Kaaduan: {count} a scan',
+  'stats.treatmentsTitle': 'Resulta dagiti Agas',
+  'stats.treatmentUses_one': '{count} a daras a naaramat',
+  'stats.treatmentUses_other': '{count} a daras a naaramat',
+  'stats.treatmentCost': 'gastos {cost}',
+  'stats.treatmentHealthy': 'Nasalun-at kalpasan ti {cleared} iti {checked}',
+  'stats.treatmentNotRescanned': 'Saan pay a na-scan manen',
+  'stats.treatmentsNote': 'Maibilang nga nag-epekto ti agas no {healthy} ti nagbanagan dagiti simmaruno a scan dagiti isu met laeng a mula wenno talon. Mairaman amin a scan, saan laeng a daytoy a panawen.',
+
+  // Fields
+  'fields.title': 'Dagiti Talonko',
+  'fields.empty': 'Awan pay ti talon.',
+  'fields.emptyHint': 'Inayon dagiti talonmo tapno masurotmo dagiti scan ti tunggal maysa iti intero a panawen.',
+  'fields.hectares': '{area} ha',
+  'fields.planted': 'Naimula {date}',
+  'fields.noDetails': 'Awan pay ti detalye',
+  'fields.scans_one': '{count} a scan',
+  'fields.scans_other': '{count} a scan',
+  'fields.last': 'Maudi: {disease}, {date}',
+  'fields.fallbackTitle': 'Talon',
+  'fields.deleteTitle': 'Ikkaten ti Talon',
+  'fields.deleteMessage': 'Ikkaten ti "{name}"? Agtalinaed dagiti scan-na iti pakasaritaan nga awan ti talon.',
+  'fields.missing': 'Awanen daytoy a talon.',
+  'fields.status': 'Agdama a Kasasaad',
+  'fields.lastDiagnosis': 'Maudi a diagnosis: {disease} ({confidence}) idi {date}',
+  'fields.noScans': 'Awan pay ti scan ti bulong ti pagay iti daytoy a talon.',
+  'fields.variety': 'Barayti: {value}',
+  'fields.area': 'Kalawa: {value}',
+  'fields.plantedOn': 'Naimula: {value}',
+  'fields.timeline': 'Pagsasaruno dagiti Scan ({count})',
+  'fields.health.healthy': 'Nasalun-at',
+  'fields.health.diseased': 'Adda nakita a sakit',
+  'fields.health.unknown': 'Saan pay a na-scan',
+  'fields.editTitle': 'Baliwan ti Talon',
+  'fields.newTitle': 'Baro a Talon',
+  'fields.nameLabel': 'Nagan',
+  'fields.namePlaceholder': 'kas iti Talon iti Amianan',
+  'fields.areaLabel': 'Kalawa (ektarya)',
+  'fields.areaPlaceholder': 'kas iti 1.5',
+  'fields.varietyLabel': 'Barayti',
+  'fields.varietyPlaceholder': 'kas iti NSIC Rc222',
+  'fields.plantingLabel': 'Petsa ti Panagmula',
+  'fields.saveChanges': 'Idulin dagiti Panagbaliw',
+  'fields.create': 'Agaramid iti Talon',
+  'fields.missingNameTitle': 'Awan ti Nagan',
+  'fields.missingNameMessage': 'Ikkam iti nagan daytoy a talon, kas iti "Talon iti Amianan".',
+  'fields.invalidAreaTitle': 'Saan nga Umiso a Kalawa',
+  'fields.invalidAreaMessage': 'Isurat ti kalawa iti ektarya, kas iti 1.5',
+  'fields.invalidDateTitle': 'Saan nga Umiso a Petsa',
+  'fields.invalidDateMessage': 'Isurat ti petsa ti panagmula a kas YYYY-MM-DD.',
+
+  // Scan locations
+  'locations.title': 'Dagiti Lokasion ti Scan',
+  'locations.finding': 'Birbirukenna ti ayanmo…',
+  'locations.nearestFirst': 'Umuna dagiti kaasitgan a lugar.',
+  'locations.unknownPosition': 'Saan nga ammo ti ayanmo, isu a naurnos dagiti lugar babaen ti kaadu ti scan.',
+  'locations.untagged_one': '{count} a scan ti awan ti lokasionna.',
+  'locations.untagged_other': '{count} a scan ti awan ti lokasionna.',
+  'locations.groupWithin': 'Pagtiponen dagiti scan iti uneg ti',
+  'locations.empty': 'Awan pay ti scan nga addaan iti lokasion.',
+  'locations.emptyHint': 'I-on ti "Ilista ti lokasion ti scan" iti Dagiti Setting tapno makitam no sadino ti pakakitaan dagiti sakit.',
+  'locations.spot': 'Lugar {number}',
+  'locations.away': '{distance} ti kaadayo',
+  'locations.scans_one': '{count} a scan',
+  'locations.scans_other': '{count} a scan',
+  'locations.lastScanned': 'Maudi a na-scan {date}',
+
+  // Export
+  'export.title': 'I-export ti Pakasaritaan',
+  'export.format': 'Format',
+  'export.csvHint': 'Maysa a linia kada scan, para iti spreadsheet',
+  'export.jsonHint': 'Kompleto a rekord, agraman dagiti probabilidad',
+  'export.datasetHint': 'Dagiti narepaso a ladawan iti maysa a folder iti tunggal sakit, para iti panangsanay manen iti model',
+  'export.dateRange': 'Sakup ti petsa (saan a nasken)',
+  'export.button': 'I-export ken Ibinglay',
+  'export.invalidDateTitle': 'Di Umiso a Petsa',
+  'export.invalidDateMessage': 'Isuratmo ti petsa a kas YYYY-MM-DD, wenno baybay-am a blanko tapno mai-export amin.',
+  'export.emptyTitle': 'Awan ti Mai-export',
+  'export.emptyMessage': 'Awan ti scan iti daytoy a sakup ti petsa.',
+  'export.datasetEmptyMessage': 'Awan pay ti narepaso a scan. Sungbatam pay ti "Husto kadi daytoy?" iti sumagmamano a scan.',
+  'export.failedTitle': 'Napaay ti Panag-export',
+  'export.failedMessage': 'Saan a naaramid ti file.',
+  'export.shareTitle': 'I-export ti pakasaritaan ti scan',
+  'export.datasetShareTitle': 'I-export ti dataset para iti training',
+  'export.error.sharing': 'Saan a mabalin ti panagibinglay iti daytoy a device.',
+
+  // Restore backup
+  'restore.title': 'Isubli ti Backup',
+  'restore.mergeKeep': 'Pagtiponen, taginayonen ti kukuak',
+  'restore.mergeKeepHint': 'Inayon dagiti kurang a scan; dagiti adda iti daytoy a telepono ti masurot',
+  'restore.mergeOverwrite': 'Pagtiponen, usaren ti backup',
+  'restore.mergeOverwriteHint': 'Inayon dagiti kurang a scan; ti kopia ti backup ti masurot',
+  'restore.replace': 'Sukatan amin',
+  'restore.replaceHint': 'Punasen nga umuna ti pakasaritaan iti daytoy a telepono',
+  'restore.scans_one': '{count} a scan',
+  'restore.scans_other': '{count} a scan',
+  'restore.fields_one': '{count} a talon',
+  'restore.fields_other': '{count} a talon',
+  'restore.contents': '{scans} ken {fields}',
+  'restore.backedUp': 'Na-backup idi {date}',
+  'restore.conflicts_one': '{count} a scan ti adda metten iti daytoy a telepono.',
+  'restore.conflicts_other': '{count} a scan ti adda metten iti daytoy a telepono.',
+  'restore.skipped_one': '{count} a nadadael a rekord ti malaktawan.',
+  'restore.skipped_other': '{count} a nadadael a rekord ti malaktawan.',
+  'restore.button': 'Isubli',
+  'restore.completeTitle': 'Nalpas ti Panangisubli',
+  'restore.restored_one': '{count} a scan ti naisubli.',
+  'restore.restored_other': '{count} a scan ti naisubli.',
+  'restore.kept_one': '{count} a dati a scan ti nataginayon.',
+  'restore.kept_other': '{count} a dati a scan ti nataginayon.',
+  'restore.failedTitle': 'Saan a Naisubli',
+  'restore.failedMessage': 'Saan a naisubli ti backup. Padasem manen.',
+  'restore.replaceTitle': 'Sukatan ti Pakasaritaan',
+  'restore.replaceMessage': 'Mapunas amin a scan iti daytoy a telepono ket masukatan iti backup. Saanen a maisubli daytoy.',
+  'restore.replaceConfirm': 'Sukatan',
+
+  // Settings
+  'settings.language': 'Pagsasao',
+  'settings.languageHint': 'Maus-usar kadagiti screen, balakad a pannakaagas ken petsa.',
+  'settings.backupShareTitle': 'Idulin ti backup',
+  'settings.title': 'Dagiti Setting',
+  'settings.server': 'Server ti Diagnosis',
+  'settings.serverHint': 'Maipatulod dagiti scan iti napili a server. Agusar iti lokal a profile bayat nga agtaray ti app.py iti computermo.',
+  'settings.editServerTitle': 'Baliwan ti Server',
+  'settings.addServerTitle': 'Agnayon iti Server',
+  'settings.serverName': 'Nagan (kas iti Local Flask)',
+  'settings.addServer': 'Inayon',
+  'settings.missingNameTitle': 'Awan ti Nagan',
+  'settings.missingNameMessage': 'Ikkam iti nagan daytoy a server, kas iti "Local Flask".',
+  'settings.invalidAddressTitle': 'Saan nga Umiso nga Address',
+  'settings.invalidAddressMessage': 'Isurat ti naan-anay nga address a kas iti http://192.168.1.10:5000',
+  'settings.deleteServerTitle': 'Ikkaten ti Server',
+  'settings.deleteServerMessage': 'Ikkaten ti "{name}" kadagiti servermo?',
+  'settings.health.online': 'Online',
+  'settings.health.httpError': 'Status {status}',
+  'settings.health.notRiceServer': 'Saan a Rice Doctor server',
+  'settings.health.timeout': 'Nagpaso ti oras',
+  'settings.health.unreachable': 'Saan a madanon',
+  'settings.appearance': 'Langa',
+  'settings.appearanceHint': 'Surotan ti System ti dark mode a setting ti telepono.',
+  'settings.theme.system': 'System',
+  'settings.theme.light': 'Nalawag',
+  'settings.theme.dark': 'Nasipnget',
+  'settings.location': 'Lokasion',
+  'settings.geotag': 'Ilista ti lokasion ti scan',
+  'settings.geotagHint': 'Idulinna no sadino ti nakaalaan ti tunggal ladawan tapno mabunggoy dagiti scan babaen ti lugar. Dagiti ladawan manipud iti gallery ket agusar iti lokasion a naidulin iti ladawan.',
+  'settings.confidence': 'Tukad ti Kinasigurado',
+  'settings.confidenceHint': 'Dagiti resulta a nababbaba ngem ti tukad a "Nalabit" ket awan ti balakad a pannakaagas ken agkiddaw iti baro a ladawan. Dagiti resulta iti nagbaetan ti dua a tukad ket maimarkaan a nalabit.',
+  'settings.confidentFrom': 'Sigurado manipud iti (%)',
+  'settings.tentativeFrom': 'Nalabit manipud iti (%)',
+  'settings.invalidLevelsTitle': 'Saan nga Umiso a Tukad',
+  'settings.invalidLevelsMessage': 'Agusar iti porsiento manipud 0 agingga 100, ken nababbaba koma ti "Nalabit" ngem ti "Sigurado".',
+  'settings.locationDeniedTitle': 'Naiyaw-awan ti Lokasion',
+  'settings.locationDeniedMessage': 'Palubosam ti Rice Leaf Doctor nga agusar iti lokasion tapno mailista no sadino ti nakaalaan dagiti scan.',
+  'settings.backup': 'Backup ken Restore',
+  'settings.backupHint': 'Linaon ti backup ti tunggal scan agraman ti ladawan ken heatmap-na, ken dagiti talonmo. Idulin iti natalged a lugar sakbay nga agsukat iti telepono.',
+  'settings.createBackup': 'Agaramid iti Backup',
+  'settings.restore': 'I-restore',
+  'settings.backupFailedTitle': 'Napaay ti Backup',
+  'settings.backupFailedMessage': 'Saan a naaramid ti backup file.',
+  'settings.restoreFailedTitle': 'Saan a Ma-restore',
+  'settings.restoreFailedMessage': 'Saan a mabasa ti backup file.',
+  'settings.backupError.sharing': 'Saan a mabalin ti panagbingay iti daytoy a device.',
+  'settings.backupError.invalid': 'Saan a backup ti Rice Leaf Doctor daytoy a file.',
+  'settings.backupError.newer': 'Naaramid daytoy a backup iti baro a bersion ti app. I-update ti app ket padasem manen.',
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { AppSettings, peekAppSettings, subscribeToAppSettings } from '@/services/app-settings';
+
+/**
+ * App-wide preferences from the Settings screen. Null until loaded from storage.
+ */
+export function useAppSettings() {
+  const [settings, setSettings] = useState<AppSettings | null>(peekAppSettings);
+
+  useEffect(() => subscribeToAppSettings(setSettings), []);
+
+  return settings;
+}
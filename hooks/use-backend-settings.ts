@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { BackendSettings, subscribeToBackendSettings } from '@/services/backend-profiles';
+
+/**
+ * Saved backend profiles and the active one. Null until loaded from storage.
+ */
+export function useBackendSettings() {
+  const [settings, setSettings] = useState<BackendSettings | null>(null);
+
+  useEffect(() => subscribeToBackendSettings(setSettings), []);
+
+  return settings;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+import { BatchScan, getBatchScan, subscribeToBatchScan } from '@/services/batch-scan';
+
+/**
+ * Live view of the current gallery batch, or null when there is none.
+ * Re-renders as each photo is uploaded and diagnosed.
+ */
+export function useBatchScan() {
+  const [batch, setBatch] = useState<BatchScan | null>(getBatchScan);
+
+  useEffect(() => subscribeToBatchScan(setBatch), []);
+
+  return batch;
+}
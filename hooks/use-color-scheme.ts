@@ -1 +1,13 @@
-export { useColorScheme } from 'react-native';
+import { useColorScheme as useSystemColorScheme } from 'react-native';
+
+import { useAppSettings } from '@/hooks/use-app-settings';
+
+/**
+ * The phone's light / dark setting, unless a theme is picked in Settings.
+ */
+export function useColorScheme() {
+  const systemScheme = useSystemColorScheme();
+  const preference = useAppSettings()?.theme ?? 'system';
+
+  return preference === 'system' ? systemScheme : preference;
+}
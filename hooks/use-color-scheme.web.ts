@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useColorScheme as useRNColorScheme } from 'react-native';
 
+import { useAppSettings } from '@/hooks/use-app-settings';
+
 /**
  * To support static rendering, this value needs to be re-calculated on the client side for web
  */
@@ -12,9 +14,10 @@ export function useColorScheme() {
   }, []);
 
   const colorScheme = useRNColorScheme();
+  const preference = useAppSettings()?.theme ?? 'system';
 
   if (hasHydrated) {
-    return colorScheme;
+    return preference === 'system' ? colorScheme : preference;
   }
 
   return 'light';
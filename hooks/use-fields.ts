@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { Field, subscribeToFields } from '@/services/fields';
+
+/**
+ * Every saved field, kept in sync with edits made on other screens.
+ */
+export function useFields() {
+  const [fields, setFields] = useState<Field[]>([]);
+
+  useEffect(() => subscribeToFields(setFields), []);
+
+  return fields;
+}
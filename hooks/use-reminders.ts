@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { Reminder, subscribeToReminders } from '@/services/reminders';
+
+/**
+ * Every follow-up reminder, pending and done, kept in sync across screens.
+ */
+export function useReminders() {
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+
+  useEffect(() => subscribeToReminders(setReminders), []);
+
+  return reminders;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+import { QueuedScan, subscribeToScanQueue } from '@/services/scan-queue';
+
+/**
+ * Live view of the offline scan queue. Re-renders whenever an item is added,
+ * changes status or is removed.
+ */
+export function useScanQueue() {
+  const [queue, setQueue] = useState<QueuedScan[]>([]);
+
+  useEffect(() => subscribeToScanQueue(setQueue), []);
+
+  return queue;
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+import { SpeechState, getSpeechState, subscribeToSpeech } from '@/services/speech';
+
+/**
+ * What the read-aloud player is doing, shared so only one card shows as playing.
+ */
+export function useSpeech() {
+  const [speech, setSpeech] = useState<SpeechState>(getSpeechState);
+
+  useEffect(() => subscribeToSpeech(setSpeech), []);
+
+  return speech;
+}
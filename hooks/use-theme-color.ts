@@ -3,7 +3,9 @@
  * https://docs.expo.dev/guides/color-schemes/
  */
 
-import { Colors } from '@/constants/theme';
+import { useMemo } from 'react';
+
+import { Colors, ThemeColors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 export function useThemeColor(
@@ -19,3 +21,18 @@ export function useThemeColor(
     return Colors[theme][colorName];
   }
 }
+
+// The whole palette for the current scheme.
+export function useThemeColors() {
+  const theme = useColorScheme() ?? 'light';
+  return Colors[theme];
+}
+
+/**
+ * Styles built from the current palette. `createStyles` should live at
+ * module level so they are only rebuilt when the scheme changes.
+ */
+export function useThemedStyles<T>(createStyles: (colors: ThemeColors) => T) {
+  const colors = useThemeColors();
+  return useMemo(() => createStyles(colors), [createStyles, colors]);
+}
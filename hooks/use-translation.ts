@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+
+import { DiseaseLabel } from '@/constants/labels';
+import { DEFAULT_LANGUAGE } from '@/constants/languages';
+import { TranslationKey } from '@/constants/translations/en';
+import { useAppSettings } from '@/hooks/use-app-settings';
+import {
+  PluralKey,
+  TranslationParams,
+  formatDateTime,
+  formatTime,
+  getDiseaseAdvice,
+  getDiseaseEntry,
+  getDiseaseName,
+  translate,
+  translatePlural,
+} from '@/services/i18n';
+
+/**
+ * Translation helpers bound to the language chosen in Settings. Screens
+ * re-render in the new language as soon as it changes.
+ */
+export function useTranslation() {
+  const settings = useAppSettings();
+  const language = settings?.language ?? DEFAULT_LANGUAGE;
+
+  return useMemo(
+    () => ({
+      language,
+      t: (key: TranslationKey, params?: TranslationParams) => translate(language, key, params),
+      tn: (key: PluralKey, count: number, params?: TranslationParams) =>
+        translatePlural(language, key, count, params),
+      diseaseName: (label: string) => getDiseaseName(label, language),
+      diseaseAdvice: (label: string) => getDiseaseAdvice(label, language),
+      diseaseEntry: (label: DiseaseLabel) => getDiseaseEntry(label, language),
+      formatDate: (value: string | number | Date) => formatDateTime(value, language),
+      formatTime: (value: string | number | Date) => formatTime(value, language),
+    }),
+    [language]
+  );
+}
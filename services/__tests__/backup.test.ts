@@ -0,0 +1,132 @@
+import JSZip from 'jszip';
+
+import { BACKUP_VERSION, BackupError, readBackup } from '@/services/backup';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Backups are read through `new File(uri)`; serve them from memory instead.
+const mockFiles = new Map<string, Uint8Array>();
+jest.mock('expo-file-system', () => ({
+  Directory: jest.fn(),
+  Paths: { cache: { uri: 'file:///cache/' }, document: { uri: 'file:///document/' } },
+  File: jest.fn().mockImplementation((uri: string) => ({
+    bytes: async () => mockFiles.get(uri) ?? new Uint8Array(),
+    text: async () => new TextDecoder().decode(mockFiles.get(uri)),
+  })),
+}));
+
+jest.mock('@/services/history', () => ({
+  ...jest.requireActual('@/services/history'),
+  getAllHistory: jest.fn(async () => [{ id: '2' }]),
+}));
+
+jest.mock('@/services/reminders', () => ({ clearReminders: jest.fn() }));
+
+const BACKUP_URI = 'file:///downloads/backup';
+
+const item = (id: string) => ({
+  id,
+  label: 'Brown Spot',
+  confidence: 87.5,
+  imageUri: `file:///document/scans/${id}.jpg`,
+  createdAt: '2025-06-01T04:00:00.000Z',
+  advice: 'Treat seeds with fungicides.',
+});
+
+const saveJson = (backup: unknown) => {
+  mockFiles.set(BACKUP_URI, new TextEncoder().encode(JSON.stringify(backup)));
+};
+
+const errorOf = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('Expected a BackupError');
+    },
+    (error: BackupError) => error
+  );
+
+describe('readBackup', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+  });
+
+  it('rejects files that are not backups', async () => {
+    mockFiles.set(BACKUP_URI, new TextEncoder().encode('not json'));
+    await expect(errorOf(readBackup(BACKUP_URI))).resolves.toMatchObject({ name: 'BackupError', kind: 'invalid' });
+
+    saveJson({ format: 'something-else', version: 1, entries: [] });
+    await expect(errorOf(readBackup(BACKUP_URI))).resolves.toMatchObject({ kind: 'invalid' });
+
+    saveJson({ format: 'rice-leaf-doctor-backup', version: 1 });
+    await expect(errorOf(readBackup(BACKUP_URI))).resolves.toMatchObject({ kind: 'invalid' });
+  });
+
+  it('rejects backups from a newer app', async () => {
+    saveJson({ format: 'rice-leaf-doctor-backup', version: BACKUP_VERSION + 1, entries: [] });
+    await expect(errorOf(readBackup(BACKUP_URI))).resolves.toMatchObject({ kind: 'newer' });
+  });
+
+  it('skips damaged entries and nameless fields', async () => {
+    const zip = new JSZip();
+    zip.file('files/1/image.jpg', 'photo');
+    zip.file(
+      'backup.json',
+      JSON.stringify({
+        format: 'rice-leaf-doctor-backup',
+        version: BACKUP_VERSION,
+        historySchemaVersion: 3,
+        createdAt: '2025-06-02T00:00:00.000Z',
+        fields: [{ id: 'north', name: 'North paddy' }, { id: 'blank', name: '  ' }, { id: 'unnamed' }, 'south'],
+        entries: [
+          { item: item('1'), image: 'files/1/image.jpg' },
+          { item: { ...item('2'), advice: undefined }, photos: ['files/2/photo-1.jpg', 7] },
+          { item: { ...item('3'), confidence: 'high' } },
+          { item: { ...item('4'), createdAt: 'yesterday' } },
+          { item: { ...item('5'), photos: 'all of them' } },
+          { image: 'files/6/image.jpg' },
+          null,
+        ],
+      })
+    );
+    mockFiles.set(BACKUP_URI, await zip.generateAsync({ type: 'uint8array' }));
+
+    const preview = await readBackup(BACKUP_URI);
+
+    expect(preview.createdAt).toBe('2025-06-02T00:00:00.000Z');
+    expect(preview.fields).toEqual([{ id: 'north', name: 'North paddy' }]);
+    expect(preview.entries).toEqual([
+      { item: item('1'), image: 'files/1/image.jpg', heatmap: undefined, photos: undefined },
+      { item: { ...item('2'), advice: '' }, image: undefined, heatmap: undefined, photos: ['files/2/photo-1.jpg', null] },
+    ]);
+    expect(preview.skipped).toBe(5);
+    expect(preview.conflicts).toEqual(['2']);
+    await expect(preview.readFile('files/1/image.jpg')).resolves.toBe(Buffer.from('photo').toString('base64'));
+    await expect(preview.readFile('files/9/image.jpg')).resolves.toBeNull();
+  });
+
+  it('upgrades version 1 backups with inline images', async () => {
+    saveJson({
+      format: 'rice-leaf-doctor-backup',
+      version: 1,
+      entries: [
+        {
+          item: { id: 1748750400000, label: 'Leaf Blast', confidence: '92.10%', imageUri: 'file:///old.jpg', advice: '' },
+          image: { data: 'aW1hZ2U=', extension: '.png' },
+        },
+      ],
+    });
+
+    const preview = await readBackup(BACKUP_URI);
+
+    expect(preview.entries).toHaveLength(1);
+    expect(preview.entries[0].item).toMatchObject({
+      id: '1748750400000',
+      confidence: 92.1,
+      createdAt: new Date(1748750400000).toISOString(),
+    });
+    expect(preview.entries[0].image).toBe('0/image.png');
+    await expect(preview.readFile('0/image.png')).resolves.toBe('aW1hZ2U=');
+  });
+});
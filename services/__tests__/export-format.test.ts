@@ -0,0 +1,29 @@
+import { escapeCsv, fileExtension } from '@/services/export-format';
+
+describe('escapeCsv', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsv('Brown Spot')).toBe('Brown Spot');
+    expect(escapeCsv('')).toBe('');
+  });
+
+  it('quotes values with commas or line breaks', () => {
+    expect(escapeCsv('2 tbsp, 16 L')).toBe('"2 tbsp, 16 L"');
+    expect(escapeCsv('Lower leaves\nnear the canal')).toBe('"Lower leaves\nnear the canal"');
+    expect(escapeCsv('first\r\nsecond')).toBe('"first\r\nsecond"');
+  });
+
+  it('doubles quotes inside a quoted value', () => {
+    expect(escapeCsv('the "new" field')).toBe('"the ""new"" field"');
+  });
+});
+
+describe('fileExtension', () => {
+  it('keeps the extension with its dot', () => {
+    expect(fileExtension('file:///scans/1.PNG')).toBe('.PNG');
+    expect(fileExtension('file:///scans/1.jpeg')).toBe('.jpeg');
+  });
+
+  it('treats photos without an extension as JPEGs', () => {
+    expect(fileExtension('content://media/external/images/42')).toBe('.jpg');
+  });
+});
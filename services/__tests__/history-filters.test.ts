@@ -0,0 +1,85 @@
+import { HistoryItem } from '@/services/history';
+import { DEFAULT_HISTORY_FILTERS, HistoryFilters, applyHistoryFilters } from '@/services/history-filters';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Midday local time, so the day never shifts with the time zone.
+const at = (day: string) => new Date(`${day}T12:00:00`).toISOString();
+
+const scan = (id: string, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  label: 'Brown Spot',
+  confidence: 90,
+  imageUri: `file:///scans/${id}.jpg`,
+  createdAt: at('2025-06-10'),
+  advice: '',
+  ...overrides,
+});
+
+const filter = (items: HistoryItem[], filters: Partial<HistoryFilters>, language?: 'en' | 'fil') =>
+  applyHistoryFilters(items, { ...DEFAULT_HISTORY_FILTERS, ...filters }, language).map((item) => item.id);
+
+describe('applyHistoryFilters', () => {
+  const history = [
+    scan('blast', { label: 'Leaf Blast', confidence: 45, createdAt: at('2025-06-01'), fieldId: 'north' }),
+    scan('spot', { confidence: 65, createdAt: at('2025-06-10'), notes: 'Lower leaves near the canal' }),
+    scan('healthy', { label: 'Healthy Rice Leaf', confidence: 97, createdAt: at('2025-06-20'), fieldId: 'north' }),
+  ];
+
+  it('keeps every scan newest first by default', () => {
+    expect(filter(history, {})).toEqual(['healthy', 'spot', 'blast']);
+  });
+
+  it('filters by disease', () => {
+    expect(filter(history, { labels: ['Leaf Blast', 'Healthy Rice Leaf'] })).toEqual(['healthy', 'blast']);
+  });
+
+  it('filters by an inclusive date range', () => {
+    expect(filter(history, { fromDate: '2025-06-10', toDate: '2025-06-20' })).toEqual(['healthy', 'spot']);
+    expect(filter(history, { toDate: '2025-06-01' })).toEqual(['blast']);
+  });
+
+  it('filters by an inclusive confidence range', () => {
+    expect(filter(history, { minConfidence: 45, maxConfidence: 65 })).toEqual(['spot', 'blast']);
+  });
+
+  it('filters by band, using the stored band before the default thresholds', () => {
+    const banded = [...history, scan('strict', { confidence: 85, band: 'tentative' })];
+    expect(filter(banded, { bands: ['confident'] })).toEqual(['healthy']);
+    expect(filter(banded, { bands: ['tentative'] })).toEqual(['spot', 'strict']);
+    expect(filter(banded, { bands: ['uncertain'] })).toEqual(['blast']);
+  });
+
+  it('filters by field', () => {
+    expect(filter(history, { fieldId: 'north' })).toEqual(['healthy', 'blast']);
+  });
+
+  it('searches notes and the advice in the chosen language', () => {
+    expect(filter(history, { query: '  CANAL ' })).toEqual(['spot']);
+    expect(filter(history, { query: 'tricyclazole' })).toEqual(['blast']);
+    expect(filter(history, { query: 'potassium' }, 'en')).toEqual(['spot']);
+    expect(filter(history, { query: 'paggamot' }, 'fil')).toEqual(['spot', 'blast']);
+  });
+
+  it('sorts by confidence or disease with ties newest first', () => {
+    const tied = [...history, scan('spot-later', { confidence: 65, createdAt: at('2025-06-15') })];
+    expect(filter(tied, { sortBy: 'confidence', sortDirection: 'asc' })).toEqual([
+      'blast',
+      'spot-later',
+      'spot',
+      'healthy',
+    ]);
+    expect(filter(tied, { sortBy: 'disease', sortDirection: 'asc' })).toEqual([
+      'spot-later',
+      'spot',
+      'healthy',
+      'blast',
+    ]);
+  });
+
+  it('sorts by date oldest first', () => {
+    expect(filter(history, { sortDirection: 'asc' })).toEqual(['blast', 'spot', 'healthy']);
+  });
+});
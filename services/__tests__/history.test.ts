@@ -0,0 +1,115 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Photos under `gone/` were cleared by the OS; anything outside the document
+// directory is still in the image picker's cache and gets copied in.
+jest.mock('@/services/file-storage', () => ({
+  deleteAllHeatmaps: jest.fn(),
+  deleteStoredFile: jest.fn(),
+  fileExists: jest.fn((uri: string) => !uri.includes('/gone/')),
+  saveHeatmap: jest.fn(),
+  storeScanImage: jest.fn((id: string, uri: string) =>
+    uri.startsWith('file:///document/') ? uri : `file:///document/scans/${id}.jpg`
+  ),
+}));
+
+// Each test loads a fresh copy, so the schema check runs again against its own storage.
+const load = () => {
+  jest.resetModules();
+  return {
+    AsyncStorage: require('@react-native-async-storage/async-storage'),
+    history: require('@/services/history') as typeof import('@/services/history'),
+  };
+};
+
+describe('history schema migrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves the original leaf_history array to one key per entry', async () => {
+    const { AsyncStorage, history } = load();
+    await AsyncStorage.setItem(
+      'leaf_history',
+      JSON.stringify([
+        {
+          id: 1748836800000,
+          label: 'Leaf Blast',
+          confidence: '92.10%',
+          imageUri: 'file:///cache/picker/b.jpg',
+          advice: 'Spray.',
+          date: '6/2/2025',
+        },
+        {
+          id: 1748750400000,
+          label: 'Brown Spot',
+          confidence: '87.53%',
+          imageUri: 'file:///cache/gone/a.jpg',
+          advice: 'Treat seeds.',
+          date: '6/1/2025',
+        },
+      ])
+    );
+
+    const items = await history.getAllHistory();
+
+    expect(items).toEqual([
+      {
+        id: '1748836800000',
+        label: 'Leaf Blast',
+        confidence: 92.1,
+        imageUri: 'file:///document/scans/1748836800000.jpg',
+        createdAt: new Date(1748836800000).toISOString(),
+        advice: 'Spray.',
+      },
+      {
+        id: '1748750400000',
+        label: 'Brown Spot',
+        confidence: 87.53,
+        imageUri: 'file:///cache/gone/a.jpg',
+        createdAt: new Date(1748750400000).toISOString(),
+        advice: 'Treat seeds.',
+      },
+    ]);
+    expect(await AsyncStorage.getItem('leaf_history')).toBeNull();
+    expect(await AsyncStorage.getItem('history_schema_version')).toBe(String(history.HISTORY_SCHEMA_VERSION));
+    expect(JSON.parse(await AsyncStorage.getItem('history_index'))).toEqual(['1748836800000', '1748750400000']);
+  });
+
+  it('copies version 2 photos out of the picker cache and leaves stored ones alone', async () => {
+    const { AsyncStorage, history } = load();
+    const cached = {
+      id: '2',
+      label: 'Leaf Scald',
+      confidence: 70,
+      imageUri: 'file:///cache/picker/2.jpg',
+      createdAt: '2025-06-02T00:00:00.000Z',
+      advice: '',
+    };
+    const stored = { ...cached, id: '1', imageUri: 'file:///document/scans/1.jpg', createdAt: '2025-06-01T00:00:00.000Z' };
+    await AsyncStorage.multiSet([
+      ['history_schema_version', '2'],
+      ['history_index', JSON.stringify(['2', '1'])],
+      ['history_entry:2', JSON.stringify(cached)],
+      ['history_entry:1', JSON.stringify(stored)],
+    ]);
+
+    const items = await history.getAllHistory();
+
+    expect(items).toEqual([{ ...cached, imageUri: 'file:///document/scans/2.jpg' }, stored]);
+    expect(JSON.parse(await AsyncStorage.getItem('history_entry:2')).imageUri).toBe('file:///document/scans/2.jpg');
+    expect(await AsyncStorage.getItem('history_schema_version')).toBe('3');
+  });
+
+  it('starts a fresh install at the current version', async () => {
+    const { AsyncStorage, history } = load();
+
+    await expect(history.getAllHistory()).resolves.toEqual([]);
+    expect(await AsyncStorage.getItem('history_schema_version')).toBe(String(history.HISTORY_SCHEMA_VERSION));
+  });
+});
@@ -0,0 +1,80 @@
+import { buildConsensus } from '@/services/plant-scan';
+import { PredictionResult } from '@/services/prediction';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const prediction = (probabilities: PredictionResult['probabilities']): PredictionResult => ({
+  label: probabilities[0].label,
+  confidence: probabilities[0].confidence,
+  probabilities,
+  heatmapImage: null,
+});
+
+describe('buildConsensus', () => {
+  it('averages every class so one confident outlier cannot outvote the rest', () => {
+    const consensus = buildConsensus([
+      prediction([
+        { label: 'Leaf Blast', confidence: 99 },
+        { label: 'Brown Spot', confidence: 1 },
+      ]),
+      prediction([
+        { label: 'Brown Spot', confidence: 80 },
+        { label: 'Leaf Blast', confidence: 20 },
+      ]),
+      prediction([
+        { label: 'Brown Spot', confidence: 75 },
+        { label: 'Leaf Blast', confidence: 25 },
+      ]),
+    ]);
+
+    expect(consensus).toEqual({
+      label: 'Brown Spot',
+      confidence: 52,
+      probabilities: [
+        { label: 'Brown Spot', confidence: 52 },
+        { label: 'Leaf Blast', confidence: 48 },
+      ],
+      agreement: 2,
+      total: 3,
+    });
+  });
+
+  it('counts the photos whose own result matches the consensus', () => {
+    const consensus = buildConsensus([
+      prediction([
+        { label: 'Sheath Blight', confidence: 80 },
+        { label: 'Leaf Scald', confidence: 20 },
+      ]),
+      prediction([
+        { label: 'Sheath Blight', confidence: 55 },
+        { label: 'Leaf Scald', confidence: 45 },
+      ]),
+      prediction([
+        { label: 'Leaf Scald', confidence: 51 },
+        { label: 'Sheath Blight', confidence: 49 },
+      ]),
+    ]);
+
+    expect(consensus.label).toBe('Sheath Blight');
+    expect(consensus.agreement).toBe(2);
+    expect(consensus.total).toBe(3);
+  });
+
+  it('falls back to the top class for servers without probabilities', () => {
+    const consensus = buildConsensus([
+      { label: 'Brown Spot', confidence: 90, probabilities: [], heatmapImage: null },
+      { label: 'Brown Spot', confidence: 70, probabilities: [], heatmapImage: null },
+    ]);
+
+    expect(consensus.label).toBe('Brown Spot');
+    expect(consensus.confidence).toBe(80);
+    expect(consensus.probabilities).toEqual([{ label: 'Brown Spot', confidence: 80 }]);
+    expect(consensus.agreement).toBe(2);
+  });
+
+  it('needs at least one prediction', () => {
+    expect(() => buildConsensus([])).toThrow('A consensus needs at least one prediction.');
+  });
+});
@@ -0,0 +1,126 @@
+import { PredictionError, parseConfidence, predictLeaf } from '@/services/prediction';
+
+jest.mock('@/services/backend-profiles', () => ({
+  getActiveProfile: jest.fn(async () => ({ baseUrl: 'http://server' })),
+}));
+
+const { getActiveProfile } = jest.requireMock('@/services/backend-profiles');
+
+const reply = (status: number, text: string) =>
+  jest.fn(async () => ({ ok: status >= 200 && status < 300, status, text: async () => text }));
+
+const errorOf = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('Expected a PredictionError');
+    },
+    (error: PredictionError) => error
+  );
+
+describe('parseConfidence', () => {
+  it('reads the percentage strings the server sends', () => {
+    expect(parseConfidence('87.23%')).toBe(87.23);
+    expect(parseConfidence(' 100 % ')).toBe(100);
+  });
+
+  it('passes finite numbers through', () => {
+    expect(parseConfidence(42.5)).toBe(42.5);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseConfidence('87.23')).toBeNull();
+    expect(parseConfidence('-5%')).toBeNull();
+    expect(parseConfidence(NaN)).toBeNull();
+    expect(parseConfidence(undefined)).toBeNull();
+  });
+});
+
+describe('predictLeaf', () => {
+  const request = { imageUri: 'file:///leaf.jpg' };
+
+  it('returns the parsed diagnosis with probabilities highest first', async () => {
+    global.fetch = reply(
+      200,
+      JSON.stringify({
+        label: 'Brown Spot',
+        confidence: '87.23%',
+        probabilities: [
+          { label: 'Leaf Blast', confidence: '12.77%' },
+          { label: 'Brown Spot', confidence: '87.23%' },
+        ],
+      })
+    ) as unknown as typeof fetch;
+
+    await expect(predictLeaf(request)).resolves.toEqual({
+      label: 'Brown Spot',
+      confidence: 87.23,
+      probabilities: [
+        { label: 'Brown Spot', confidence: 87.23 },
+        { label: 'Leaf Blast', confidence: 12.77 },
+      ],
+      heatmapImage: null,
+    });
+    expect(global.fetch).toHaveBeenCalledWith('http://server/predict', expect.objectContaining({ method: 'POST' }));
+  });
+
+  it('maps a 5xx reply to a retryable server error with the server message', async () => {
+    global.fetch = reply(503, JSON.stringify({ error: 'Model is loading' })) as unknown as typeof fetch;
+
+    const error = await errorOf(predictLeaf(request));
+    expect(error).toBeInstanceOf(PredictionError);
+    expect(error).toMatchObject({ kind: 'server', status: 503, message: 'Model is loading' });
+    expect(error.retryable).toBe(true);
+  });
+
+  it('maps a 4xx reply to a bad request that is not retried', async () => {
+    global.fetch = reply(400, '<html>Bad Request</html>') as unknown as typeof fetch;
+
+    const error = await errorOf(predictLeaf(request));
+    expect(error).toMatchObject({ kind: 'bad_request', status: 400, message: 'Server responded with status 400.' });
+    expect(error.retryable).toBe(false);
+  });
+
+  it('reports a reply that is not JSON as an invalid response', async () => {
+    global.fetch = reply(200, '<html>Sign in to Wi-Fi</html>') as unknown as typeof fetch;
+
+    await expect(errorOf(predictLeaf(request))).resolves.toMatchObject({ kind: 'invalid_response' });
+  });
+
+  it('reports an unknown label or confidence as an invalid response', async () => {
+    global.fetch = reply(200, JSON.stringify({ label: 'Rust', confidence: '90%' })) as unknown as typeof fetch;
+    await expect(errorOf(predictLeaf(request))).resolves.toMatchObject({ kind: 'invalid_response' });
+
+    global.fetch = reply(200, JSON.stringify({ label: 'Brown Spot', confidence: '120%' })) as unknown as typeof fetch;
+    await expect(errorOf(predictLeaf(request))).resolves.toMatchObject({ kind: 'invalid_response' });
+  });
+
+  it('maps a failed request to a network error', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as unknown as typeof fetch;
+
+    await expect(errorOf(predictLeaf(request))).resolves.toMatchObject({
+      kind: 'network',
+      message: 'Network request failed',
+    });
+  });
+
+  it('maps unreadable server settings to a network error', async () => {
+    global.fetch = jest.fn() as unknown as typeof fetch;
+    getActiveProfile.mockRejectedValueOnce(new Error('Storage is unavailable'));
+
+    await expect(errorOf(predictLeaf(request))).resolves.toMatchObject({ kind: 'network' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('does not send a request that was already cancelled', async () => {
+    global.fetch = jest.fn() as unknown as typeof fetch;
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(errorOf(predictLeaf(request, { signal: controller.signal }))).resolves.toMatchObject({
+      kind: 'cancelled',
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,25 @@
+import { splitSentences } from '@/services/speech';
+
+describe('splitSentences', () => {
+  it('keeps decimal confidences inside their sentence', () => {
+    expect(splitSentences('Brown Spot. Confident, 87.23%. Re-scan in a week!')).toEqual([
+      'Brown Spot.',
+      'Confident, 87.23%.',
+      'Re-scan in a week!',
+    ]);
+  });
+
+  it('does not end a sentence at an abbreviation', () => {
+    expect(
+      splitSentences('Use a copper-based spray (e.g. Copper oxychloride). Avoid excess nitrogen.')
+    ).toEqual(['Use a copper-based spray (e.g. Copper oxychloride).', 'Avoid excess nitrogen.']);
+  });
+
+  it('drops leading emoji so they are not read out', () => {
+    expect(splitSentences('⚠️ Treatment: drain the field.\n✅ Healthy\n❓ Not sure?')).toEqual([
+      'Treatment: drain the field.',
+      'Healthy',
+      'Not sure?',
+    ]);
+  });
+});
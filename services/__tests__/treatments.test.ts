@@ -0,0 +1,120 @@
+import { HistoryItem, Treatment } from '@/services/history';
+import { buildTreatmentTimeline, getTreatmentOutcome, summarizeTreatments } from '@/services/treatments';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Midday local time, so the day never shifts with the time zone.
+const at = (day: string) => new Date(`${day}T12:00:00`).toISOString();
+
+const scan = (id: string, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  label: 'Leaf Blast',
+  confidence: 90,
+  imageUri: `file:///scans/${id}.jpg`,
+  createdAt: at('2025-06-01'),
+  advice: '',
+  ...overrides,
+});
+
+const treatment = (id: string, product: string, appliedOn: string, cost?: number): Treatment => ({
+  id,
+  product,
+  appliedOn,
+  cost,
+  createdAt: at(appliedOn),
+});
+
+describe('buildTreatmentTimeline', () => {
+  it('orders the scan, its treatments and the later scans by day', () => {
+    const item = scan('first', {
+      followUpIds: ['recheck'],
+      treatments: [treatment('t2', 'Tricyclazole', '2025-06-08'), treatment('t1', 'Isoprothiolane', '2025-06-01')],
+    });
+    const recheck = scan('recheck', { createdAt: at('2025-06-08') });
+    const unrelated = scan('unrelated', { createdAt: at('2025-06-05') });
+
+    const timeline = buildTreatmentTimeline(item, [recheck, unrelated, item]);
+
+    expect(timeline.map((event) => (event.kind === 'scan' ? event.item.id : event.treatment.id))).toEqual([
+      'first',
+      't1',
+      't2',
+      'recheck',
+    ]);
+    expect(timeline[0]).toMatchObject({ kind: 'scan', current: true, at: '2025-06-01' });
+    expect(timeline[3]).toMatchObject({ kind: 'scan', current: false, at: '2025-06-08' });
+  });
+});
+
+describe('getTreatmentOutcome', () => {
+  const sprayed = treatment('t1', 'Tricyclazole', '2025-06-02');
+  const item = scan('first', { fieldId: 'north', treatments: [sprayed] });
+
+  it('is pending until the plants are scanned after the treatment day', () => {
+    const sameDay = scan('same-day', { fieldId: 'north', createdAt: at('2025-06-02'), label: 'Healthy Rice Leaf' });
+    expect(getTreatmentOutcome(sprayed, item, [item, sameDay])).toEqual({ outcome: 'pending', scan: null });
+  });
+
+  it('reads the latest later scan of the same field or follow-up chain', () => {
+    const persisted = scan('second', { followUpOf: 'first', createdAt: at('2025-06-09') });
+    const cleared = scan('third', { fieldId: 'north', createdAt: at('2025-06-16'), label: 'Healthy Rice Leaf' });
+
+    expect(getTreatmentOutcome(sprayed, item, [item, persisted])).toEqual({ outcome: 'persisted', scan: persisted });
+    expect(getTreatmentOutcome(sprayed, item, [item, persisted, cleared])).toEqual({ outcome: 'cleared', scan: cleared });
+  });
+
+  it('prefers the farmer\'s correction over the model\'s answer', () => {
+    const corrected = scan('second', {
+      followUpOf: 'first',
+      createdAt: at('2025-06-09'),
+      feedback: { correct: false, trueLabel: 'Healthy Rice Leaf', answeredAt: at('2025-06-09') },
+    });
+    const changed = scan('second', { followUpOf: 'first', createdAt: at('2025-06-09'), label: 'Brown Spot' });
+
+    expect(getTreatmentOutcome(sprayed, item, [item, corrected]).outcome).toBe('cleared');
+    expect(getTreatmentOutcome(sprayed, item, [item, changed]).outcome).toBe('changed');
+  });
+});
+
+describe('summarizeTreatments', () => {
+  it('groups products by name per disease, most often cleared first', () => {
+    const history = [
+      scan('a', {
+        fieldId: 'north',
+        treatments: [treatment('a1', 'Tricyclazole', '2025-06-02', 350), treatment('a2', 'Mancozeb', '2025-06-02', 200)],
+      }),
+      scan('a-after', { fieldId: 'north', createdAt: at('2025-06-10'), label: 'Healthy Rice Leaf' }),
+      scan('b', { createdAt: at('2025-06-05'), treatments: [treatment('b1', 'tricyclazole', '2025-06-05', 300)] }),
+      scan('b-after', { followUpOf: 'b', createdAt: at('2025-06-12'), label: 'Healthy Rice Leaf' }),
+      scan('d', {
+        createdAt: at('2025-06-06'),
+        treatments: [treatment('d1', 'Mancozeb', '2025-06-06'), treatment('d2', 'Isoprothiolane', '2025-06-06')],
+      }),
+      scan('c', {
+        label: 'Brown Spot',
+        feedback: { correct: false, trueLabel: 'Sheath Blight', answeredAt: at('2025-06-01') },
+        treatments: [treatment('c1', 'Validamycin', '2025-06-01')],
+      }),
+      scan('untreated', { label: 'Brown Spot' }),
+    ];
+
+    expect(summarizeTreatments(history)).toEqual([
+      {
+        label: 'Leaf Blast',
+        treatments: [
+          { product: 'Tricyclazole', activeIngredient: undefined, applications: 2, cleared: 2, pending: 0, totalCost: 650 },
+          { product: 'Mancozeb', activeIngredient: undefined, applications: 2, cleared: 1, pending: 1, totalCost: 200 },
+          { product: 'Isoprothiolane', activeIngredient: undefined, applications: 1, cleared: 0, pending: 1, totalCost: 0 },
+        ],
+      },
+      {
+        label: 'Sheath Blight',
+        treatments: [
+          { product: 'Validamycin', activeIngredient: undefined, applications: 1, cleared: 0, pending: 1, totalCost: 0 },
+        ],
+      },
+    ]);
+  });
+});
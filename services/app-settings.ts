@@ -0,0 +1,75 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { Language, isLanguage } from '@/constants/languages';
+import { ThemePreference, isThemePreference } from '@/constants/theme';
+import { ConfidenceThresholds, DEFAULT_CONFIDENCE_THRESHOLDS, isValidThresholds } from '@/services/confidence';
+import { detectDeviceLanguage } from '@/services/i18n';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface AppSettings {
+  geotagScans: boolean; // Opt-in: store where each scan was taken
+  language: Language;
+  confidenceThresholds: ConfidenceThresholds;
+  theme: ThemePreference;
+}
+
+type AppSettingsListener = (settings: AppSettings) => void;
+
+const SETTINGS_KEY = 'app_settings';
+
+// Built on first load so the language can follow the phone's settings.
+const defaultSettings = (): AppSettings => ({
+  geotagScans: false,
+  language: detectDeviceLanguage(),
+  confidenceThresholds: DEFAULT_CONFIDENCE_THRESHOLDS,
+  theme: 'system',
+});
+
+let settings: AppSettings | null = null;
+const listeners = new Set<AppSettingsListener>();
+
+const readSettings = async (): Promise<AppSettings> => {
+  if (settings === null) {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      // Merged over the defaults so settings added later get a value.
+      const loaded: AppSettings = stored ? { ...defaultSettings(), ...JSON.parse(stored) } : defaultSettings();
+      if (!isLanguage(loaded.language)) loaded.language = defaultSettings().language;
+      if (!isValidThresholds(loaded.confidenceThresholds)) loaded.confidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS;
+      if (!isThemePreference(loaded.theme)) loaded.theme = 'system';
+      settings = loaded;
+    } catch (error) {
+      console.error("Failed to load app settings", error);
+      settings = defaultSettings();
+    }
+  }
+  return settings!;
+};
+
+export const getAppSettings = () => readSettings();
+
+// Null until the first load finishes. Lets screens start with the saved
+// theme instead of flashing the system one.
+export const peekAppSettings = () => settings;
+
+export const subscribeToAppSettings = (listener: AppSettingsListener) => {
+  listeners.add(listener);
+  readSettings().then((current) => {
+    if (listeners.has(listener)) listener(current);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updateAppSettings = async (changes: Partial<AppSettings>) => {
+  const next = { ...(await readSettings()), ...changes };
+  settings = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error("Failed to save app settings", error);
+  }
+  return next;
+};
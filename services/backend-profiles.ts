@@ -0,0 +1,140 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DEFAULT_API_BASE_URL } from '@/constants/api';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface BackendProfile {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. "http://192.168.1.10:5000", no trailing slash
+}
+
+export interface BackendSettings {
+  profiles: BackendProfile[];
+  activeId: string;
+}
+
+export type HealthStatus = 'online' | 'httpError' | 'notRiceServer' | 'timeout' | 'unreachable';
+
+export interface HealthCheckResult {
+  ok: boolean;
+  latencyMs: number | null;
+  status: HealthStatus;
+  httpStatus?: number;          // Set for `httpError`
+  checkedAt: number;
+}
+
+type SettingsListener = (settings: BackendSettings) => void;
+
+const SETTINGS_KEY = 'backend_profiles';
+const HEALTH_TIMEOUT_MS = 15 * 1000;
+
+const DEFAULT_SETTINGS: BackendSettings = {
+  profiles: [{ id: 'production', name: 'Production', baseUrl: DEFAULT_API_BASE_URL }],
+  activeId: 'production',
+};
+
+let settings: BackendSettings | null = null;
+const listeners = new Set<SettingsListener>();
+
+const readSettings = async (): Promise<BackendSettings> => {
+  if (settings === null) {
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+      settings = stored ? JSON.parse(stored) : DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error("Failed to load backend profiles", error);
+      settings = DEFAULT_SETTINGS;
+    }
+  }
+  return settings!;
+};
+
+const writeSettings = async (next: BackendSettings) => {
+  settings = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error("Failed to save backend profiles", error);
+  }
+};
+
+// Returns the cleaned-up URL, or null when it is not an http(s) address.
+export const normalizeBaseUrl = (value: string): string | null => {
+  const trimmed = value.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/]+(\/\S*)?$/i.test(trimmed) ? trimmed : null;
+};
+
+export const getBackendSettings = () => readSettings();
+
+export const getActiveProfile = async (): Promise<BackendProfile> => {
+  const current = await readSettings();
+  return current.profiles.find((profile) => profile.id === current.activeId) ?? current.profiles[0];
+};
+
+export const subscribeToBackendSettings = (listener: SettingsListener) => {
+  listeners.add(listener);
+  readSettings().then((current) => {
+    if (listeners.has(listener)) listener(current);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const saveProfile = async (profile: Omit<BackendProfile, 'id'> & { id?: string }) => {
+  const current = await readSettings();
+  const saved: BackendProfile = { id: profile.id ?? Date.now().toString(), name: profile.name, baseUrl: profile.baseUrl };
+  const exists = current.profiles.some((item) => item.id === saved.id);
+
+  await writeSettings({
+    ...current,
+    profiles: exists
+      ? current.profiles.map((item) => (item.id === saved.id ? saved : item))
+      : [...current.profiles, saved],
+  });
+  return saved;
+};
+
+export const deleteProfile = async (id: string) => {
+  const current = await readSettings();
+  const profiles = current.profiles.filter((item) => item.id !== id);
+  if (profiles.length === 0) return; // Always keep one server to talk to.
+
+  await writeSettings({
+    profiles,
+    activeId: current.activeId === id ? profiles[0].id : current.activeId,
+  });
+};
+
+export const setActiveProfile = async (id: string) => {
+  const current = await readSettings();
+  await writeSettings({ ...current, activeId: id });
+};
+
+// Calls the `GET /` health route in app.py and times the round trip.
+export const checkBackendHealth = async (baseUrl: string): Promise<HealthCheckResult> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(`${baseUrl}/`, { method: 'GET', signal: controller.signal });
+    const text = await response.text();
+    const latencyMs = Date.now() - startedAt;
+
+    if (!response.ok) {
+      return { ok: false, latencyMs, status: 'httpError', httpStatus: response.status, checkedAt: Date.now() };
+    }
+    if (!text.includes('Rice Doctor API')) {
+      return { ok: false, latencyMs, status: 'notRiceServer', checkedAt: Date.now() };
+    }
+    return { ok: true, latencyMs, status: 'online', checkedAt: Date.now() };
+  } catch {
+    const status = controller.signal.aborted ? 'timeout' : 'unreachable';
+    return { ok: false, latencyMs: null, status, checkedAt: Date.now() };
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,332 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+
+import { getAppSettings } from '@/services/app-settings';
+import { fileExtension, writeZip } from '@/services/export-format';
+import { Field, getFields, importFields } from '@/services/fields';
+import { readFileBytes, saveHeatmap, writeScanImage } from '@/services/file-storage';
+import {
+  HISTORY_SCHEMA_VERSION,
+  HistoryItem,
+  getAllHistory,
+  importHistoryItems,
+  replaceAllHistory,
+  upgradeHistoryItem,
+} from '@/services/history';
+import { toDateKey } from '@/services/history-filters';
+import { translate } from '@/services/i18n';
+import { clearReminders } from '@/services/reminders';
+
+// --- TYPESCRIPT INTERFACES ---
+// A backup is a ZIP: `backup.json` holds every history entry and the saved
+// fields, and each photo and heatmap is its own file next to it. It does not
+// depend on any file path of the phone it was made on. Version 1 backups were
+// a single JSON file with the images embedded as base64; they still restore.
+export interface BackupEntry {
+  item: HistoryItem;
+  image?: string;                // Path in the backup; missing when the photo was already gone
+  heatmap?: string;
+  photos?: (string | null)[];    // Plant scans: same order as `item.photos`; null for `image` itself or a lost photo
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;               // Layout of this file, see BACKUP_VERSION
+  historySchemaVersion: number;  // Shape of `entries[].item`, see services/history.ts
+  createdAt: string;
+  fields: Field[];
+  entries: BackupEntry[];
+}
+
+// Contents of a file in the backup as base64, or null when it is not there.
+type BackupFileReader = (path: string) => Promise<string | null>;
+
+export interface RestorePreview {
+  createdAt: string | null;
+  entries: BackupEntry[];  // Valid entries, already upgraded to the current schema
+  fields: Field[];
+  conflicts: string[];     // Ids that already exist in this phone's history
+  skipped: number;         // Entries too damaged to restore
+  readFile: BackupFileReader;
+}
+
+// `merge` keeps current history and adds the backup; `replace` swaps it for the backup.
+export type RestoreMode = 'merge' | 'replace';
+// For `merge`: which copy wins when an id exists on both sides.
+export type ConflictPolicy = 'keep' | 'overwrite';
+
+export type BackupErrorKind = 'sharing' | 'invalid' | 'newer';
+
+export class BackupError extends Error {
+  readonly kind: BackupErrorKind;
+
+  constructor(kind: BackupErrorKind, message: string) {
+    super(message);
+    this.name = 'BackupError';
+    this.kind = kind;
+  }
+}
+
+const BACKUP_FORMAT = 'rice-leaf-doctor-backup';
+export const BACKUP_VERSION = 2;
+
+const MANIFEST_NAME = 'backup.json';
+const FILES_DIR = 'files';
+
+// A backup is a file the farmer picked, so nothing in it is trusted.
+type UnknownRecord = { [key: string]: unknown };
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null;
+
+const isValidItem = (item: unknown): item is HistoryItem =>
+  isRecord(item) &&
+  typeof item.id === 'string' &&
+  item.id !== '' &&
+  typeof item.label === 'string' &&
+  typeof item.confidence === 'number' &&
+  Number.isFinite(item.confidence) &&
+  typeof item.imageUri === 'string' &&
+  typeof item.createdAt === 'string' &&
+  !Number.isNaN(new Date(item.createdAt).getTime()) &&
+  (item.photos === undefined || (Array.isArray(item.photos) && item.photos.every(isRecord)));
+
+const isValidField = (field: unknown): field is Field =>
+  isRecord(field) &&
+  typeof field.id === 'string' &&
+  field.id !== '' &&
+  typeof field.name === 'string' &&
+  field.name.trim() !== '';
+
+// Every ZIP starts with the "PK" local file header.
+const isZip = (bytes: Uint8Array) => bytes.length >= 2 && bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+/**
+ * Packs every scan, its photo and heatmap into one ZIP and opens the share
+ * sheet so it can be saved to Drive, sent over chat or copied to a computer.
+ * Photos go in as raw bytes and the ZIP is streamed to the file, so there is
+ * no base64 copy of them; JSZip still holds every photo until it is written.
+ */
+export const createBackup = async () => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new BackupError('sharing', 'Sharing is not available on this device.');
+  }
+
+  const [history, fields] = await Promise.all([getAllHistory(), getFields()]);
+  const zip = new JSZip();
+
+  const addFile = async (uri: string | undefined, name: string) => {
+    const bytes = await readFileBytes(uri);
+    if (!bytes) return undefined;
+    const path = `${FILES_DIR}/${name}`;
+    zip.file(path, bytes, { binary: true });
+    return path;
+  };
+
+  const entries: BackupEntry[] = [];
+  for (const item of history) {
+    const image = await addFile(item.imageUri, `${item.id}${fileExtension(item.imageUri)}`);
+    const heatmap = await addFile(item.heatmapUri, `${item.id}-heatmap.jpg`);
+    let photos: (string | null)[] | undefined;
+    if (item.photos) {
+      photos = [];
+      for (const [index, photo] of item.photos.entries()) {
+        const path = photo.imageUri === item.imageUri
+          ? undefined
+          : await addFile(photo.imageUri, `${item.id}-${index + 1}${fileExtension(photo.imageUri)}`);
+        photos.push(path ?? null);
+      }
+    }
+    entries.push({ item, image, heatmap, photos });
+  }
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    historySchemaVersion: HISTORY_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    fields,
+    entries,
+  };
+  // Photos are already JPEGs; only the manifest is worth compressing.
+  zip.file(MANIFEST_NAME, JSON.stringify(archive), { compression: 'DEFLATE' });
+
+  const file = new File(Paths.cache, `rice-leaf-doctor-backup-${toDateKey(new Date())}.zip`);
+  if (file.exists) file.delete();
+  file.create();
+  await writeZip(zip, file);
+  console.log(`✅ Backed up ${entries.length} scans (${(file.size / 1024 / 1024).toFixed(1)} MB)`);
+
+  const { language } = await getAppSettings();
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/zip',
+    UTI: 'public.zip-archive',
+    dialogTitle: translate(language, 'settings.backupShareTitle'),
+  });
+};
+
+// Version 1: images are inlined in the JSON. They are given paths like the
+// ZIP layout so both versions restore the same way.
+const readInlineEntries = (rawEntries: unknown[]) => {
+  const inline = new Map<string, string>();
+  const entries = rawEntries.map((entry, index): UnknownRecord | null => {
+    if (!isRecord(entry)) return null;
+    const add = (image: unknown, name: string) => {
+      if (!isRecord(image) || typeof image.data !== 'string') return undefined;
+      const path = `${index}/${name}${typeof image.extension === 'string' ? image.extension : '.jpg'}`;
+      inline.set(path, image.data);
+      return path;
+    };
+    return {
+      ...entry,
+      image: add(entry.image, 'image'),
+      heatmap: typeof entry.heatmap === 'string' ? add({ data: entry.heatmap, extension: '.jpg' }, 'heatmap') : undefined,
+      photos: Array.isArray(entry.photos)
+        ? entry.photos.map((photo: unknown, photoIndex) => add(photo, `photo-${photoIndex + 1}`) ?? null)
+        : undefined,
+    };
+  });
+  const readFile: BackupFileReader = async (path) => inline.get(path) ?? null;
+  return { entries, readFile };
+};
+
+const openBackup = async (uri: string): Promise<{ raw: unknown; readFile: BackupFileReader }> => {
+  const file = new File(uri);
+  const bytes = await file.bytes();
+
+  if (!isZip(bytes)) {
+    const raw: unknown = JSON.parse(await file.text());
+    if (isRecord(raw) && Array.isArray(raw.entries)) {
+      const { entries, readFile } = readInlineEntries(raw.entries);
+      return { raw: { ...raw, entries }, readFile };
+    }
+    return { raw, readFile: async () => null };
+  }
+
+  const zip = await JSZip.loadAsync(bytes);
+  const manifest = zip.file(MANIFEST_NAME);
+  if (!manifest) throw new BackupError('invalid', 'This file is not a Rice Leaf Doctor backup.');
+  const readFile: BackupFileReader = async (path) => (await zip.file(path)?.async('base64')) ?? null;
+  return { raw: JSON.parse(await manifest.async('string')), readFile };
+};
+
+/**
+ * Reads and validates a backup file without changing anything, so the
+ * farmer can see what it holds and how it overlaps with this phone first.
+ */
+export const readBackup = async (uri: string): Promise<RestorePreview> => {
+  let backup: { raw: unknown; readFile: BackupFileReader };
+  try {
+    backup = await openBackup(uri);
+  } catch {
+    throw new BackupError('invalid', 'This file is not a Rice Leaf Doctor backup.');
+  }
+  const { raw, readFile } = backup;
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT || !Array.isArray(raw.entries)) {
+    throw new BackupError('invalid', 'This file is not a Rice Leaf Doctor backup.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new BackupError('newer', 'This backup was made by a newer version of the app. Update the app and try again.');
+  }
+
+  // Entries keep the schema of the app that wrote them; bring them up to date.
+  const schemaVersion = typeof raw.historySchemaVersion === 'number' ? raw.historySchemaVersion : 1;
+  const rawEntries: unknown[] = raw.entries;
+  const entries: BackupEntry[] = [];
+  let skipped = 0;
+  rawEntries.forEach((entry) => {
+    const item: unknown = isRecord(entry) && isRecord(entry.item) ? upgradeHistoryItem(entry.item, schemaVersion) : null;
+    if (!isRecord(entry) || !isValidItem(item)) {
+      skipped += 1;
+      return;
+    }
+    entries.push({
+      item: { ...item, advice: typeof item.advice === 'string' ? item.advice : '' },
+      image: typeof entry.image === 'string' ? entry.image : undefined,
+      heatmap: typeof entry.heatmap === 'string' ? entry.heatmap : undefined,
+      photos: Array.isArray(entry.photos)
+        ? entry.photos.map((photo: unknown) => (typeof photo === 'string' ? photo : null))
+        : undefined,
+    });
+  });
+
+  const existingIds = new Set((await getAllHistory()).map((item) => item.id));
+
+  return {
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : null,
+    entries,
+    fields: Array.isArray(raw.fields) ? raw.fields.filter(isValidField) : [],
+    conflicts: entries.map((entry) => entry.item.id).filter((id) => existingIds.has(id)),
+    skipped,
+    readFile,
+  };
+};
+
+// Writes an entry's files into app storage, one at a time, and points the item at them.
+const restoreFiles = async ({ item, image, heatmap, photos }: BackupEntry, readFile: BackupFileReader) => {
+  let { imageUri, heatmapUri } = item;
+  if (image) {
+    try {
+      const data = await readFile(image);
+      if (data) imageUri = writeScanImage(item.id, fileExtension(image), data);
+    } catch (error) {
+      console.error("Failed to restore scan image", item.id, error);
+    }
+  }
+  if (heatmap) {
+    try {
+      const data = await readFile(heatmap);
+      if (data) heatmapUri = saveHeatmap(item.id, data);
+    } catch (error) {
+      console.error("Failed to restore heatmap", item.id, error);
+    }
+  }
+
+  // Plant photos: the one shown as the entry's photo was stored only once, as `image`.
+  let plantPhotos = item.photos;
+  if (item.photos) {
+    plantPhotos = [];
+    for (const [index, photo] of item.photos.entries()) {
+      const path = photos?.[index];
+      if (!path) {
+        plantPhotos.push(photo.imageUri === item.imageUri ? { ...photo, imageUri } : photo);
+        continue;
+      }
+      try {
+        const data = await readFile(path);
+        plantPhotos.push(
+          data ? { ...photo, imageUri: writeScanImage(`${item.id}-${index + 1}`, fileExtension(path), data) } : photo
+        );
+      } catch (error) {
+        console.error("Failed to restore plant photo", item.id, index, error);
+        plantPhotos.push(photo);
+      }
+    }
+  }
+  return { ...item, imageUri, heatmapUri, photos: plantPhotos };
+};
+
+export const restoreBackup = async (
+  preview: RestorePreview,
+  mode: RestoreMode,
+  onConflict: ConflictPolicy = 'keep'
+) => {
+  // Every file is written before anything is removed, so a restore that fails
+  // here leaves the current history as it was.
+  const keep = mode === 'merge' && onConflict === 'keep' ? new Set(preview.conflicts) : new Set<string>();
+  const items: HistoryItem[] = [];
+  for (const entry of preview.entries) {
+    if (!keep.has(entry.item.id)) items.push(await restoreFiles(entry, preview.readFile));
+  }
+
+  if (mode === 'replace') {
+    await replaceAllHistory(items);
+    // Reminders pointed at scans that are now gone.
+    await clearReminders();
+  } else {
+    await importHistoryItems(items);
+  }
+  await importFields(preview.fields, { replace: mode === 'replace', overwrite: onConflict === 'overwrite' });
+  return { restored: items.length, kept: keep.size };
+};
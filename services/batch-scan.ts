@@ -0,0 +1,236 @@
+import { DiseaseLabel, LABELS } from '@/constants/labels';
+import { addToHistory } from '@/services/history';
+import { SourceImage, prepareForUpload } from '@/services/image-prep';
+import { GeoPoint } from '@/services/location';
+import {
+  MAX_BATCH_SIZE,
+  PredictionError,
+  PredictionRequest,
+  PredictionResult,
+  predictLeaf,
+  predictLeafBatch,
+} from '@/services/prediction';
+import { enqueueScan } from '@/services/scan-queue';
+
+// --- TYPESCRIPT INTERFACES ---
+/**
+ * - `queued`: the upload failed in a way that can clear up (offline, timeout,
+ *   server crash), so the photo was handed to the offline scan queue
+ * - `failed`: the server rejected the photo, or the batch was cancelled
+ * - `unsaved`: the photo was diagnosed but its history entry could not be stored
+ */
+export type BatchItemStatus = 'pending' | 'uploading' | 'done' | 'queued' | 'failed' | 'unsaved';
+
+export interface BatchItem {
+  id: string;
+  imageUri: string;       // Swapped for the shrunken copy just before upload
+  width: number;
+  height: number;
+  location?: GeoPoint;
+  status: BatchItemStatus;
+  label?: DiseaseLabel;   // Filled in once the photo is diagnosed
+  confidence?: number;
+  historyId?: string;
+  error?: string;
+}
+
+export interface BatchScan {
+  items: BatchItem[];
+  fieldId?: string;
+  startedAt: string;
+  running: boolean;
+}
+
+export interface BatchPhoto extends SourceImage {
+  location?: GeoPoint;
+}
+
+export interface BatchSummaryRow {
+  label: DiseaseLabel;
+  count: number;
+}
+
+type BatchListener = (batch: BatchScan | null) => void;
+
+// Photos per request. Smaller than the server limit so progress moves in
+// visible steps and one slow request does not hold up the whole walk.
+const CHUNK_SIZE = Math.min(5, MAX_BATCH_SIZE);
+
+// One batch at a time, kept in memory only: every photo ends up either in
+// history or in the offline scan queue, so nothing is lost when the app closes.
+let batch: BatchScan | null = null;
+let controller: AbortController | null = null;
+const listeners = new Set<BatchListener>();
+
+const setBatch = (next: BatchScan | null) => {
+  batch = next;
+  listeners.forEach((listener) => listener(next));
+};
+
+const updateItem = (id: string, changes: Partial<BatchItem>) => {
+  if (!batch) return;
+  setBatch({
+    ...batch,
+    items: batch.items.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+  });
+};
+
+const saveResult = async (item: BatchItem, result: PredictionResult) => {
+  const entry = await addToHistory(result, item.imageUri, { fieldId: batch?.fieldId, location: item.location });
+  updateItem(item.id, {
+    status: entry ? 'done' : 'unsaved',
+    label: result.label,
+    confidence: result.confidence,
+    historyId: entry?.id,
+    error: entry ? undefined : 'The diagnosis could not be saved to history.',
+  });
+};
+
+const handleFailure = async (item: BatchItem, error: PredictionError) => {
+  if (error.retryable) {
+    await enqueueScan(item.imageUri, { fieldId: batch?.fieldId, location: item.location });
+    updateItem(item.id, { status: 'queued', error: error.message });
+  } else {
+    updateItem(item.id, { status: 'failed', error: error.message });
+  }
+};
+
+// Servers from before `/predict/batch` answer 404, so fall back to one
+// request per photo.
+const predictChunk = async (chunk: BatchItem[], signal: AbortSignal) => {
+  const requests: PredictionRequest[] = chunk.map((item) => ({ imageUri: item.imageUri }));
+  try {
+    return await predictLeafBatch(requests, { signal });
+  } catch (error) {
+    if (!(error instanceof PredictionError && error.kind === 'bad_request' && error.status === 404)) throw error;
+  }
+
+  const outcomes: (PredictionResult | PredictionError)[] = [];
+  for (const request of requests) {
+    try {
+      outcomes.push(await predictLeaf(request, { signal }));
+    } catch (error) {
+      if (!(error instanceof PredictionError) || error.kind === 'cancelled') throw error;
+      outcomes.push(error);
+    }
+  }
+  return outcomes;
+};
+
+// Gallery photos are downscaled and compressed like single scans, just
+// without the crop step. The full-size photo is used if that fails.
+const shrinkForUpload = async (item: BatchItem): Promise<BatchItem> => {
+  try {
+    const { uri } = await prepareForUpload({ uri: item.imageUri, width: item.width, height: item.height });
+    updateItem(item.id, { imageUri: uri });
+    return { ...item, imageUri: uri };
+  } catch (error) {
+    console.error("Failed to shrink batch photo", error);
+    return item;
+  }
+};
+
+const runBatch = async (signal: AbortSignal) => {
+  let chunk = batch?.items.filter((item) => item.status === 'pending').slice(0, CHUNK_SIZE) ?? [];
+
+  while (chunk.length > 0) {
+    chunk.forEach((item) => updateItem(item.id, { status: 'uploading' }));
+
+    try {
+      const shrunk: BatchItem[] = [];
+      for (const item of chunk) {
+        shrunk.push(await shrinkForUpload(item));
+      }
+      chunk = shrunk;
+
+      const outcomes = await predictChunk(chunk, signal);
+      for (const [index, outcome] of outcomes.entries()) {
+        if (outcome instanceof PredictionError) {
+          await handleFailure(chunk[index], outcome);
+        } else {
+          await saveResult(chunk[index], outcome);
+        }
+      }
+    } catch (error) {
+      const failure = error instanceof PredictionError
+        ? error
+        : new PredictionError('invalid_response', error instanceof Error ? error.message : String(error));
+      // A connection problem (no signal, server down) will break the rest
+      // too, so everything left goes to the offline queue in one go. Any
+      // other failure only costs this chunk.
+      const remaining = batch?.items.filter((item) => item.status === 'pending' || item.status === 'uploading') ?? [];
+      for (const item of failure.retryable ? remaining : chunk) {
+        await handleFailure(item, failure);
+      }
+      if (failure.kind === 'cancelled') break;
+    }
+
+    chunk = batch?.items.filter((item) => item.status === 'pending').slice(0, CHUNK_SIZE) ?? [];
+  }
+
+  // Cancelling leaves the photos that were never sent.
+  batch?.items
+    .filter((item) => item.status === 'pending')
+    .forEach((item) => updateItem(item.id, { status: 'failed', error: 'The scan was cancelled.' }));
+};
+
+export const getBatchScan = () => batch;
+
+export const subscribeToBatchScan = (listener: BatchListener) => {
+  listeners.add(listener);
+  listener(batch);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Diagnoses several gallery photos, a few per request, saving each result to
+ * history as it arrives. Follow progress with `subscribeToBatchScan`.
+ */
+export const startBatchScan = async (photos: BatchPhoto[], { fieldId }: { fieldId?: string } = {}) => {
+  if (batch?.running) {
+    throw new Error('A batch is already running.');
+  }
+
+  const startedAt = Date.now();
+  controller = new AbortController();
+  setBatch({
+    items: photos.map((photo, index) => ({
+      id: `${startedAt}-${index}`,
+      imageUri: photo.uri,
+      width: photo.width,
+      height: photo.height,
+      location: photo.location,
+      status: 'pending',
+    })),
+    fieldId,
+    startedAt: new Date(startedAt).toISOString(),
+    running: true,
+  });
+
+  try {
+    await runBatch(controller.signal);
+  } finally {
+    controller = null;
+    if (batch) setBatch({ ...batch, running: false });
+  }
+};
+
+export const cancelBatchScan = () => {
+  controller?.abort();
+};
+
+export const clearBatchScan = () => {
+  if (batch?.running) return;
+  setBatch(null);
+};
+
+// Saved diagnoses per label, most common first.
+export const summarizeBatch = (items: BatchItem[]): BatchSummaryRow[] =>
+  LABELS.map((label) => ({
+    label,
+    count: items.filter((item) => item.status === 'done' && item.label === label).length,
+  }))
+    .filter((row) => row.count > 0)
+    .sort((a, b) => b.count - a.count);
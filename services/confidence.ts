@@ -0,0 +1,41 @@
+// --- TYPESCRIPT INTERFACES ---
+/**
+ * How much to trust a diagnosis:
+ * - `confident`: shown as the diagnosis, with its treatment advice
+ * - `tentative`: shown as a likely diagnosis to double-check before spraying
+ * - `uncertain`: no treatment advice, the farmer is asked to retake the photo
+ */
+export type ConfidenceBand = 'confident' | 'tentative' | 'uncertain';
+
+// Lowest confidence (percentage, inclusive) for each band above `uncertain`.
+export interface ConfidenceThresholds {
+  confident: number;
+  tentative: number;
+}
+
+export const CONFIDENCE_BANDS: ConfidenceBand[] = ['confident', 'tentative', 'uncertain'];
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  confident: 80,
+  tentative: 50,
+};
+
+export const isValidThresholds = ({ confident, tentative }: ConfidenceThresholds) =>
+  Number.isFinite(confident) &&
+  Number.isFinite(tentative) &&
+  tentative >= 0 &&
+  confident <= 100 &&
+  tentative < confident;
+
+export const getConfidenceBand = (
+  confidence: number,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): ConfidenceBand => {
+  if (confidence >= thresholds.confident) return 'confident';
+  if (confidence >= thresholds.tentative) return 'tentative';
+  return 'uncertain';
+};
+
+// Entries saved before bands existed are banded with the default thresholds.
+export const bandOf = (item: { confidence: number; band?: ConfidenceBand }) =>
+  item.band ?? getConfidenceBand(item.confidence);
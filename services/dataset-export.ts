@@ -0,0 +1,84 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+
+import { LABELS } from '@/constants/labels';
+import { getAppSettings } from '@/services/app-settings';
+import { escapeCsv, fileExtension, writeZip } from '@/services/export-format';
+import { readFileBytes } from '@/services/file-storage';
+import { HistoryItem } from '@/services/history';
+import { toDateKey } from '@/services/history-filters';
+import { translate } from '@/services/i18n';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface DatasetSummary {
+  scans: number;   // Reviewed scans that went into the archive
+  photos: number;  // Plant scans add one photo per plant photo
+  missing: number; // Photos the phone no longer has
+}
+
+const MANIFEST_COLUMNS = ['file', 'label', 'predicted_label', 'confidence', 'corrected', 'scan_id', 'scanned_at'];
+
+// Only scans the farmer reviewed: an unanswered result may still be wrong.
+export const isReviewed = (item: HistoryItem) => item.feedback !== undefined;
+
+/**
+ * Packs reviewed scans into a ZIP laid out for Keras'
+ * `image_dataset_from_directory`: one folder per class, named exactly as in
+ * `LABELS`, with the true label from the farmer's answer. Every class gets a
+ * folder, even an empty one, so class indices match the model's output order.
+ * A `labels.csv` manifest records what the model said for each photo.
+ * Called through `exportHistory`, which checks that sharing is available.
+ */
+export const exportDataset = async (history: HistoryItem[]): Promise<DatasetSummary> => {
+  const items = history.filter(isReviewed);
+  if (items.length === 0) return { scans: 0, photos: 0, missing: 0 };
+
+  const zip = new JSZip();
+  const root = zip.folder(`rice-leaf-dataset-${toDateKey(new Date())}`)!;
+  LABELS.forEach((label) => root.folder(label));
+
+  const rows: string[] = [];
+  let photos = 0;
+  let missing = 0;
+  for (const item of items) {
+    const { trueLabel, correct } = item.feedback!;
+    const sources = item.photos ?? [{ imageUri: item.imageUri, label: item.label, confidence: item.confidence }];
+
+    for (const [index, source] of sources.entries()) {
+      const data = await readFileBytes(source.imageUri);
+      if (!data) {
+        missing += 1;
+        continue;
+      }
+      const name = `${item.id}${sources.length > 1 ? `-${index + 1}` : ''}${fileExtension(source.imageUri)}`;
+      root.file(`${trueLabel}/${name}`, data, { binary: true });
+      rows.push(
+        [
+          `${trueLabel}/${name}`,
+          trueLabel,
+          source.label,
+          source.confidence.toFixed(2),
+          correct ? 'no' : 'yes',
+          item.id,
+          item.createdAt,
+        ].map(escapeCsv).join(',')
+      );
+      photos += 1;
+    }
+  }
+  root.file('labels.csv', `${[MANIFEST_COLUMNS.join(','), ...rows].join('\n')}\n`);
+
+  const file = new File(Paths.cache, `rice-leaf-dataset-${toDateKey(new Date())}.zip`);
+  if (file.exists) file.delete();
+  file.create();
+  await writeZip(zip, file);
+
+  const { language } = await getAppSettings();
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/zip',
+    UTI: 'public.zip-archive',
+    dialogTitle: translate(language, 'export.datasetShareTitle'),
+  });
+  return { scans: items.length, photos, missing };
+};
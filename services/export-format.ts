@@ -0,0 +1,34 @@
+import { File } from 'expo-file-system';
+import JSZip from 'jszip';
+
+// Small helpers shared by the history export, dataset export and backup.
+
+// RFC 4180: quote when needed and double any quotes inside.
+export const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Extension of a photo URI including the dot; camera photos without one are JPEGs.
+export const fileExtension = (uri: string) => uri.match(/\.[a-z0-9]+$/i)?.[0] ?? '.jpg';
+
+// Streams the ZIP to disk in chunks instead of building it as one string.
+export const writeZip = (zip: JSZip, file: File) =>
+  new Promise<void>((resolve, reject) => {
+    const handle = file.open();
+    const finish = (error?: Error) => {
+      handle.close();
+      if (error) reject(error);
+      else resolve();
+    };
+    const stream = zip.generateInternalStream({ type: 'uint8array', streamFiles: true });
+    stream
+      .on('data', (chunk) => {
+        try {
+          handle.writeBytes(chunk);
+        } catch (error) {
+          stream.pause();
+          finish(error as Error);
+        }
+      })
+      .on('error', finish)
+      .on('end', () => finish())
+      .resume();
+  });
@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { HistoryItem } from '@/services/history';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface Field {
+  id: string;
+  name: string;
+  areaHectares: number | null;
+  variety: string;              // Rice variety, e.g. "NSIC Rc222"
+  plantingDate: string | null;  // 'YYYY-MM-DD'
+  createdAt: string;            // ISO
+}
+
+type FieldsListener = (fields: Field[]) => void;
+
+const FIELDS_KEY = 'fields';
+
+let fields: Field[] | null = null;
+const listeners = new Set<FieldsListener>();
+
+const readFields = async (): Promise<Field[]> => {
+  if (fields === null) {
+    try {
+      const stored = await AsyncStorage.getItem(FIELDS_KEY);
+      fields = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Failed to load fields", error);
+      fields = [];
+    }
+  }
+  return fields!;
+};
+
+const writeFields = async (next: Field[]) => {
+  fields = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(FIELDS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error("Failed to save fields", error);
+  }
+};
+
+export const getFields = () => readFields();
+
+export const getField = async (id: string) => (await readFields()).find((field) => field.id === id) ?? null;
+
+export const subscribeToFields = (listener: FieldsListener) => {
+  listeners.add(listener);
+  readFields().then((current) => {
+    if (listeners.has(listener)) listener(current);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const saveField = async (field: Omit<Field, 'id' | 'createdAt'> & { id?: string }) => {
+  const current = await readFields();
+  const existing = field.id ? current.find((item) => item.id === field.id) : undefined;
+  const saved: Field = {
+    id: existing?.id ?? Date.now().toString(),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+    name: field.name,
+    areaHectares: field.areaHectares,
+    variety: field.variety,
+    plantingDate: field.plantingDate,
+  };
+
+  await writeFields(
+    existing ? current.map((item) => (item.id === saved.id ? saved : item)) : [...current, saved]
+  );
+  return saved;
+};
+
+// Scans keep their `fieldId`; they just show as unassigned once the field is gone.
+export const deleteField = async (id: string) => {
+  const current = await readFields();
+  await writeFields(current.filter((item) => item.id !== id));
+};
+
+// Adds fields from a backup. `overwrite` decides which copy wins when both
+// have the same id; `replace` drops every current field first.
+export const importFields = async (incoming: Field[], { replace = false, overwrite = false } = {}) => {
+  const current = replace ? [] : await readFields();
+  const currentIds = new Set(current.map((field) => field.id));
+  const merged = current.map((field) => (overwrite ? incoming.find((item) => item.id === field.id) ?? field : field));
+  await writeFields([...merged, ...incoming.filter((field) => !currentIds.has(field.id))]);
+};
+
+// --- FIELD HEALTH ---
+export type FieldHealth = 'healthy' | 'diseased' | 'unknown';
+
+// Oldest first, for a field's timeline.
+export const getFieldScans = (items: HistoryItem[], fieldId: string) =>
+  items
+    .filter((item) => item.fieldId === fieldId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+// Latest scan that actually showed a rice leaf, and what it means for the field.
+export const getFieldStatus = (scans: HistoryItem[]): { health: FieldHealth; latest: HistoryItem | null } => {
+  const latest = [...scans].reverse().find((item) => item.label !== 'NOT_A_RICE_LEAF') ?? null;
+  if (!latest) return { health: 'unknown', latest: null };
+  return { health: latest.label === 'Healthy Rice Leaf' ? 'healthy' : 'diseased', latest };
+};
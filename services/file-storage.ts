@@ -0,0 +1,93 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+// Files the app owns live under the document directory, which the OS does
+// not clear like the image picker's cache.
+const HEATMAP_DIR = 'heatmaps';
+const SCAN_IMAGE_DIR = 'scans';
+
+const getDirectory = (name: string) => {
+  const directory = new Directory(Paths.document, name);
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+  return directory;
+};
+
+// True for files this app wrote. Anything else (gallery photos, picker cache)
+// belongs to someone else and must never be deleted by us.
+export const isAppOwnedFile = (uri: string | undefined) =>
+  !!uri && uri.startsWith(Paths.document.uri);
+
+export const fileExists = (uri: string | undefined) => {
+  if (!uri) return false;
+  // Only local files can be checked; trust anything else (e.g. content:// URIs).
+  if (!uri.startsWith('file://')) return true;
+  try {
+    return new File(uri).exists;
+  } catch {
+    return false;
+  }
+};
+
+// Writes a base64 Grad-CAM JPEG to disk and returns its file URI.
+export const saveHeatmap = (id: string, base64: string) => {
+  const file = new File(getDirectory(HEATMAP_DIR), `${id}.jpg`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(base64, { encoding: 'base64' });
+  return file.uri;
+};
+
+/**
+ * Copies a picked or captured photo to `scans/<id>.<ext>` and returns the new
+ * URI. Photos already in app storage are returned unchanged.
+ */
+export const storeScanImage = (id: string, sourceUri: string) => {
+  if (isAppOwnedFile(sourceUri)) return sourceUri;
+
+  const source = new File(sourceUri);
+  const target = new File(getDirectory(SCAN_IMAGE_DIR), `${id}${source.extension || '.jpg'}`);
+  if (target.exists) target.delete();
+  source.copy(target);
+  return target.uri;
+};
+
+// Writes a scan photo restored from a backup to `scans/<id><extension>`.
+export const writeScanImage = (id: string, extension: string, base64: string) => {
+  const file = new File(getDirectory(SCAN_IMAGE_DIR), `${id}${extension}`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(base64, { encoding: 'base64' });
+  return file.uri;
+};
+
+// Raw bytes of a local file, or null when it is missing or unreadable.
+export const readFileBytes = async (uri: string | undefined) => {
+  if (!uri || !fileExists(uri) || !uri.startsWith('file://')) return null;
+  try {
+    return await new File(uri).bytes();
+  } catch (error) {
+    console.error("Failed to read file", uri, error);
+    return null;
+  }
+};
+
+export const deleteStoredFile = (uri: string | undefined) => {
+  if (!uri || !isAppOwnedFile(uri)) return;
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.error("Failed to delete file", uri, error);
+  }
+};
+
+// Removes every stored heatmap, including any orphaned by a crash mid-save.
+export const deleteAllHeatmaps = () => {
+  try {
+    const directory = new Directory(Paths.document, HEATMAP_DIR);
+    if (directory.exists) directory.delete();
+  } catch (error) {
+    console.error("Failed to delete heatmaps", error);
+  }
+};
@@ -0,0 +1,100 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { getAppSettings } from '@/services/app-settings';
+import { bandOf } from '@/services/confidence';
+import { exportDataset } from '@/services/dataset-export';
+import { escapeCsv } from '@/services/export-format';
+import { Field, getFields } from '@/services/fields';
+import { HISTORY_SCHEMA_VERSION, HistoryItem, getAllHistory } from '@/services/history';
+import { DEFAULT_HISTORY_FILTERS, applyHistoryFilters, toDateKey } from '@/services/history-filters';
+import { translate } from '@/services/i18n';
+
+// --- TYPESCRIPT INTERFACES ---
+// `dataset` is a ZIP of reviewed photos for retraining, see services/dataset-export.ts.
+export type ExportFormat = 'csv' | 'json' | 'dataset';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fromDate: string | null; // 'YYYY-MM-DD', inclusive
+  toDate: string | null;   // 'YYYY-MM-DD', inclusive
+}
+
+export type ExportErrorKind = 'sharing';
+
+export class ExportError extends Error {
+  readonly kind: ExportErrorKind;
+
+  constructor(kind: ExportErrorKind, message: string) {
+    super(message);
+    this.name = 'ExportError';
+    this.kind = kind;
+  }
+}
+
+const CSV_COLUMNS = ['id', 'date', 'label', 'true_label', 'confidence', 'band', 'advice', 'field', 'notes'];
+
+const MIME_TYPES: { [format in Exclude<ExportFormat, 'dataset'>]: { mimeType: string; UTI: string } } = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+};
+
+export const buildHistoryCsv = (items: HistoryItem[], fields: Field[]) => {
+  const fieldNames = new Map(fields.map((field) => [field.id, field.name]));
+  const rows = items.map((item) =>
+    [
+      item.id,
+      item.createdAt,
+      item.label,
+      item.feedback?.trueLabel ?? '',
+      item.confidence.toFixed(2),
+      bandOf(item),
+      item.advice,
+      item.fieldId ? fieldNames.get(item.fieldId) ?? '' : '',
+      item.notes ?? '',
+    ].map(escapeCsv).join(',')
+  );
+  // The byte order mark makes Excel read the file as UTF-8 (advice has emoji).
+  return `\uFEFF${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+};
+
+export const buildHistoryJson = (items: HistoryItem[], fields: Field[]) =>
+  JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      schemaVersion: HISTORY_SCHEMA_VERSION,
+      fields,
+      items,
+    },
+    null,
+    2
+  );
+
+/**
+ * Writes the matching scans to a file in the cache directory and opens the
+ * OS share sheet for it. Returns the number of scans exported (for
+ * `dataset`, only the reviewed ones); nothing is shared when that is zero.
+ */
+export const exportHistory = async ({ format, fromDate, toDate }: ExportOptions) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new ExportError('sharing', 'Sharing is not available on this device.');
+  }
+
+  const [history, fields] = await Promise.all([getAllHistory(), getFields()]);
+  const items = applyHistoryFilters(history, { ...DEFAULT_HISTORY_FILTERS, fromDate, toDate });
+  if (items.length === 0) return 0;
+  if (format === 'dataset') return (await exportDataset(items)).scans;
+
+  const contents = format === 'csv' ? buildHistoryCsv(items, fields) : buildHistoryJson(items, fields);
+  const file = new File(Paths.cache, `rice-leaf-history-${toDateKey(new Date())}.${format}`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(contents);
+
+  const { language } = await getAppSettings();
+  await Sharing.shareAsync(file.uri, {
+    ...MIME_TYPES[format],
+    dialogTitle: translate(language, 'export.shareTitle'),
+  });
+  return items.length;
+};
@@ -0,0 +1,130 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DiseaseLabel } from '@/constants/labels';
+import { DEFAULT_LANGUAGE, Language } from '@/constants/languages';
+import { ConfidenceBand, bandOf } from '@/services/confidence';
+import { HistoryItem } from '@/services/history';
+import { getDiseaseAdvice } from '@/services/i18n';
+
+// --- TYPESCRIPT INTERFACES ---
+export type HistorySortField = 'date' | 'confidence' | 'disease';
+export type SortDirection = 'asc' | 'desc';
+
+export interface HistoryFilters {
+  query: string;                // Free text, matched against notes and advice (as shown in `language`)
+  labels: DiseaseLabel[];       // Empty = every label
+  fromDate: string | null;      // 'YYYY-MM-DD', inclusive
+  toDate: string | null;        // 'YYYY-MM-DD', inclusive
+  minConfidence: number | null; // Percentage, inclusive
+  maxConfidence: number | null; // Percentage, inclusive
+  bands: ConfidenceBand[];      // Empty = every band
+  fieldId: string | null;       // null = every field
+  sortBy: HistorySortField;
+  sortDirection: SortDirection;
+}
+
+const FILTERS_KEY = 'history_filters';
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  labels: [],
+  fromDate: null,
+  toDate: null,
+  minConfidence: null,
+  maxConfidence: null,
+  bands: [],
+  fieldId: null,
+  sortBy: 'date',
+  sortDirection: 'desc',
+};
+
+// Newest-first with nothing filtered is the order the repository already
+// stores, so the list can page straight from storage.
+export const isDefaultHistoryFilters = (filters: HistoryFilters) =>
+  countActiveFilters(filters) === 0 && filters.sortBy === 'date' && filters.sortDirection === 'desc';
+
+export const countActiveFilters = (filters: HistoryFilters) =>
+  [
+    filters.query.trim() !== '',
+    filters.labels.length > 0,
+    filters.fromDate !== null || filters.toDate !== null,
+    filters.minConfidence !== null || filters.maxConfidence !== null,
+    filters.bands.length > 0,
+    filters.fieldId !== null,
+  ].filter(Boolean).length;
+
+// 'YYYY-MM-DD' in the device's local time zone.
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const isValidDateKey = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+const compareItems = (a: HistoryItem, b: HistoryItem, sortBy: HistorySortField) => {
+  switch (sortBy) {
+    case 'confidence':
+      return a.confidence - b.confidence;
+    case 'disease':
+      return a.label.localeCompare(b.label);
+    case 'date':
+    default:
+      return a.createdAt.localeCompare(b.createdAt);
+  }
+};
+
+export const applyHistoryFilters = (
+  items: HistoryItem[],
+  filters: HistoryFilters,
+  language: Language = DEFAULT_LANGUAGE
+) => {
+  const query = filters.query.trim().toLowerCase();
+
+  const matches = items.filter((item) => {
+    if (filters.labels.length > 0 && !filters.labels.includes(item.label as DiseaseLabel)) return false;
+
+    const day = toDateKey(new Date(item.createdAt));
+    if (filters.fromDate && day < filters.fromDate) return false;
+    if (filters.toDate && day > filters.toDate) return false;
+
+    if (filters.minConfidence !== null && item.confidence < filters.minConfidence) return false;
+    if (filters.maxConfidence !== null && item.confidence > filters.maxConfidence) return false;
+    if (filters.bands.length > 0 && !filters.bands.includes(bandOf(item))) return false;
+
+    if (filters.fieldId !== null && item.fieldId !== filters.fieldId) return false;
+
+    if (query) {
+      const advice = getDiseaseAdvice(item.label, language) ?? item.advice;
+      const haystack = `${item.notes ?? ''}\n${advice}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    return true;
+  });
+
+  const direction = filters.sortDirection === 'asc' ? 1 : -1;
+  return matches.sort((a, b) => {
+    const primary = compareItems(a, b, filters.sortBy) * direction;
+    // Ties (same disease, same confidence) fall back to newest first.
+    return primary !== 0 ? primary : b.createdAt.localeCompare(a.createdAt);
+  });
+};
+
+export const loadHistoryFilters = async (): Promise<HistoryFilters> => {
+  try {
+    const stored = await AsyncStorage.getItem(FILTERS_KEY);
+    return stored ? { ...DEFAULT_HISTORY_FILTERS, ...JSON.parse(stored) } : DEFAULT_HISTORY_FILTERS;
+  } catch (error) {
+    console.error("Failed to load history filters", error);
+    return DEFAULT_HISTORY_FILTERS;
+  }
+};
+
+export const saveHistoryFilters = async (filters: HistoryFilters) => {
+  try {
+    await AsyncStorage.setItem(FILTERS_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.error("Failed to save history filters", error);
+  }
+};
@@ -0,0 +1,130 @@
+import { DiseaseLabel, LABELS } from '@/constants/labels';
+import { DEFAULT_LANGUAGE, Language } from '@/constants/languages';
+import { TranslationKey } from '@/constants/translations/en';
+import { HistoryItem } from '@/services/history';
+import { toDateKey } from '@/services/history-filters';
+import { formatMonth } from '@/services/i18n';
+
+// --- TYPESCRIPT INTERFACES ---
+export type StatsWindow = '7d' | '30d' | '90d' | 'all';
+
+export interface LabelStat {
+  label: DiseaseLabel;
+  count: number;
+  averageConfidence: number | null; // Percentage, null when there are no scans
+}
+
+export interface TimeBucket {
+  key: string;   // Start of the bucket, 'YYYY-MM-DD'
+  label: string; // Short axis label
+  count: number;
+}
+
+export interface HistoryStats {
+  total: number;
+  byLabel: LabelStat[];     // Every label in `LABELS` order
+  overTime: TimeBucket[];
+  healthy: number;
+  diseased: number;
+  notRice: number;          // NOT_A_RICE_LEAF scans, left out of the ratio
+}
+
+export const STATS_WINDOWS: { value: StatsWindow; label: TranslationKey; days: number | null }[] = [
+  { value: '7d', label: 'stats.window.7d', days: 7 },
+  { value: '30d', label: 'stats.window.30d', days: 30 },
+  { value: '90d', label: 'stats.window.90d', days: 90 },
+  { value: 'all', label: 'stats.window.all', days: null },
+];
+
+const HEALTHY_LABEL: DiseaseLabel = 'Healthy Rice Leaf';
+const NOT_RICE_LABEL: DiseaseLabel = 'NOT_A_RICE_LEAF';
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Daily columns for short windows, weekly for a season, monthly for all time.
+const bucketStart = (date: Date, window: StatsWindow) => {
+  const day = startOfDay(date);
+  if (window === '90d') {
+    day.setDate(day.getDate() - day.getDay()); // Week starts on Sunday
+  } else if (window === 'all') {
+    day.setDate(1);
+  }
+  return day;
+};
+
+const nextBucket = (date: Date, window: StatsWindow) => {
+  const next = new Date(date);
+  if (window === '90d') next.setDate(next.getDate() + 7);
+  else if (window === 'all') next.setMonth(next.getMonth() + 1);
+  else next.setDate(next.getDate() + 1);
+  return next;
+};
+
+const bucketLabel = (date: Date, window: StatsWindow, language: Language) =>
+  window === 'all' ? formatMonth(date, language) : `${date.getMonth() + 1}/${date.getDate()}`;
+
+export const filterByWindow = (items: HistoryItem[], window: StatsWindow, now: Date = new Date()) => {
+  const days = STATS_WINDOWS.find((option) => option.value === window)?.days ?? null;
+  if (days === null) return items;
+  const from = startOfDay(now);
+  from.setDate(from.getDate() - (days - 1));
+  return items.filter((item) => new Date(item.createdAt) >= from);
+};
+
+export const computeHistoryStats = (
+  allItems: HistoryItem[],
+  window: StatsWindow,
+  language: Language = DEFAULT_LANGUAGE,
+  now: Date = new Date()
+): HistoryStats => {
+  const items = filterByWindow(allItems, window, now);
+
+  const byLabel: LabelStat[] = LABELS.map((label) => {
+    const matching = items.filter((item) => item.label === label);
+    const sum = matching.reduce((total, item) => total + item.confidence, 0);
+    return {
+      label,
+      count: matching.length,
+      averageConfidence: matching.length > 0 ? sum / matching.length : null,
+    };
+  });
+
+  // Time axis: from the window start (or first scan for "all") up to today.
+  const days = STATS_WINDOWS.find((option) => option.value === window)?.days ?? null;
+  let first: Date;
+  if (days !== null) {
+    first = startOfDay(now);
+    first.setDate(first.getDate() - (days - 1));
+  } else {
+    const oldest = items.reduce<string | null>(
+      (min, item) => (min === null || item.createdAt < min ? item.createdAt : min),
+      null
+    );
+    first = oldest ? new Date(oldest) : now;
+  }
+
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = toDateKey(bucketStart(new Date(item.createdAt), window));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const overTime: TimeBucket[] = [];
+  for (let cursor = bucketStart(first, window); cursor <= now; cursor = nextBucket(cursor, window)) {
+    const key = toDateKey(cursor);
+    overTime.push({ key, label: bucketLabel(cursor, window, language), count: counts.get(key) ?? 0 });
+  }
+
+  const countOf = (label: DiseaseLabel) => byLabel.find((stat) => stat.label === label)?.count ?? 0;
+  const healthy = countOf(HEALTHY_LABEL);
+  const notRice = countOf(NOT_RICE_LABEL);
+
+  return {
+    total: items.length,
+    byLabel,
+    overTime,
+    healthy,
+    diseased: items.length - healthy - notRice,
+    notRice,
+  };
+};
@@ -0,0 +1,449 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DISEASE_LIBRARY } from '@/constants/disease-library';
+import { DiseaseLabel, isDiseaseLabel } from '@/constants/labels';
+import { DEFAULT_LANGUAGE, Language } from '@/constants/languages';
+import {
+  deleteAllHeatmaps,
+  deleteStoredFile,
+  fileExists,
+  saveHeatmap,
+  storeScanImage,
+} from '@/services/file-storage';
+import { getAppSettings } from '@/services/app-settings';
+import { ConfidenceBand, getConfidenceBand } from '@/services/confidence';
+import { formatDateTime } from '@/services/i18n';
+import { GeoPoint } from '@/services/location';
+import { PhotoQuality } from '@/services/photo-quality';
+import { ClassProbability, PredictionResult, parseConfidence } from '@/services/prediction';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface HistoryItem {
+  id: string;
+  label: string;
+  confidence: number;                 // Percentage, 0-100
+  imageUri: string;                   // Copy in app storage (see `storeScanImage`)
+  createdAt: string;                  // ISO time of the scan
+  advice: string;
+  probabilities?: ClassProbability[]; // Missing on entries saved before the API returned it
+  heatmapUri?: string;                // Grad-CAM JPEG in app storage
+  notes?: string;                     // Free text added by the farmer
+  fieldId?: string;                   // See services/fields.ts
+  location?: GeoPoint;                // Only when geotagging is turned on
+  quality?: PhotoQuality;             // Measured on the device before upload
+  band?: ConfidenceBand;              // With the thresholds set when scanned; see `bandOf`
+  photos?: PlantPhoto[];              // Plant mode only: every photo with its own result
+  agreement?: number;                 // Plant mode only: photos whose own result is `label`
+  feedback?: DiagnosisFeedback;       // The farmer's answer to "Was this correct?"
+  followUpOf?: string;                // Id of the scan this one re-checks (see services/reminders.ts)
+  followUpIds?: string[];             // Ids of the scans that re-checked this one
+  treatments?: Treatment[];           // What the farmer applied after this diagnosis
+}
+
+// One application logged against a scan (see services/treatments.ts).
+export interface Treatment {
+  id: string;
+  product: string;
+  activeIngredient?: string;
+  dose?: string;                      // As the farmer wrote it, e.g. "2 tbsp per 16 L"
+  appliedOn: string;                  // 'YYYY-MM-DD'
+  cost?: number;                      // Local currency
+  createdAt: string;                  // ISO time it was logged
+}
+
+// `label` stays the model's answer; the true class lives here.
+export interface DiagnosisFeedback {
+  correct: boolean;
+  trueLabel: DiseaseLabel;            // Same as the entry's `label` when correct
+  answeredAt: string;                 // ISO time
+}
+
+// One photo of a plant-mode scan (see services/plant-scan.ts).
+export interface PlantPhoto {
+  imageUri: string;                   // App storage; one of them is also the entry's `imageUri`
+  label: string;
+  confidence: number;
+  probabilities?: ClassProbability[];
+  quality?: PhotoQuality;             // Measured on the device before upload
+}
+
+// Details about a scan that the prediction itself does not carry.
+export interface ScanDetails {
+  scannedAt?: Date; // Defaults to now; queued scans pass the time the photo was taken
+  fieldId?: string;
+  location?: GeoPoint;
+  quality?: PhotoQuality;
+  followUpOf?: string;
+}
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  total: number;
+  hasMore: boolean;
+}
+
+// --- STORAGE LAYOUT ---
+// Each entry has its own key so a save or delete touches one record plus the
+// id index, instead of rewriting the whole history.
+const SCHEMA_VERSION_KEY = 'history_schema_version';
+const INDEX_KEY = 'history_index'; // JSON array of ids, newest first
+const ENTRY_PREFIX = 'history_entry:';
+const LEGACY_HISTORY_KEY = 'leaf_history';
+
+export const HISTORY_SCHEMA_VERSION = 3;
+export const HISTORY_PAGE_SIZE = 20;
+
+const entryKey = (id: string) => `${ENTRY_PREFIX}${id}`;
+
+// --- MIGRATIONS ---
+// A version 1 `leaf_history` entry: numeric id, "87.53%" confidence and a
+// locale `date` string instead of `createdAt`.
+const fromLegacyItem = (old: any): HistoryItem => ({
+  id: String(old.id),
+  label: old.label,
+  confidence: parseConfidence(old.confidence) ?? 0,
+  imageUri: old.imageUri,
+  // Old ids are `Date.now()` strings; the saved `date` was a locale string.
+  createdAt: new Date(Number(old.id) || Date.now()).toISOString(),
+  advice: old.advice,
+  probabilities: old.probabilities,
+  heatmapUri: old.heatmapUri,
+});
+
+/**
+ * Brings a single entry saved under an older schema version up to the
+ * current shape. Used for entries that arrive from outside storage, such as
+ * backups made by older app versions.
+ */
+export const upgradeHistoryItem = (raw: any, fromVersion: number): HistoryItem =>
+  // Versions 2 and 3 only changed where entries and photos are stored.
+  fromVersion < 2 ? fromLegacyItem(raw) : raw;
+
+// `MIGRATIONS[n]` upgrades storage from version n - 1 to version n.
+// Version 1 is the original single `leaf_history` array (no version key).
+const MIGRATIONS: { [version: number]: () => Promise<void> } = {
+  2: async () => {
+    const legacy = await AsyncStorage.getItem(LEGACY_HISTORY_KEY);
+    const oldItems: any[] = legacy ? JSON.parse(legacy) : [];
+
+    const items: HistoryItem[] = oldItems.map(fromLegacyItem);
+
+    await AsyncStorage.multiSet([
+      ...items.map((item): [string, string] => [entryKey(item.id), JSON.stringify(item)]),
+      [INDEX_KEY, JSON.stringify(items.map((item) => item.id))],
+    ]);
+    await AsyncStorage.removeItem(LEGACY_HISTORY_KEY);
+  },
+
+  // Copy photos that still point at the image picker's cache into app storage.
+  // Photos the OS already cleared are left as-is and show a placeholder.
+  3: async () => {
+    const ids: string[] = JSON.parse((await AsyncStorage.getItem(INDEX_KEY)) ?? '[]');
+    const items = await readEntries(ids);
+    const updates: [string, string][] = [];
+
+    items.forEach((item) => {
+      if (!fileExists(item.imageUri)) return;
+      try {
+        const imageUri = storeScanImage(item.id, item.imageUri);
+        if (imageUri !== item.imageUri) {
+          updates.push([entryKey(item.id), JSON.stringify({ ...item, imageUri })]);
+        }
+      } catch (error) {
+        console.error("Failed to copy scan image", item.id, error);
+      }
+    });
+
+    if (updates.length > 0) await AsyncStorage.multiSet(updates);
+  },
+};
+
+const readSchemaVersion = async () => {
+  const stored = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  if (stored) return Number(stored);
+  // No version key: either a fresh install or the original format.
+  return (await AsyncStorage.getItem(LEGACY_HISTORY_KEY)) ? 1 : 0;
+};
+
+const runMigrations = async () => {
+  let version = await readSchemaVersion();
+
+  if (version === 0) {
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(HISTORY_SCHEMA_VERSION));
+    return;
+  }
+
+  while (version < HISTORY_SCHEMA_VERSION) {
+    const next = version + 1;
+    await MIGRATIONS[next]();
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(next));
+    console.log(`✅ History migrated to v${next}`);
+    version = next;
+  }
+};
+
+let ready: Promise<void> | null = null;
+
+const ensureSchema = () => {
+  if (!ready) {
+    ready = runMigrations().catch((error) => {
+      ready = null; // Let the next call try again.
+      throw error;
+    });
+  }
+  return ready;
+};
+
+// Writes run one after another so two saves can't both read the old index
+// and drop each other's id.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeChain.then(task, task);
+  writeChain = run.catch(() => undefined);
+  return run;
+};
+
+const readIndex = async (): Promise<string[]> => {
+  await ensureSchema();
+  const stored = await AsyncStorage.getItem(INDEX_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const readEntries = async (ids: string[]): Promise<HistoryItem[]> => {
+  if (ids.length === 0) return [];
+  const pairs = await AsyncStorage.multiGet(ids.map(entryKey));
+  return pairs
+    .map(([, value]) => (value ? (JSON.parse(value) as HistoryItem) : null))
+    .filter((item): item is HistoryItem => item !== null);
+};
+
+// --- REPOSITORY ---
+export const getHistoryPage = async (offset = 0, limit = HISTORY_PAGE_SIZE): Promise<HistoryPage> => {
+  const ids = await readIndex();
+  const items = await readEntries(ids.slice(offset, offset + limit));
+  return { items, total: ids.length, hasMore: offset + limit < ids.length };
+};
+
+// Loads every entry. Prefer `getHistoryPage` for lists.
+export const getAllHistory = async (): Promise<HistoryItem[]> => readEntries(await readIndex());
+
+export const getHistoryItem = async (id: string): Promise<HistoryItem | null> => {
+  await ensureSchema();
+  const stored = await AsyncStorage.getItem(entryKey(id));
+  return stored ? JSON.parse(stored) : null;
+};
+
+export const insertHistoryItem = (item: HistoryItem) =>
+  serialized(async () => {
+    const ids = await readIndex();
+    await AsyncStorage.multiSet([
+      [entryKey(item.id), JSON.stringify(item)],
+      [INDEX_KEY, JSON.stringify([item.id, ...ids.filter((id) => id !== item.id)])],
+    ]);
+  });
+
+type HistoryChanges = Partial<Omit<HistoryItem, 'id'>>;
+
+// Pass a function for changes built from the stored entry (e.g. adding to a
+// list): it runs inside the write chain, so it always sees the latest copy.
+export const updateHistoryItem = (id: string, changes: HistoryChanges | ((item: HistoryItem) => HistoryChanges)) =>
+  serialized(async () => {
+    const current = await getHistoryItem(id);
+    if (!current) return null;
+    const updated = { ...current, ...(typeof changes === 'function' ? changes(current) : changes) };
+    await AsyncStorage.setItem(entryKey(id), JSON.stringify(updated));
+    return updated;
+  });
+
+export const deleteHistoryItem = (id: string) =>
+  serialized(async () => {
+    const item = await getHistoryItem(id);
+    const ids = await readIndex();
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(ids.filter((entry) => entry !== id)));
+    await AsyncStorage.removeItem(entryKey(id));
+    deleteStoredFile(item?.imageUri);
+    deleteStoredFile(item?.heatmapUri);
+    item?.photos?.forEach((photo) => deleteStoredFile(photo.imageUri));
+  });
+
+export const clearAllHistory = () =>
+  serialized(async () => {
+    const ids = await readIndex();
+    const items = await readEntries(ids);
+    await AsyncStorage.multiRemove([INDEX_KEY, ...ids.map(entryKey)]);
+    // Photos are removed one by one: the scans folder also holds queued photos.
+    items.forEach((item) => {
+      deleteStoredFile(item.imageUri);
+      item.photos?.forEach((photo) => deleteStoredFile(photo.imageUri));
+    });
+    deleteAllHeatmaps();
+  });
+
+// Swaps the whole history for `items` in one go. Files of the old entries are
+// deleted afterwards, except those an incoming entry was written over.
+export const replaceAllHistory = (items: HistoryItem[]) =>
+  serialized(async () => {
+    const ids = await readIndex();
+    const previous = await readEntries(ids);
+    const index = [...items]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((item) => item.id);
+
+    await AsyncStorage.multiSet([
+      ...items.map((item): [string, string] => [entryKey(item.id), JSON.stringify(item)]),
+      [INDEX_KEY, JSON.stringify(index)],
+    ]);
+    const kept = new Set(index);
+    await AsyncStorage.multiRemove(ids.filter((id) => !kept.has(id)).map(entryKey));
+
+    const filesOf = (item: HistoryItem) => [
+      item.imageUri,
+      item.heatmapUri,
+      ...(item.photos ?? []).map((photo) => photo.imageUri),
+    ];
+    const inUse = new Set(items.flatMap(filesOf));
+    previous.flatMap(filesOf).forEach((uri) => {
+      if (uri && !inUse.has(uri)) deleteStoredFile(uri);
+    });
+  });
+
+// Adds or overwrites many entries at once, keeping the index newest first.
+export const importHistoryItems = (items: HistoryItem[]) =>
+  serialized(async () => {
+    const ids = await readIndex();
+    const existing = await readEntries(ids);
+    const byId = new Map(existing.map((item) => [item.id, item]));
+    items.forEach((item) => byId.set(item.id, item));
+
+    const index = [...byId.values()]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((item) => item.id);
+
+    await AsyncStorage.multiSet([
+      ...items.map((item): [string, string] => [entryKey(item.id), JSON.stringify(item)]),
+      [INDEX_KEY, JSON.stringify(index)],
+    ]);
+  });
+
+export const formatScanDate = (item: Pick<HistoryItem, 'createdAt'>, language: Language = DEFAULT_LANGUAGE) =>
+  formatDateTime(item.createdAt, language);
+
+// Batch scans save several entries within the same millisecond.
+let lastEntryId = 0;
+const nextEntryId = () => {
+  lastEntryId = Math.max(Date.now(), lastEntryId + 1);
+  return lastEntryId.toString();
+};
+
+// Both are worth keeping without the other, so failures are only logged.
+const storeHeatmap = (id: string, base64: string | null) => {
+  if (!base64) return undefined;
+  try {
+    return saveHeatmap(id, base64);
+  } catch (error) {
+    console.error("Failed to save heatmap:", error);
+    return undefined;
+  }
+};
+
+const storeImage = (id: string, imageUri: string) => {
+  try {
+    return storeScanImage(id, imageUri);
+  } catch (error) {
+    console.error("Failed to copy scan image:", error);
+    return imageUri;
+  }
+};
+
+const adviceFor = (label: string) =>
+  isDiseaseLabel(label) ? DISEASE_LIBRARY[label].summary : "Consult an expert.";
+
+export const addToHistory = async (
+  prediction: PredictionResult,
+  imageUri: string,
+  { scannedAt = new Date(), fieldId, location, quality, followUpOf }: ScanDetails = {}
+) => {
+  try {
+    const id = nextEntryId();
+    const { confidenceThresholds } = await getAppSettings();
+
+    const newEntry: HistoryItem = {
+      id,
+      label: prediction.label,
+      confidence: prediction.confidence,
+      imageUri: storeImage(id, imageUri),
+      createdAt: scannedAt.toISOString(),
+      advice: adviceFor(prediction.label),
+      probabilities: prediction.probabilities,
+      heatmapUri: storeHeatmap(id, prediction.heatmapImage),
+      fieldId,
+      location,
+      quality,
+      band: getConfidenceBand(prediction.confidence, confidenceThresholds),
+      followUpOf,
+    };
+
+    await insertHistoryItem(newEntry);
+    console.log("✅ Saved to history");
+    return newEntry;
+  } catch (error) {
+    console.error("Failed to save history:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves a plant-mode scan as one entry. The entry's photo and heatmap come
+ * from the photo that shows the consensus most clearly; every photo and its
+ * own result are kept in `photos`.
+ */
+export const addPlantToHistory = async (
+  consensus: Pick<PredictionResult, 'label' | 'confidence' | 'probabilities'> & { agreement: number },
+  photos: { imageUri: string; prediction: PredictionResult; quality?: PhotoQuality }[],
+  { scannedAt = new Date(), fieldId, location, followUpOf }: ScanDetails = {}
+) => {
+  try {
+    const id = nextEntryId();
+    const { confidenceThresholds } = await getAppSettings();
+
+    const scoreOf = ({ prediction }: (typeof photos)[number]) =>
+      prediction.probabilities.find((probability) => probability.label === consensus.label)?.confidence ??
+      (prediction.label === consensus.label ? prediction.confidence : 0);
+    const best = photos.reduce((bestIndex, photo, index) =>
+      scoreOf(photo) > scoreOf(photos[bestIndex]) ? index : bestIndex, 0);
+
+    const storedPhotos: PlantPhoto[] = photos.map(({ imageUri, prediction, quality }, index) => ({
+      imageUri: storeImage(`${id}-${index + 1}`, imageUri),
+      label: prediction.label,
+      confidence: prediction.confidence,
+      probabilities: prediction.probabilities,
+      quality,
+    }));
+
+    const newEntry: HistoryItem = {
+      id,
+      label: consensus.label,
+      confidence: consensus.confidence,
+      imageUri: storedPhotos[best].imageUri,
+      createdAt: scannedAt.toISOString(),
+      advice: adviceFor(consensus.label),
+      probabilities: consensus.probabilities,
+      heatmapUri: storeHeatmap(id, photos[best].prediction.heatmapImage),
+      fieldId,
+      location,
+      quality: photos[best].quality,
+      band: getConfidenceBand(consensus.confidence, confidenceThresholds),
+      photos: storedPhotos,
+      agreement: consensus.agreement,
+      followUpOf,
+    };
+
+    await insertHistoryItem(newEntry);
+    console.log(`✅ Saved plant scan (${photos.length} photos) to history`);
+    return newEntry;
+  } catch (error) {
+    console.error("Failed to save history:", error);
+    return null;
+  }
+};
@@ -0,0 +1,94 @@
+import { getLocales } from 'expo-localization';
+
+import { DISEASE_ADVICE_TRANSLATIONS, DISEASE_NAMES } from '@/constants/disease-advice';
+import { DISEASE_LIBRARY, DiseaseEntry } from '@/constants/disease-library';
+import { DISEASE_LIBRARY_TRANSLATIONS } from '@/constants/disease-library-translations';
+import { DiseaseLabel, isDiseaseLabel } from '@/constants/labels';
+import { DEFAULT_LANGUAGE, LANGUAGES, Language } from '@/constants/languages';
+import { TranslationKey, Translations, en } from '@/constants/translations/en';
+import { fil } from '@/constants/translations/fil';
+import { ilo } from '@/constants/translations/ilo';
+
+export type TranslationParams = { [name: string]: string | number };
+
+// Keys that come as a `_one` / `_other` pair, without the suffix.
+export type PluralKey = TranslationKey extends infer Key
+  ? Key extends `${infer Base}_one`
+    ? Base
+    : never
+  : never;
+
+const CATALOGS: { [language in Language]: Translations } = { en, fil, ilo };
+
+export const translate = (language: Language, key: TranslationKey, params?: TranslationParams) => {
+  const text = CATALOGS[language][key] ?? en[key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+export const translatePlural = (
+  language: Language,
+  key: PluralKey,
+  count: number,
+  params?: TranslationParams
+) => translate(language, `${key}_${count === 1 ? 'one' : 'other'}` as TranslationKey, { count, ...params });
+
+// Labels the model does not know (e.g. from an old backup) are shown as-is.
+export const getDiseaseName = (label: string, language: Language) =>
+  isDiseaseLabel(label) ? DISEASE_NAMES[language][label] : label;
+
+export const getDiseaseAdvice = (label: string, language: Language): string | null => {
+  if (!isDiseaseLabel(label)) return null;
+  return language === 'en' ? DISEASE_LIBRARY[label].summary : DISEASE_ADVICE_TRANSLATIONS[language][label];
+};
+
+// Library entry with its text in `language`; captions follow `referenceImages` by position.
+export const getDiseaseEntry = (label: DiseaseLabel, language: Language): DiseaseEntry => {
+  const entry = DISEASE_LIBRARY[label];
+  if (language === 'en') return entry;
+  const { imageCaptions, ...text } = DISEASE_LIBRARY_TRANSLATIONS[language][label];
+  return {
+    ...entry,
+    ...text,
+    referenceImages: entry.referenceImages.map((image, index) => ({
+      ...image,
+      caption: imageCaptions[index] ?? image.caption,
+    })),
+  };
+};
+
+const dateLocales = (language: Language): string[] => [
+  ...(LANGUAGES.find((item) => item.code === language)?.dateLocales ?? []),
+];
+
+export const formatDateTime = (value: string | number | Date, language: Language) =>
+  new Date(value).toLocaleString(dateLocales(language));
+
+export const formatTime = (value: string | number | Date, language: Language) =>
+  new Date(value).toLocaleTimeString(dateLocales(language));
+
+// Short month and year for chart axes, e.g. "Mar 25".
+export const formatMonth = (value: string | number | Date, language: Language) =>
+  new Date(value).toLocaleDateString(dateLocales(language), { month: 'short', year: '2-digit' });
+
+// First supported language in the phone's preference list. Tagalog counts as Filipino.
+export const detectDeviceLanguage = (): Language => {
+  try {
+    for (const locale of getLocales()) {
+      switch (locale.languageCode) {
+        case 'fil':
+        case 'tl':
+          return 'fil';
+        case 'ilo':
+          return 'ilo';
+        case 'en':
+          return 'en';
+      }
+    }
+  } catch (error) {
+    console.warn("Could not read device locales", error);
+  }
+  return DEFAULT_LANGUAGE;
+};
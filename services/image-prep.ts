@@ -0,0 +1,91 @@
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface SourceImage {
+  uri: string;
+  width: number;  // Pixels, as reported by the image picker
+  height: number;
+}
+
+// In pixels of the image after `rotation` is applied.
+export interface CropRect {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+}
+
+export interface PrepareOptions {
+  rotation?: number;       // Clockwise degrees, a multiple of 90
+  crop?: CropRect | null;  // Null keeps the whole photo
+}
+
+export interface PreparedImage {
+  uri: string;
+  width: number;
+  height: number;
+  sourceWidth: number;   // Framed part of the original photo, before downscaling
+  sourceHeight: number;
+  originalBytes: number;
+  preparedBytes: number;
+}
+
+// app.py squashes every photo to this before running the model.
+export const MODEL_INPUT_SIZE = 224;
+
+// Twice the model input, so the copy saved in history still looks sharp and
+// the server's resize is a clean 2:1 step.
+const UPLOAD_SIZE = MODEL_INPUT_SIZE * 2;
+const JPEG_QUALITY = 0.8;
+
+const fileSize = (uri: string) => {
+  try {
+    return new File(uri).size;
+  } catch {
+    return 0;
+  }
+};
+
+// Width and height once a clockwise rotation is applied.
+export const rotatedSize = ({ width, height }: Pick<SourceImage, 'width' | 'height'>, rotation: number) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Rotates, crops and downscales a photo so its shorter side is at most
+ * `UPLOAD_SIZE`, then re-encodes it as JPEG. The original file is left alone.
+ */
+export const prepareForUpload = async (
+  source: SourceImage,
+  { rotation = 0, crop = null }: PrepareOptions = {}
+): Promise<PreparedImage> => {
+  const context = ImageManipulator.manipulate(source.uri);
+  if (rotation % 360 !== 0) context.rotate(rotation);
+  if (crop) context.crop(crop);
+
+  const framed = crop ?? rotatedSize(source, rotation);
+  const shorterSide = Math.min(framed.width, framed.height);
+  if (shorterSide > UPLOAD_SIZE) {
+    const scale = UPLOAD_SIZE / shorterSide;
+    context.resize({ width: Math.round(framed.width * scale), height: Math.round(framed.height * scale) });
+  }
+
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({ format: SaveFormat.JPEG, compress: JPEG_QUALITY });
+
+  return {
+    uri: result.uri,
+    width: result.width,
+    height: result.height,
+    sourceWidth: framed.width,
+    sourceHeight: framed.height,
+    originalBytes: fileSize(source.uri),
+    preparedBytes: fileSize(result.uri),
+  };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
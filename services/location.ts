@@ -0,0 +1,114 @@
+import * as Location from 'expo-location';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;        // Metres, when the device reported it
+  source: 'device' | 'exif';
+}
+
+// A fresh GPS fix can take a while under open sky; never hold up a scan for it.
+const FIX_TIMEOUT_MS = 10 * 1000;
+// A last known position this recent is good enough for a paddy-level tag.
+const MAX_CACHED_AGE_MS = 2 * 60 * 1000;
+const EARTH_RADIUS_M = 6371000;
+
+const isValidPoint = (latitude: number, longitude: number) =>
+  Number.isFinite(latitude) &&
+  Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 &&
+  Math.abs(longitude) <= 180 &&
+  !(latitude === 0 && longitude === 0);
+
+// Asks for permission the first time; false when the farmer declines.
+export const requestLocationPermission = async () => {
+  const { granted } = await Location.requestForegroundPermissionsAsync();
+  return granted;
+};
+
+/**
+ * The device's current position, or null when permission is missing or no
+ * fix arrives in time. GPS works without a data connection, so this is
+ * usable in the field.
+ */
+export const getDeviceLocation = async (): Promise<GeoPoint | null> => {
+  try {
+    const { granted } = await Location.getForegroundPermissionsAsync();
+    if (!granted) return null;
+
+    const cached = await Location.getLastKnownPositionAsync({ maxAge: MAX_CACHED_AGE_MS });
+    const position =
+      cached ??
+      (await Promise.race([
+        Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }),
+        new Promise<null>((resolve) => setTimeout(() => resolve(null), FIX_TIMEOUT_MS)),
+      ]));
+    if (!position) return null;
+
+    const { latitude, longitude, accuracy } = position.coords;
+    if (!isValidPoint(latitude, longitude)) return null;
+    return { latitude, longitude, accuracy: accuracy ?? undefined, source: 'device' };
+  } catch (error) {
+    console.warn("Could not read device location", error);
+    return null;
+  }
+};
+
+// EXIF stores coordinates either as decimals or as "deg, min, sec" triples.
+const parseExifCoordinate = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  const parts = Array.isArray(value)
+    ? value.map(Number)
+    : typeof value === 'string'
+      ? value.split(',').map((part) => {
+          const [numerator, denominator = '1'] = part.trim().split('/');
+          return Number(numerator) / Number(denominator);
+        })
+      : [];
+  if (parts.length === 0 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [degrees, minutes = 0, seconds = 0] = parts;
+  return degrees + minutes / 60 + seconds / 3600;
+};
+
+/**
+ * Where a gallery photo was taken, from the EXIF data returned by the image
+ * picker. Android flattens the GPS tags; iOS nests them under "{GPS}".
+ */
+export const readExifLocation = (exif: Record<string, any> | null | undefined): GeoPoint | null => {
+  if (!exif) return null;
+  const gps = exif['{GPS}'] ?? exif;
+
+  const latitude = parseExifCoordinate(gps.GPSLatitude ?? gps.Latitude);
+  const longitude = parseExifCoordinate(gps.GPSLongitude ?? gps.Longitude);
+  if (latitude === null || longitude === null) return null;
+
+  const latitudeRef = gps.GPSLatitudeRef ?? gps.LatitudeRef;
+  const longitudeRef = gps.GPSLongitudeRef ?? gps.LongitudeRef;
+  const signedLatitude = latitudeRef === 'S' ? -Math.abs(latitude) : latitude;
+  const signedLongitude = longitudeRef === 'W' ? -Math.abs(longitude) : longitude;
+
+  return isValidPoint(signedLatitude, signedLongitude)
+    ? { latitude: signedLatitude, longitude: signedLongitude, source: 'exif' }
+    : null;
+};
+
+// Great-circle (haversine) distance in metres.
+export const distanceMeters = (
+  a: Pick<GeoPoint, 'latitude' | 'longitude'>,
+  b: Pick<GeoPoint, 'latitude' | 'longitude'>
+) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+};
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export const formatCoordinates = ({ latitude, longitude }: Pick<GeoPoint, 'latitude' | 'longitude'>) =>
+  `${Math.abs(latitude).toFixed(5)}°${latitude < 0 ? 'S' : 'N'}, ${Math.abs(longitude).toFixed(5)}°${longitude < 0 ? 'W' : 'E'}`;
@@ -0,0 +1,102 @@
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { decode } from 'jpeg-js';
+
+import { MODEL_INPUT_SIZE, PreparedImage } from '@/services/image-prep';
+
+// --- TYPESCRIPT INTERFACES ---
+export type QualityIssue = 'blurry' | 'too_dark' | 'too_bright' | 'low_resolution';
+
+export interface PhotoQuality {
+  sharpness: number;      // Variance of the Laplacian at ANALYSIS_SIZE; higher is sharper
+  brightness: number;     // Mean luminance, 0-255
+  clipped: number;        // Share of blown-out pixels, 0-1
+  width: number;          // Framed part of the original photo, in pixels
+  height: number;
+  issues: QualityIssue[];
+  overridden: boolean;    // Sent for diagnosis despite the issues
+}
+
+// The photo is shrunk to this width before measuring, which keeps the JS
+// decode fast and makes sharpness comparable between cameras.
+const ANALYSIS_SIZE = 256;
+
+// Loose thresholds: a warning the farmer learns to ignore is worse than none.
+const MIN_SHARPNESS = 80;
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 200;
+const MAX_CLIPPED = 0.25;
+const CLIPPED_LUMINANCE = 250;
+
+const readPixels = async (uri: string) => {
+  const image = await ImageManipulator.manipulate(uri).resize({ width: ANALYSIS_SIZE }).renderAsync();
+  const thumbnail = await image.saveAsync({ format: SaveFormat.JPEG, compress: 0.9 });
+  const file = new File(thumbnail.uri);
+  try {
+    return decode(await file.bytes(), { useTArray: true, formatAsRGBA: false });
+  } finally {
+    try {
+      file.delete();
+    } catch {
+      // Left in the cache directory, which the OS clears on its own.
+    }
+  }
+};
+
+const measure = (pixels: Uint8Array, width: number, height: number) => {
+  const gray = new Float32Array(width * height);
+  let total = 0;
+  let clipped = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const value = 0.299 * pixels[i * 3] + 0.587 * pixels[i * 3 + 1] + 0.114 * pixels[i * 3 + 2];
+    gray[i] = value;
+    total += value;
+    if (value >= CLIPPED_LUMINANCE) clipped++;
+  }
+
+  // 4-neighbour Laplacian over the inner pixels.
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+
+  return {
+    sharpness: count > 0 ? sumSquares / count - mean * mean : 0,
+    brightness: gray.length > 0 ? total / gray.length : 0,
+    clipped: gray.length > 0 ? clipped / gray.length : 0,
+  };
+};
+
+/**
+ * Measures sharpness, exposure and resolution of a photo prepared for upload.
+ * Issues come in the order they should be fixed: move closer first, then light, then focus.
+ */
+export const assessPhotoQuality = async (photo: PreparedImage): Promise<PhotoQuality> => {
+  const { width, height, data } = await readPixels(photo.uri);
+  const { sharpness, brightness, clipped } = measure(data, width, height);
+
+  const issues: QualityIssue[] = [];
+  if (Math.min(photo.sourceWidth, photo.sourceHeight) < MODEL_INPUT_SIZE) issues.push('low_resolution');
+  if (brightness < MIN_BRIGHTNESS) issues.push('too_dark');
+  if (brightness > MAX_BRIGHTNESS || clipped > MAX_CLIPPED) issues.push('too_bright');
+  if (sharpness < MIN_SHARPNESS) issues.push('blurry');
+
+  return {
+    sharpness: Math.round(sharpness),
+    brightness: Math.round(brightness),
+    clipped: Math.round(clipped * 100) / 100,
+    width: photo.sourceWidth,
+    height: photo.sourceHeight,
+    issues,
+    overridden: false,
+  };
+};
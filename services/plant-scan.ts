@@ -0,0 +1,101 @@
+import { DiseaseLabel, LABELS } from '@/constants/labels';
+import { HistoryItem, addPlantToHistory } from '@/services/history';
+import { GeoPoint } from '@/services/location';
+import { PhotoQuality } from '@/services/photo-quality';
+import { ClassProbability, PredictionOptions, PredictionResult, predictLeaf } from '@/services/prediction';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface PlantConsensus {
+  label: DiseaseLabel;
+  confidence: number;                 // Mean probability of `label` over every photo, 0-100
+  probabilities: ClassProbability[];  // Mean of every class, highest first
+  agreement: number;                  // Photos whose own top result is `label`
+  total: number;
+}
+
+export interface PlantScanResult {
+  consensus: PlantConsensus;
+  predictions: PredictionResult[];    // Same order as the photos
+  entry: HistoryItem | null;          // Null when saving to history failed
+}
+
+export interface PlantScanPhoto {
+  imageUri: string;
+  quality?: PhotoQuality;             // From the quality check run when the photo was framed
+}
+
+export interface PlantScanOptions {
+  fieldId?: string;
+  location?: GeoPoint;
+  followUpOf?: string;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Fewer than three photos is hardly a vote; more than five adds upload time
+// without changing the answer much.
+export const MIN_PLANT_PHOTOS = 3;
+export const MAX_PLANT_PHOTOS = 5;
+
+// Servers from before `probabilities` only report the top class.
+const probabilitiesOf = (prediction: PredictionResult): ClassProbability[] =>
+  prediction.probabilities.length > 0
+    ? prediction.probabilities
+    : [{ label: prediction.label, confidence: prediction.confidence }];
+
+/**
+ * Combines several results for the same plant by averaging each class's
+ * probability (soft voting), so one confident outlier cannot outvote the rest.
+ */
+export const buildConsensus = (predictions: PredictionResult[]): PlantConsensus => {
+  if (predictions.length === 0) {
+    throw new Error('A consensus needs at least one prediction.');
+  }
+
+  const totals = new Map<DiseaseLabel, number>(LABELS.map((label) => [label, 0]));
+  predictions.forEach((prediction) => {
+    probabilitiesOf(prediction).forEach(({ label, confidence }) => {
+      totals.set(label, (totals.get(label) ?? 0) + confidence);
+    });
+  });
+
+  const probabilities = [...totals.entries()]
+    .map(([label, total]) => ({ label, confidence: total / predictions.length }))
+    .filter((probability) => probability.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence);
+  const [top] = probabilities;
+
+  return {
+    label: top.label,
+    confidence: top.confidence,
+    probabilities,
+    agreement: predictions.filter((prediction) => prediction.label === top.label).length,
+    total: predictions.length,
+  };
+};
+
+/**
+ * Sends each photo of one plant through `/predict`, one at a time, and saves
+ * the consensus as a single history entry that keeps every photo's result.
+ * Any failed upload stops the scan, so the farmer can retry with all photos.
+ */
+export const diagnosePlant = async (
+  photos: PlantScanPhoto[],
+  { signal, onProgress, ...details }: PlantScanOptions = {}
+): Promise<PlantScanResult> => {
+  const options: PredictionOptions = { signal };
+  const predictions: PredictionResult[] = [];
+  onProgress?.(0, photos.length);
+  for (const { imageUri } of photos) {
+    predictions.push(await predictLeaf({ imageUri }, options));
+    onProgress?.(predictions.length, photos.length);
+  }
+
+  const consensus = buildConsensus(predictions);
+  const entry = await addPlantToHistory(
+    consensus,
+    photos.map((photo, index) => ({ ...photo, prediction: predictions[index] })),
+    details
+  );
+  return { consensus, predictions, entry };
+};
@@ -0,0 +1,252 @@
+import { DiseaseLabel, isDiseaseLabel } from '@/constants/labels';
+import { getActiveProfile } from '@/services/backend-profiles';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface PredictionRequest {
+  imageUri: string;
+  fileName?: string;
+  mimeType?: string;
+}
+
+export interface ClassProbability {
+  label: DiseaseLabel;
+  confidence: number; // Percentage, 0-100
+}
+
+export interface PredictionResult {
+  label: DiseaseLabel;
+  confidence: number;                 // Percentage, 0-100
+  probabilities: ClassProbability[];  // Every class, highest first. Empty from servers older than this field.
+  heatmapImage: string | null;        // Base64 JPEG, null when Grad-CAM failed on the server
+}
+
+export interface PredictionOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * - `network`: the request never reached the server (offline, DNS, wrong IP, unreadable server settings)
+ * - `timeout`: no reply within `timeoutMs`
+ * - `cancelled`: the caller aborted through `signal`
+ * - `bad_request`: the server rejected the upload (4xx), retrying will not help
+ * - `server`: the server failed (5xx), worth retrying later
+ * - `invalid_response`: the reply was not a diagnosis (HTML page, bad JSON, unknown label)
+ */
+export type PredictionErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'bad_request'
+  | 'server'
+  | 'invalid_response';
+
+export class PredictionError extends Error {
+  readonly kind: PredictionErrorKind;
+  readonly status?: number;
+
+  constructor(kind: PredictionErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'PredictionError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  // Network trouble and server crashes can clear up by themselves.
+  get retryable() {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'server';
+  }
+}
+
+// Render can take close to a minute to wake up and lazy-load the model.
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+// The server formats confidence as "87.23%".
+export const parseConfidence = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*%$/);
+    if (match) return parseFloat(match[1]);
+  }
+  return null;
+};
+
+export const formatConfidence = (confidence: number) => `${confidence.toFixed(2)}%`;
+
+const parseProbabilities = (value: unknown): ClassProbability[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new PredictionError('invalid_response', 'Invalid class probabilities in server reply.');
+  }
+
+  const probabilities = value.map((entry): ClassProbability => {
+    const confidence = parseConfidence(entry?.confidence);
+    if (!isDiseaseLabel(entry?.label) || confidence === null) {
+      throw new PredictionError('invalid_response', 'Invalid class probabilities in server reply.');
+    }
+    return { label: entry.label, confidence };
+  });
+
+  return probabilities.sort((a, b) => b.confidence - a.confidence);
+};
+
+const parsePrediction = (body: unknown): PredictionResult => {
+  if (typeof body !== 'object' || body === null) {
+    throw new PredictionError('invalid_response', 'The server reply was not a JSON object.');
+  }
+
+  const data = body as { [key: string]: unknown };
+
+  if (!isDiseaseLabel(data.label)) {
+    throw new PredictionError('invalid_response', `Unknown label in server reply: ${String(data.label)}`);
+  }
+
+  const confidence = parseConfidence(data.confidence);
+  if (confidence === null || confidence < 0 || confidence > 100) {
+    throw new PredictionError('invalid_response', `Invalid confidence in server reply: ${String(data.confidence)}`);
+  }
+
+  if (data.heatmap_image !== undefined && typeof data.heatmap_image !== 'string') {
+    throw new PredictionError('invalid_response', 'Invalid heatmap in server reply.');
+  }
+
+  return {
+    label: data.label,
+    confidence,
+    probabilities: parseProbabilities(data.probabilities),
+    heatmapImage: data.heatmap_image ? data.heatmap_image : null,
+  };
+};
+
+const readErrorMessage = (text: string, status: number) => {
+  try {
+    const body = JSON.parse(text);
+    if (body && typeof body.error === 'string') return body.error;
+  } catch {
+    // Not JSON (e.g. an HTML error page from a proxy).
+  }
+  return `Server responded with status ${status}.`;
+};
+
+const appendImage = (formData: FormData, field: string, { imageUri, fileName = 'rice_leaf.jpg', mimeType = 'image/jpeg' }: PredictionRequest) => {
+  formData.append(field, {
+    uri: imageUri,
+    name: fileName,
+    type: mimeType,
+  } as any);
+};
+
+// Posts a multipart form to the active backend profile and returns the parsed
+// JSON reply. Always rejects with a `PredictionError`.
+const postForm = async (
+  path: string,
+  formData: FormData,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS }: PredictionOptions
+): Promise<unknown> => {
+  if (signal?.aborted) {
+    throw new PredictionError('cancelled', 'The scan was cancelled.');
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    let response: Response;
+    let text: string;
+    try {
+      // Inside the try so a failed settings read is reported like any other
+      // request that never reached the server.
+      const { baseUrl } = await getActiveProfile();
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        body: formData,
+        headers: { 'Content-Type': 'multipart/form-data' },
+        signal: controller.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      if (timedOut) {
+        throw new PredictionError('timeout', 'The server took too long to respond.');
+      }
+      if (signal?.aborted) {
+        throw new PredictionError('cancelled', 'The scan was cancelled.');
+      }
+      throw new PredictionError('network', error instanceof Error ? error.message : 'Network request failed.');
+    }
+
+    if (!response.ok) {
+      const kind = response.status >= 500 ? 'server' : 'bad_request';
+      throw new PredictionError(kind, readErrorMessage(text, response.status), response.status);
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new PredictionError('invalid_response', 'The server reply was not valid JSON.', response.status);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Uploads one leaf photo to `/predict` on the active backend profile and
+ * returns the validated diagnosis.
+ * Always rejects with a `PredictionError`.
+ */
+export const predictLeaf = async (
+  request: PredictionRequest,
+  options: PredictionOptions = {}
+): Promise<PredictionResult> => {
+  const formData = new FormData();
+  appendImage(formData, 'image', request);
+  return parsePrediction(await postForm('/predict', formData, options));
+};
+
+// Matches MAX_BATCH_SIZE in app.py.
+export const MAX_BATCH_SIZE = 10;
+
+// Each photo in a batch adds model and Grad-CAM time on the server.
+const BATCH_TIMEOUT_PER_IMAGE_MS = 15 * 1000;
+
+/**
+ * Uploads up to `MAX_BATCH_SIZE` photos to `/predict/batch` in one request.
+ * Resolves with one outcome per photo, in the same order: a diagnosis, or a
+ * `PredictionError` for a photo the server could not read.
+ * Rejects with a `PredictionError` when the request as a whole fails; servers
+ * older than the batch endpoint reject with a `bad_request` and status 404.
+ */
+export const predictLeafBatch = async (
+  requests: PredictionRequest[],
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS + requests.length * BATCH_TIMEOUT_PER_IMAGE_MS }: PredictionOptions = {}
+): Promise<(PredictionResult | PredictionError)[]> => {
+  const formData = new FormData();
+  requests.forEach((request) => appendImage(formData, 'images', request));
+  const body = await postForm('/predict/batch', formData, { signal, timeoutMs });
+
+  const results = (body as { results?: unknown } | null)?.results;
+  if (!Array.isArray(results) || results.length !== requests.length) {
+    throw new PredictionError('invalid_response', 'The server reply did not hold one result per photo.');
+  }
+
+  return results.map((entry) => {
+    if (entry && typeof entry.error === 'string') {
+      return new PredictionError('bad_request', entry.error);
+    }
+    try {
+      return parsePrediction(entry);
+    } catch (error) {
+      if (error instanceof PredictionError) return error;
+      throw error;
+    }
+  });
+};
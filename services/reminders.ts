@@ -0,0 +1,252 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { getAppSettings } from '@/services/app-settings';
+import { getField } from '@/services/fields';
+import { HistoryItem, updateHistoryItem } from '@/services/history';
+import { getDiseaseName, translate } from '@/services/i18n';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface Reminder {
+  id: string;
+  historyId: string;              // The scan to follow up on
+  label: string;                  // Its diagnosis, for the list and the notification
+  fieldId?: string;               // Its field when the reminder was set
+  dueAt: string;                  // ISO
+  notificationId: string;
+  createdAt: string;              // ISO
+  followUpId?: string;            // History entry of the follow-up scan, once done
+  completedAt?: string;           // ISO
+}
+
+type RemindersListener = (reminders: Reminder[]) => void;
+
+export type ReminderErrorKind = 'permission';
+
+export class ReminderError extends Error {
+  readonly kind: ReminderErrorKind;
+
+  constructor(kind: ReminderErrorKind, message: string) {
+    super(message);
+    this.name = 'ReminderError';
+    this.kind = kind;
+  }
+}
+
+const REMINDERS_KEY = 'follow_up_reminders';
+const CHANNEL_ID = 'follow-ups';
+
+// Offered on the result card; treatments usually show an effect within two weeks.
+export const FOLLOW_UP_DAYS = [3, 7, 14];
+// Early morning, before the farmer heads out to the field.
+const REMINDER_HOUR = 7;
+
+let reminders: Reminder[] | null = null;
+const listeners = new Set<RemindersListener>();
+
+// Changes run one after another so two of them can't both start from the same
+// list and drop each other's edit.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeChain.then(task, task);
+  writeChain = run.catch(() => undefined);
+  return run;
+};
+
+const readReminders = async (): Promise<Reminder[]> => {
+  if (reminders === null) {
+    try {
+      const stored = await AsyncStorage.getItem(REMINDERS_KEY);
+      reminders = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("Failed to load reminders", error);
+      reminders = [];
+    }
+  }
+  return reminders!;
+};
+
+const writeReminders = async (next: Reminder[]) => {
+  reminders = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(REMINDERS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error("Failed to save reminders", error);
+  }
+};
+
+export const isPending = (reminder: Reminder) => !reminder.followUpId && !reminder.completedAt;
+
+// `days` from today at REMINDER_HOUR.
+export const followUpDate = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(REMINDER_HOUR, 0, 0, 0);
+  return date;
+};
+
+const ensurePermission = async () => {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Follow-up reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+  const current = await Notifications.getPermissionsAsync();
+  const { granted } = current.granted ? current : await Notifications.requestPermissionsAsync();
+  if (!granted) {
+    throw new ReminderError('permission', 'Notifications are turned off for Rice Leaf Doctor.');
+  }
+};
+
+const scheduleNotification = async (reminder: Omit<Reminder, 'notificationId'>) => {
+  const { language } = await getAppSettings();
+  const field = reminder.fieldId ? await getField(reminder.fieldId) : null;
+  return Notifications.scheduleNotificationAsync({
+    content: {
+      title: field
+        ? translate(language, 'followUp.notificationTitleField', { field: field.name })
+        : translate(language, 'followUp.notificationTitle'),
+      body: translate(language, 'followUp.notificationBody', { disease: getDiseaseName(reminder.label, language) }),
+      data: { reminderId: reminder.id },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: new Date(reminder.dueAt),
+      channelId: CHANNEL_ID,
+    },
+  });
+};
+
+const cancelNotification = async (notificationId: string) => {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  } catch (error) {
+    // Already delivered or cleared by the OS.
+    console.warn("Failed to cancel notification", notificationId, error);
+  }
+};
+
+export const getReminders = () => readReminders();
+
+export const getReminder = async (id: string) => (await readReminders()).find((item) => item.id === id) ?? null;
+
+export const subscribeToReminders = (listener: RemindersListener) => {
+  listeners.add(listener);
+  readReminders().then((current) => {
+    if (listeners.has(listener)) listener(current);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Schedules a local notification to re-scan `scan` on `dueAt`. A scan has at
+ * most one pending reminder; scheduling again moves it.
+ */
+export const scheduleFollowUp = async (scan: Pick<HistoryItem, 'id' | 'label' | 'fieldId'>, dueAt: Date) => {
+  await ensurePermission();
+
+  return serialized(async () => {
+    const current = await readReminders();
+    const existing = current.find((item) => item.historyId === scan.id && isPending(item));
+    if (existing) await cancelNotification(existing.notificationId);
+
+    const draft = {
+      id: existing?.id ?? Date.now().toString(),
+      historyId: scan.id,
+      label: scan.label,
+      fieldId: scan.fieldId,
+      dueAt: dueAt.toISOString(),
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+    const reminder: Reminder = { ...draft, notificationId: await scheduleNotification(draft) };
+
+    await writeReminders(
+      existing ? current.map((item) => (item.id === reminder.id ? reminder : item)) : [...current, reminder]
+    );
+    return reminder;
+  });
+};
+
+export const rescheduleReminder = async (id: string, dueAt: Date) => {
+  const reminder = await getReminder(id);
+  if (!reminder) return null;
+  return scheduleFollowUp({ id: reminder.historyId, label: reminder.label, fieldId: reminder.fieldId }, dueAt);
+};
+
+export const cancelReminder = (id: string) =>
+  serialized(async () => {
+    const current = await readReminders();
+    const reminder = current.find((item) => item.id === id);
+    if (!reminder) return;
+    if (isPending(reminder)) await cancelNotification(reminder.notificationId);
+    await writeReminders(current.filter((item) => item.id !== id));
+  });
+
+// For scans that are being deleted.
+export const cancelRemindersFor = (historyIds: string[]) =>
+  serialized(async () => {
+    const current = await readReminders();
+    const removed = current.filter((item) => historyIds.includes(item.historyId));
+    if (removed.length === 0) return;
+    await Promise.all(removed.filter(isPending).map((item) => cancelNotification(item.notificationId)));
+    await writeReminders(current.filter((item) => !removed.includes(item)));
+  });
+
+export const clearReminders = () =>
+  serialized(async () => {
+    const current = await readReminders();
+    await Promise.all(current.filter(isPending).map((item) => cancelNotification(item.notificationId)));
+    await writeReminders([]);
+  });
+
+/**
+ * Marks the reminders for `entry.followUpOf` as done and links the two scans
+ * both ways. Call after saving a follow-up scan.
+ */
+export const completeFollowUps = async (entry: HistoryItem) => {
+  const originalId = entry.followUpOf;
+  if (!originalId) return;
+
+  await serialized(async () => {
+    const current = await readReminders();
+    const done = current.filter((item) => item.historyId === originalId && isPending(item));
+    if (done.length === 0) return;
+    await Promise.all(done.map((item) => cancelNotification(item.notificationId)));
+    const completedAt = new Date().toISOString();
+    await writeReminders(
+      current.map((item) => (done.includes(item) ? { ...item, followUpId: entry.id, completedAt } : item))
+    );
+  });
+
+  await updateHistoryItem(originalId, (original) =>
+    original.followUpIds?.includes(entry.id) ? {} : { followUpIds: [...(original.followUpIds ?? []), entry.id] }
+  );
+};
+
+/**
+ * Calls `onOpen` with the reminder id whenever the farmer taps a reminder
+ * notification, including the one that launched the app. Returns an
+ * unsubscribe function.
+ */
+export const listenForReminderTaps = (onOpen: (reminderId: string) => void) => {
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const reminderId = response?.notification.request.content.data?.reminderId;
+    if (typeof reminderId === 'string') onOpen(reminderId);
+  };
+
+  Notifications.getLastNotificationResponseAsync()
+    .then((response) => {
+      handle(response);
+      // Otherwise the same tap is handled again on the next launch.
+      if (response) Notifications.clearLastNotificationResponseAsync();
+    })
+    .catch((error) => console.warn("Failed to read notification response", error));
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => subscription.remove();
+};
@@ -0,0 +1,70 @@
+import { HistoryItem } from '@/services/history';
+import { GeoPoint, distanceMeters } from '@/services/location';
+
+// --- TYPESCRIPT INTERFACES ---
+export interface ScanCluster {
+  id: string;
+  latitude: number;  // Centre of the cluster
+  longitude: number;
+  items: HistoryItem[];          // Newest first
+  labelCounts: { label: string; count: number }[]; // Most frequent first
+  distanceMeters: number | null; // From the user; null when their position is unknown
+}
+
+// Scans within this distance of a cluster's centre join it. Roughly one paddy.
+export const DEFAULT_CLUSTER_RADIUS_M = 100;
+
+/**
+ * Groups geotagged scans into nearby clusters, computed entirely on the
+ * device. Clusters are sorted nearest first when `userLocation` is known,
+ * otherwise by how many scans they hold.
+ */
+export const clusterScans = (
+  items: HistoryItem[],
+  userLocation: Pick<GeoPoint, 'latitude' | 'longitude'> | null,
+  radiusMeters = DEFAULT_CLUSTER_RADIUS_M
+): ScanCluster[] => {
+  const groups: { latitude: number; longitude: number; items: HistoryItem[] }[] = [];
+
+  // Oldest first, so clusters grow around the first scan taken at a spot.
+  const located = items
+    .filter((item) => item.location)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const item of located) {
+    const point = item.location!;
+    const group = groups.find((candidate) => distanceMeters(candidate, point) <= radiusMeters);
+    if (group) {
+      group.items.push(item);
+      // Running mean keeps the centre in the middle of its scans.
+      group.latitude += (point.latitude - group.latitude) / group.items.length;
+      group.longitude += (point.longitude - group.longitude) / group.items.length;
+    } else {
+      groups.push({ latitude: point.latitude, longitude: point.longitude, items: [item] });
+    }
+  }
+
+  const clusters = groups.map((group): ScanCluster => {
+    const counts: { [label: string]: number } = {};
+    group.items.forEach((item) => {
+      counts[item.label] = (counts[item.label] ?? 0) + 1;
+    });
+
+    return {
+      id: group.items[0].id,
+      latitude: group.latitude,
+      longitude: group.longitude,
+      items: [...group.items].reverse(),
+      labelCounts: Object.entries(counts)
+        .map(([label, count]) => ({ label, count }))
+        .sort((a, b) => b.count - a.count),
+      distanceMeters: userLocation ? distanceMeters(userLocation, group) : null,
+    };
+  });
+
+  return clusters.sort((a, b) =>
+    a.distanceMeters !== null && b.distanceMeters !== null
+      ? a.distanceMeters - b.distanceMeters
+      : b.items.length - a.items.length
+  );
+};
@@ -0,0 +1,271 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+import { deleteStoredFile, storeScanImage } from '@/services/file-storage';
+import { ScanDetails, addToHistory } from '@/services/history';
+import { GeoPoint } from '@/services/location';
+import { PhotoQuality } from '@/services/photo-quality';
+import { PredictionError, predictLeaf } from '@/services/prediction';
+import { completeFollowUps } from '@/services/reminders';
+
+// --- TYPESCRIPT INTERFACES ---
+export type ScanStatus = 'pending' | 'uploading' | 'failed' | 'done';
+
+export interface QueuedScan {
+  id: string;
+  imageUri: string;
+  createdAt: string;            // ISO time the photo was submitted
+  status: ScanStatus;
+  attempts: number;
+  nextAttemptAt: number | null; // Epoch ms of the next automatic retry, null if it needs a manual retry
+  lastError?: string;
+  label?: string;               // Filled in once the scan is done
+  confidence?: number;
+  fieldId?: string;
+  location?: GeoPoint;
+  quality?: PhotoQuality;
+  followUpOf?: string;
+}
+
+type QueueListener = (queue: QueuedScan[]) => void;
+
+// The photo was diagnosed but the entry could not be stored; worth retrying.
+class HistorySaveError extends Error {
+  constructor() {
+    super('The diagnosis could not be saved to history.');
+    this.name = 'HistorySaveError';
+  }
+}
+
+const QUEUE_KEY = 'scan_queue';
+
+// Retry delay doubles per attempt: 5s, 10s, 20s ... capped at 10 minutes.
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+let queue: QueuedScan[] | null = null;
+let processing = false;
+let isOnline = true;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<QueueListener>();
+
+// A failed batch hands several photos to the queue at once.
+let lastScanId = 0;
+const nextScanId = () => {
+  lastScanId = Math.max(Date.now(), lastScanId + 1);
+  return lastScanId.toString();
+};
+
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+const isDue = (item: QueuedScan, now: number) =>
+  item.status === 'pending' ||
+  (item.status === 'failed' && item.nextAttemptAt !== null && item.nextAttemptAt <= now);
+
+const readQueue = async (): Promise<QueuedScan[]> => {
+  if (queue === null) {
+    try {
+      const storedQueue = await AsyncStorage.getItem(QUEUE_KEY);
+      queue = storedQueue ? JSON.parse(storedQueue) : [];
+    } catch (error) {
+      console.error("Failed to load scan queue", error);
+      queue = [];
+    }
+  }
+  return queue!;
+};
+
+const writeQueue = async (next: QueuedScan[]) => {
+  queue = next;
+  listeners.forEach((listener) => listener(next));
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error("Failed to save scan queue", error);
+  }
+};
+
+const updateScan = async (id: string, changes: Partial<QueuedScan>) => {
+  const current = await readQueue();
+  await writeQueue(current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+};
+
+const scheduleRetry = (current: QueuedScan[]) => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const upcoming = current
+    .filter((item) => item.status === 'failed' && item.nextAttemptAt !== null)
+    .map((item) => item.nextAttemptAt!);
+
+  if (upcoming.length === 0 || !isOnline) return;
+
+  const delay = Math.max(Math.min(...upcoming) - Date.now(), 0);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processScanQueue();
+  }, delay);
+};
+
+export const getScanQueue = () => readQueue();
+
+export const subscribeToScanQueue = (listener: QueueListener) => {
+  listeners.add(listener);
+  readQueue().then((current) => {
+    if (listeners.has(listener)) listener(current);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Uploads every scan that is due. Runs one upload at a time so a weak
+// connection is not split between several photos.
+export const processScanQueue = async () => {
+  if (processing || !isOnline) return;
+  processing = true;
+
+  try {
+    let next = (await readQueue()).find((item) => isDue(item, Date.now()));
+
+    while (next && isOnline) {
+      const scan = next;
+      await updateScan(scan.id, { status: 'uploading' });
+
+      try {
+        const data = await predictLeaf({ imageUri: scan.imageUri });
+        const entry = await addToHistory(data, scan.imageUri, {
+          scannedAt: new Date(scan.createdAt),
+          fieldId: scan.fieldId,
+          location: scan.location,
+          quality: scan.quality,
+          followUpOf: scan.followUpOf,
+        });
+        // `addToHistory` reports storage failures as null. Completing the scan
+        // anyway would drop a diagnosis the farmer waited for.
+        if (!entry) throw new HistorySaveError();
+        await completeFollowUps(entry);
+        await updateScan(scan.id, {
+          status: 'done',
+          nextAttemptAt: null,
+          lastError: undefined,
+          label: data.label,
+          confidence: data.confidence,
+        });
+        console.log("✅ Queued scan diagnosed");
+      } catch (error) {
+        // A rejected photo or a reply that is not a diagnosis will fail the
+        // same way again, so those wait for the user instead of retrying.
+        const attempts = scan.attempts + 1;
+        const retryable = (error instanceof PredictionError && error.retryable) || error instanceof HistorySaveError;
+        await updateScan(scan.id, {
+          status: 'failed',
+          attempts,
+          nextAttemptAt: retryable ? Date.now() + retryDelay(attempts) : null,
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      next = (await readQueue()).find((item) => isDue(item, Date.now()));
+    }
+  } finally {
+    processing = false;
+    scheduleRetry(await readQueue());
+  }
+};
+
+export const enqueueScan = async (imageUri: string, { scannedAt = new Date(), fieldId, location, quality, followUpOf }: ScanDetails = {}) => {
+  const id = nextScanId();
+
+  // The picker's cache copy may be gone by the time we are back online.
+  let storedImageUri = imageUri;
+  try {
+    storedImageUri = storeScanImage(`queued-${id}`, imageUri);
+  } catch (error) {
+    console.error("Failed to copy queued photo", error);
+  }
+
+  const scan: QueuedScan = {
+    id,
+    imageUri: storedImageUri,
+    createdAt: scannedAt.toISOString(),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: null,
+    fieldId,
+    location,
+    quality,
+    followUpOf,
+  };
+
+  await writeQueue([scan, ...(await readQueue())]);
+  processScanQueue();
+  return scan;
+};
+
+// Manual "Retry now": skips whatever backoff delay is left.
+export const retryScan = async (id: string) => {
+  await updateScan(id, { status: 'pending', nextAttemptAt: null });
+  processScanQueue();
+};
+
+export const removeScan = async (id: string) => {
+  const current = await readQueue();
+  const removed = current.find((item) => item.id === id);
+  await writeQueue(current.filter((item) => item.id !== id));
+  // A finished scan's photo now belongs to its history entry.
+  if (removed && removed.status !== 'done') deleteStoredFile(removed.imageUri);
+};
+
+export const clearFinishedScans = async () => {
+  const current = await readQueue();
+  await writeQueue(current.filter((item) => item.status !== 'done'));
+};
+
+const handleConnectivity = (state: NetInfoState) => {
+  const wasOnline = isOnline;
+  isOnline = state.isConnected !== false && state.isInternetReachable !== false;
+
+  if (isOnline && !wasOnline) {
+    // Back online: retry failed scans right away instead of waiting out the backoff.
+    readQueue()
+      .then((current) =>
+        writeQueue(
+          current.map((item) =>
+            item.status === 'failed' && item.nextAttemptAt !== null
+              ? { ...item, nextAttemptAt: Date.now() }
+              : item
+          )
+        )
+      )
+      .then(processScanQueue);
+  } else if (!isOnline && retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+};
+
+// Call once from the root layout. Returns a cleanup function.
+export const startScanQueue = () => {
+  // An upload that was running when the app closed never finished.
+  readQueue()
+    .then((current) =>
+      writeQueue(
+        current.map((item) => (item.status === 'uploading' ? { ...item, status: 'pending' } : item))
+      )
+    )
+    .then(processScanQueue);
+
+  const unsubscribe = NetInfo.addEventListener(handleConnectivity);
+
+  return () => {
+    unsubscribe();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
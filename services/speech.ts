@@ -0,0 +1,169 @@
+import * as Speech from 'expo-speech';
+
+import { LANGUAGES, Language } from '@/constants/languages';
+
+// --- TYPESCRIPT INTERFACES ---
+export type SpeechStatus = 'idle' | 'speaking' | 'paused';
+
+export interface SpeechState {
+  status: SpeechStatus;
+  id: string | null;              // What is being read, e.g. a scan id
+}
+
+type SpeechListener = (state: SpeechState) => void;
+
+// Android has no pause, so text is read a sentence at a time: pausing stops
+// after noting the sentence, resuming starts that sentence again.
+interface Reading {
+  id: string;
+  sentences: string[];
+  index: number;
+  locale: string;
+}
+
+const IDLE: SpeechState = { status: 'idle', id: null };
+
+let state: SpeechState = IDLE;
+let reading: Reading | null = null;
+// Bumped on every stop so callbacks from a stopped utterance are ignored.
+let generation = 0;
+let voiceLocales: Promise<string[]> | null = null;
+const listeners = new Set<SpeechListener>();
+
+const setState = (next: SpeechState) => {
+  state = next;
+  listeners.forEach((listener) => listener(next));
+};
+
+export const getSpeechState = () => state;
+
+export const subscribeToSpeech = (listener: SpeechListener) => {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Short forms in the advice texts that end in a period mid-sentence.
+const ABBREVIATIONS = ['e.g.', 'i.e.', 'hal.', 'pv.'];
+
+const endsWithAbbreviation = (sentence: string) =>
+  ABBREVIATIONS.includes(sentence.split(/\s+/).pop()!.replace(/^\W+/, '').toLowerCase());
+
+// A sentence ends at . ! or ? followed by a space or the end of the text, so
+// "87.23%" stays whole; a line break always ends one. Leading emoji such as
+// the advice's "⚠️" are dropped because the voice would read out their names.
+export const splitSentences = (text: string) =>
+  text
+    .replace(/([.!?])\s+/g, '$1\n')
+    .split('\n')
+    .map((sentence) => sentence.replace(/^[^\p{L}\p{N}]+/u, '').trim())
+    .filter(Boolean)
+    .reduce<string[]>((sentences, sentence) => {
+      const previous = sentences.length - 1;
+      if (previous >= 0 && endsWithAbbreviation(sentences[previous])) {
+        sentences[previous] = `${sentences[previous]} ${sentence}`;
+      } else {
+        sentences.push(sentence);
+      }
+      return sentences;
+    }, []);
+
+const loadVoiceLocales = () => {
+  if (!voiceLocales) {
+    voiceLocales = Speech.getAvailableVoicesAsync()
+      .then((voices) => voices.map((voice) => voice.language.replace('_', '-').toLowerCase()))
+      .catch((error) => {
+        console.error("Failed to list voices", error);
+        return [];
+      });
+  }
+  return voiceLocales;
+};
+
+// First of the language's speech locales the phone has a voice for. With no
+// match the first one is passed anyway and the engine uses its default voice.
+const pickLocale = async (language: Language) => {
+  const wanted = LANGUAGES.find((item) => item.code === language)?.speechLocales ?? ['en-PH'];
+  const available = await loadVoiceLocales();
+  const match = wanted.find((locale) => {
+    const tag = locale.toLowerCase();
+    return available.some((voice) => voice === tag || voice.startsWith(`${tag}-`));
+  });
+  return match ?? wanted[0];
+};
+
+const speakFrom = (current: Reading) => {
+  const token = generation;
+  const sentence = current.sentences[current.index];
+  if (sentence === undefined) {
+    reading = null;
+    setState(IDLE);
+    return;
+  }
+  Speech.speak(sentence, {
+    language: current.locale,
+    rate: 0.9, // A little slower than normal for advice with product names
+    onDone: () => {
+      if (token !== generation) return;
+      current.index += 1;
+      speakFrom(current);
+    },
+    onError: (error) => {
+      if (token !== generation) return;
+      console.error("Failed to read aloud", error);
+      reading = null;
+      setState(IDLE);
+    },
+  });
+};
+
+const halt = async () => {
+  generation += 1;
+  try {
+    await Speech.stop();
+  } catch (error) {
+    console.error("Failed to stop speech", error);
+  }
+};
+
+/**
+ * Reads `text` aloud in `language`, replacing anything already being read.
+ */
+export const readAloud = async (id: string, text: string, language: Language) => {
+  await halt();
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) {
+    reading = null;
+    setState(IDLE);
+    return;
+  }
+  const token = generation;
+  setState({ status: 'speaking', id });
+  const locale = await pickLocale(language);
+  // Stopped or replaced while the voices were loading.
+  if (token !== generation) return;
+  reading = { id, sentences, index: 0, locale };
+  speakFrom(reading);
+};
+
+export const pauseReading = async () => {
+  if (state.status !== 'speaking' || !reading) return;
+  const paused = reading;
+  await halt();
+  reading = paused;
+  setState({ status: 'paused', id: paused.id });
+};
+
+export const resumeReading = () => {
+  if (state.status !== 'paused' || !reading) return;
+  setState({ status: 'speaking', id: reading.id });
+  speakFrom(reading);
+};
+
+export const stopReading = async () => {
+  await halt();
+  reading = null;
+  setState(IDLE);
+};
@@ -0,0 +1,178 @@
+import { DiseaseLabel, LABELS, isDiseaseLabel } from '@/constants/labels';
+import { HistoryItem, Treatment, updateHistoryItem } from '@/services/history';
+import { isValidDateKey, toDateKey } from '@/services/history-filters';
+
+// --- TYPESCRIPT INTERFACES ---
+export type TreatmentDraft = Omit<Treatment, 'id' | 'createdAt'>;
+
+// Read from the most recent later scan of the same plants.
+export type TreatmentOutcome = 'cleared' | 'persisted' | 'changed' | 'pending';
+
+export type TimelineEvent =
+  | { kind: 'scan'; at: string; item: HistoryItem; current: boolean }
+  | { kind: 'treatment'; at: string; treatment: Treatment };
+
+export interface TreatmentResult {
+  product: string;
+  activeIngredient?: string;
+  applications: number;
+  cleared: number;     // Followed by a Healthy Rice Leaf result
+  pending: number;     // No later scan yet
+  totalCost: number;
+}
+
+export interface DiseaseTreatmentSummary {
+  label: DiseaseLabel;
+  treatments: TreatmentResult[]; // Most often cleared first
+}
+
+export type TreatmentErrorKind = 'product' | 'date' | 'cost';
+
+export class TreatmentError extends Error {
+  readonly kind: TreatmentErrorKind;
+
+  constructor(kind: TreatmentErrorKind, message: string) {
+    super(message);
+    this.name = 'TreatmentError';
+    this.kind = kind;
+  }
+}
+
+const HEALTHY_LABEL: DiseaseLabel = 'Healthy Rice Leaf';
+
+// A correction from the farmer wins over the model's answer.
+const diagnosisOf = (item: HistoryItem) => item.feedback?.trueLabel ?? item.label;
+
+const clean = (draft: TreatmentDraft): TreatmentDraft => {
+  const product = draft.product.trim();
+  if (!product) {
+    throw new TreatmentError('product', 'Enter the product that was applied.');
+  }
+  if (!isValidDateKey(draft.appliedOn)) {
+    throw new TreatmentError('date', 'Enter the date as YYYY-MM-DD, for example 2025-06-30.');
+  }
+  if (draft.cost !== undefined && (!Number.isFinite(draft.cost) || draft.cost < 0)) {
+    throw new TreatmentError('cost', 'Enter the cost as a number, 0 or more.');
+  }
+  return {
+    product,
+    activeIngredient: draft.activeIngredient?.trim() || undefined,
+    dose: draft.dose?.trim() || undefined,
+    appliedOn: draft.appliedOn,
+    cost: draft.cost,
+  };
+};
+
+const sortTreatments = (treatments: Treatment[]) =>
+  [...treatments].sort((a, b) => a.appliedOn.localeCompare(b.appliedOn) || a.createdAt.localeCompare(b.createdAt));
+
+export const addTreatment = async (historyId: string, draft: TreatmentDraft) => {
+  const treatment: Treatment = { ...clean(draft), id: Date.now().toString(), createdAt: new Date().toISOString() };
+  return updateHistoryItem(historyId, (item) => ({
+    treatments: sortTreatments([...(item.treatments ?? []), treatment]),
+  }));
+};
+
+export const updateTreatment = async (historyId: string, treatmentId: string, draft: TreatmentDraft) => {
+  const changes = clean(draft);
+  return updateHistoryItem(historyId, (item) => ({
+    treatments: sortTreatments(
+      (item.treatments ?? []).map((treatment) => (treatment.id === treatmentId ? { ...treatment, ...changes } : treatment))
+    ),
+  }));
+};
+
+export const deleteTreatment = async (historyId: string, treatmentId: string) =>
+  updateHistoryItem(historyId, (item) => ({
+    treatments: (item.treatments ?? []).filter((treatment) => treatment.id !== treatmentId),
+  }));
+
+/**
+ * Scans taken after `item` of the same plants, oldest first: its follow-up
+ * scans, plus later scans of the same field when it has one.
+ */
+export const getLaterScans = (item: HistoryItem, history: HistoryItem[]) =>
+  history
+    .filter(
+      (other) =>
+        other.id !== item.id &&
+        other.createdAt > item.createdAt &&
+        (item.followUpIds?.includes(other.id) || other.followUpOf === item.id || (item.fieldId && other.fieldId === item.fieldId))
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * The scan, its treatments and the later scans in date order, for the
+ * before/after view. Treatments sort by the day they were applied; a scan
+ * taken that same day counts as before it.
+ */
+export const buildTreatmentTimeline = (item: HistoryItem, history: HistoryItem[]): TimelineEvent[] => {
+  const events: TimelineEvent[] = [
+    { kind: 'scan', at: toDateKey(new Date(item.createdAt)), item, current: true },
+    ...(item.treatments ?? []).map((treatment): TimelineEvent => ({ kind: 'treatment', at: treatment.appliedOn, treatment })),
+    ...getLaterScans(item, history).map(
+      (later): TimelineEvent => ({ kind: 'scan', at: toDateKey(new Date(later.createdAt)), item: later, current: false })
+    ),
+  ];
+  const rank = (event: TimelineEvent) => (event.kind === 'scan' ? (event.current ? 0 : 2) : 1);
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.at.localeCompare(b.event.at) || rank(a.event) - rank(b.event) || a.index - b.index)
+    .map(({ event }) => event);
+};
+
+export const getTreatmentOutcome = (
+  treatment: Treatment,
+  item: HistoryItem,
+  history: HistoryItem[]
+): { outcome: TreatmentOutcome; scan: HistoryItem | null } => {
+  const after = getLaterScans(item, history).filter((later) => toDateKey(new Date(later.createdAt)) > treatment.appliedOn);
+  const latest = after[after.length - 1] ?? null;
+  if (!latest) return { outcome: 'pending', scan: null };
+
+  const result = diagnosisOf(latest);
+  if (result === HEALTHY_LABEL) return { outcome: 'cleared', scan: latest };
+  return { outcome: result === diagnosisOf(item) ? 'persisted' : 'changed', scan: latest };
+};
+
+/**
+ * Per disease, every product applied against it and how often the plants
+ * scanned Healthy Rice Leaf afterwards. Products are matched by name,
+ * ignoring case.
+ */
+export const summarizeTreatments = (history: HistoryItem[]): DiseaseTreatmentSummary[] => {
+  const byLabel = new Map<DiseaseLabel, Map<string, TreatmentResult>>();
+
+  history.forEach((item) => {
+    const label = diagnosisOf(item);
+    if (!item.treatments?.length || !isDiseaseLabel(label)) return;
+
+    const results = byLabel.get(label) ?? new Map<string, TreatmentResult>();
+    byLabel.set(label, results);
+    item.treatments.forEach((treatment) => {
+      const key = treatment.product.toLowerCase();
+      const result = results.get(key) ?? {
+        product: treatment.product,
+        activeIngredient: treatment.activeIngredient,
+        applications: 0,
+        cleared: 0,
+        pending: 0,
+        totalCost: 0,
+      };
+      const { outcome } = getTreatmentOutcome(treatment, item, history);
+      result.applications += 1;
+      result.cleared += outcome === 'cleared' ? 1 : 0;
+      result.pending += outcome === 'pending' ? 1 : 0;
+      result.totalCost += treatment.cost ?? 0;
+      result.activeIngredient ??= treatment.activeIngredient;
+      results.set(key, result);
+    });
+  });
+
+  return LABELS.filter((label) => byLabel.has(label)).map((label) => ({
+    label,
+    treatments: [...byLabel.get(label)!.values()].sort(
+      (a, b) => b.cleared - a.cleared || b.applications - a.applications || a.product.localeCompare(b.product)
+    ),
+  }));
+};